@@ -0,0 +1,74 @@
+/**
+ * `fast-check` arbitraries of the strings which match, or nearly match, an expression.
+ *
+ * @example
+ * import * as fc from 'fast-check'
+ * import { pipe } from 'fp-ts/lib/function'
+ * import * as Arb from 'expressive-ts/lib/Arbitrary'
+ * import * as E from 'expressive-ts/lib/Expression'
+ * import * as M from 'expressive-ts/lib/Match'
+ *
+ * const version = pipe(
+ *   E.compile,
+ *   E.startOfInput,
+ *   E.digit,
+ *   E.oneOrMore,
+ *   E.string('.'),
+ *   E.digit,
+ *   E.oneOrMore,
+ *   E.endOfInput
+ * )
+ *
+ * fc.assert(fc.property(Arb.matching(version), M.test(version)))
+ * fc.assert(fc.property(Arb.nearMiss(version), (s) => !M.test(version)(s)))
+ *
+ * @since 0.1.0
+ */
+import * as fc from 'fast-check'
+import * as O from 'fp-ts/lib/Option'
+import { pipe } from 'fp-ts/lib/function'
+
+import * as E from './Expression'
+import * as S from './Sample'
+
+// -------------------------------------------------------------------------------------
+// constructors
+// -------------------------------------------------------------------------------------
+
+/**
+ * An arbitrary of the strings which are matched in their entirety by the expression.
+ * Generating a string throws if no matching string was found.
+ *
+ * @category constructors
+ * @since 0.1.0
+ */
+export const matching: (builder: E.ExpressionBuilder) => fc.Arbitrary<string> = (builder) =>
+  fromSample(S.matching(builder), 'Unable to generate a string which matches the expression')
+
+/**
+ * An arbitrary of the strings which are not matched in their entirety by the expression,
+ * but which differ from a matching string by a single character. Generating a string
+ * throws if no such string was found.
+ *
+ * @category constructors
+ * @since 0.1.0
+ */
+export const nearMiss: (builder: E.ExpressionBuilder) => fc.Arbitrary<string> = (builder) =>
+  fromSample(S.nearMiss(builder), 'Unable to generate a string which nearly matches the expression')
+
+// -------------------------------------------------------------------------------------
+// utils
+// -------------------------------------------------------------------------------------
+
+const fromSample = (sample: (random: S.Random) => O.Option<string>, message: string): fc.Arbitrary<string> =>
+  fc
+    .integer()
+    .noShrink()
+    .map((seed) =>
+      pipe(
+        sample(S.seeded(seed)),
+        O.getOrElse((): string => {
+          throw new Error(message)
+        })
+      )
+    )
@@ -0,0 +1,670 @@
+/**
+ * The abstract syntax tree of a regular expression.
+ *
+ * Every combinator in the `Expression` module contributes nodes to this tree, which is
+ * only rendered to a pattern when the expression is destructed. Working with the tree
+ * directly allows an expression to be inspected, transformed, and printed without having
+ * to reverse-engineer the rendered pattern.
+ *
+ * @example
+ * import { pipe } from 'fp-ts/lib/function'
+ * import * as AST from 'expressive-ts/lib/Ast'
+ * import * as E from 'expressive-ts/lib/Expression'
+ *
+ * const ast = pipe(E.compile, E.startOfInput, E.string('foo'), E.toAst)
+ *
+ * assert.deepStrictEqual(ast, AST.sequence([AST.anchor('start'), AST.group(AST.literal('foo'))]))
+ * assert.strictEqual(AST.render(ast), '^(?:foo)')
+ *
+ * @since 0.1.0
+ */
+import * as O from 'fp-ts/lib/Option'
+import { pipe } from 'fp-ts/lib/function'
+
+// -------------------------------------------------------------------------------------
+// models
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category models
+ * @since 0.1.0
+ */
+export type Ast =
+  | Sequence
+  | Alternation
+  | Literal
+  | CharacterClass
+  | CharacterType
+  | Anchor
+  | Group
+  | Capture
+  | Quantifier
+  | Lookaround
+  | Backreference
+
+/**
+ * Matches each of the nodes one after the other.
+ *
+ * @category models
+ * @since 0.1.0
+ */
+export interface Sequence {
+  readonly _tag: 'Sequence'
+  readonly nodes: ReadonlyArray<Ast>
+}
+
+/**
+ * Matches any one of the alternatives.
+ *
+ * @category models
+ * @since 0.1.0
+ */
+export interface Alternation {
+  readonly _tag: 'Alternation'
+  readonly alternatives: ReadonlyArray<Ast>
+}
+
+/**
+ * Matches the value exactly.
+ *
+ * @category models
+ * @since 0.1.0
+ */
+export interface Literal {
+  readonly _tag: 'Literal'
+  readonly value: string
+}
+
+/**
+ * Matches any single character which is (or, if negated, is not) a member of the class.
+ *
+ * @category models
+ * @since 0.1.0
+ */
+export interface CharacterClass {
+  readonly _tag: 'CharacterClass'
+  readonly negated: boolean
+  readonly members: ReadonlyArray<ClassMember>
+}
+
+/**
+ * @category models
+ * @since 0.1.0
+ */
+export type ClassMember =
+  | ClassCharacters
+  | ClassRange
+  | ClassCharacterType
+  | ClassProperty
+  | ClassNested
+  | ClassSetOperation
+
+/**
+ * Each of the characters of the value is a member of the class.
+ *
+ * @category models
+ * @since 0.1.0
+ */
+export interface ClassCharacters {
+  readonly _tag: 'ClassCharacters'
+  readonly value: string
+}
+
+/**
+ * Every character between `from` and `to` (inclusive) is a member of the class.
+ *
+ * @category models
+ * @since 0.1.0
+ */
+export interface ClassRange {
+  readonly _tag: 'ClassRange'
+  readonly from: string
+  readonly to: string
+}
+
+/**
+ * Every character (or, if negated, every character except those) of a predefined type is
+ * a member of the class.
+ *
+ * @category models
+ * @since 0.1.0
+ */
+export interface ClassCharacterType {
+  readonly _tag: 'ClassCharacterType'
+  readonly type: 'digit' | 'word' | 'whitespace'
+  readonly negated: boolean
+}
+
+/**
+ * Every character (or, if negated, every character except those) with the Unicode
+ * property `name`, or whose property `name` has the specified value, is a member of the
+ * class. Requires either the `unicode` or the `unicodeSets` flag.
+ *
+ * @category models
+ * @since 0.1.0
+ */
+export interface ClassProperty {
+  readonly _tag: 'ClassProperty'
+  readonly name: string
+  readonly value: O.Option<string>
+  readonly negated: boolean
+}
+
+/**
+ * Every member of the nested class is a member of the class. Requires the `unicodeSets`
+ * flag.
+ *
+ * @category models
+ * @since 0.1.0
+ */
+export interface ClassNested {
+  readonly _tag: 'ClassNested'
+  readonly node: CharacterClass
+}
+
+/**
+ * Every character which is a member of both classes or, for a subtraction, which is a
+ * member of the left class but not the right, is a member of the class. Requires the
+ * `unicodeSets` flag, and must be the only member of the class.
+ *
+ * @category models
+ * @since 0.1.0
+ */
+export interface ClassSetOperation {
+  readonly _tag: 'ClassSetOperation'
+  readonly operator: 'intersection' | 'subtraction'
+  readonly left: CharacterClass
+  readonly right: CharacterClass
+}
+
+/**
+ * Matches any single character of a predefined type.
+ *
+ * @category models
+ * @since 0.1.0
+ */
+export interface CharacterType {
+  readonly _tag: 'CharacterType'
+  readonly type: 'any' | 'digit' | 'word' | 'whitespace'
+}
+
+/**
+ * Matches a position in the input rather than a character.
+ *
+ * @category models
+ * @since 0.1.0
+ */
+export interface Anchor {
+  readonly _tag: 'Anchor'
+  readonly anchor: 'start' | 'end' | 'wordBoundary' | 'nonWordBoundary'
+}
+
+/**
+ * A non-capturing group.
+ *
+ * @category models
+ * @since 0.1.0
+ */
+export interface Group {
+  readonly _tag: 'Group'
+  readonly node: Ast
+}
+
+/**
+ * A capturing group, which may optionally be named.
+ *
+ * @category models
+ * @since 0.1.0
+ */
+export interface Capture {
+  readonly _tag: 'Capture'
+  readonly name: O.Option<string>
+  readonly node: Ast
+}
+
+/**
+ * Matches the node between `min` and `max` (inclusive) times. An unbounded quantifier
+ * has a `max` of `Infinity`.
+ *
+ * @category models
+ * @since 0.1.0
+ */
+export interface Quantifier {
+  readonly _tag: 'Quantifier'
+  readonly node: Ast
+  readonly min: number
+  readonly max: number
+  readonly lazy: boolean
+  /**
+   * The name of the combinator which constructed the quantifier, such as `oneOrMore`, if
+   * it was not written as part of a pattern.
+   */
+  readonly combinator: O.Option<string>
+}
+
+/**
+ * Asserts that the node does (or, if negated, does not) match ahead of or behind the
+ * current position, without consuming any input.
+ *
+ * @category models
+ * @since 0.1.0
+ */
+export interface Lookaround {
+  readonly _tag: 'Lookaround'
+  readonly direction: 'ahead' | 'behind'
+  readonly negated: boolean
+  readonly node: Ast
+}
+
+/**
+ * Matches the same text as was most recently matched by the capturing group with the
+ * specified number or name.
+ *
+ * @category models
+ * @since 0.1.0
+ */
+export interface Backreference {
+  readonly _tag: 'Backreference'
+  readonly group: number | string
+}
+
+// -------------------------------------------------------------------------------------
+// constructors
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category constructors
+ * @since 0.1.0
+ */
+export const sequence: (nodes: ReadonlyArray<Ast>) => Ast = (nodes) => ({ _tag: 'Sequence', nodes })
+
+/**
+ * @category constructors
+ * @since 0.1.0
+ */
+export const empty: Ast = sequence([])
+
+/**
+ * @category constructors
+ * @since 0.1.0
+ */
+export const alternation: (alternatives: ReadonlyArray<Ast>) => Ast = (alternatives) => ({
+  _tag: 'Alternation',
+  alternatives
+})
+
+/**
+ * @category constructors
+ * @since 0.1.0
+ */
+export const literal: (value: string) => Ast = (value) => ({ _tag: 'Literal', value })
+
+/**
+ * @category constructors
+ * @since 0.1.0
+ */
+export const characterClass: (negated: boolean, members: ReadonlyArray<ClassMember>) => CharacterClass = (
+  negated,
+  members
+) => ({
+  _tag: 'CharacterClass',
+  negated,
+  members
+})
+
+/**
+ * @category constructors
+ * @since 0.1.0
+ */
+export const classCharacters: (value: string) => ClassMember = (value) => ({ _tag: 'ClassCharacters', value })
+
+/**
+ * @category constructors
+ * @since 0.1.0
+ */
+export const classRange: (from: string, to: string) => ClassMember = (from, to) => ({
+  _tag: 'ClassRange',
+  from,
+  to
+})
+
+/**
+ * @category constructors
+ * @since 0.1.0
+ */
+export const classCharacterType: (type: ClassCharacterType['type'], negated: boolean) => ClassMember = (
+  type,
+  negated
+) => ({ _tag: 'ClassCharacterType', type, negated })
+
+/**
+ * @category constructors
+ * @since 0.1.0
+ */
+export const classProperty: (name: string, value: O.Option<string>, negated: boolean) => ClassMember = (
+  name,
+  value,
+  negated
+) => ({ _tag: 'ClassProperty', name, value, negated })
+
+/**
+ * @category constructors
+ * @since 0.1.0
+ */
+export const classNested: (node: CharacterClass) => ClassMember = (node) => ({ _tag: 'ClassNested', node })
+
+/**
+ * @category constructors
+ * @since 0.1.0
+ */
+export const classSetOperation: (
+  operator: ClassSetOperation['operator'],
+  left: CharacterClass,
+  right: CharacterClass
+) => ClassMember = (operator, left, right) => ({ _tag: 'ClassSetOperation', operator, left, right })
+
+/**
+ * @category constructors
+ * @since 0.1.0
+ */
+export const characterType: (type: CharacterType['type']) => Ast = (type) => ({ _tag: 'CharacterType', type })
+
+/**
+ * @category constructors
+ * @since 0.1.0
+ */
+export const anchor: (kind: Anchor['anchor']) => Ast = (kind) => ({ _tag: 'Anchor', anchor: kind })
+
+/**
+ * @category constructors
+ * @since 0.1.0
+ */
+export const group: (node: Ast) => Ast = (node) => ({ _tag: 'Group', node })
+
+/**
+ * @category constructors
+ * @since 0.1.0
+ */
+export const capture: (node: Ast) => Ast = (node) => ({ _tag: 'Capture', name: O.none, node })
+
+/**
+ * @category constructors
+ * @since 0.1.0
+ */
+export const namedCapture: (name: string, node: Ast) => Ast = (name, node) => ({
+  _tag: 'Capture',
+  name: O.some(name),
+  node
+})
+
+/**
+ * @category constructors
+ * @since 0.1.0
+ */
+export const quantifier: (node: Ast, min: number, max: number, lazy: boolean) => Ast = (node, min, max, lazy) => ({
+  _tag: 'Quantifier',
+  node,
+  min,
+  max,
+  lazy,
+  combinator: O.none
+})
+
+/**
+ * @category constructors
+ * @since 0.1.0
+ */
+export const lookaround: (direction: Lookaround['direction'], negated: boolean, node: Ast) => Ast = (
+  direction,
+  negated,
+  node
+) => ({ _tag: 'Lookaround', direction, negated, node })
+
+/**
+ * @category constructors
+ * @since 0.1.0
+ */
+export const backreference: (reference: number | string) => Ast = (reference) => ({
+  _tag: 'Backreference',
+  group: reference
+})
+
+// -------------------------------------------------------------------------------------
+// destructors
+// -------------------------------------------------------------------------------------
+
+/**
+ * Renders the syntax tree as a regular expression pattern.
+ *
+ * @category destructors
+ * @since 0.1.0
+ */
+export const render: (ast: Ast) => string = (ast) => renderIn('legacy')(ast)
+
+/**
+ * Renders the syntax tree as a regular expression pattern for either the `unicode` or the
+ * `unicodeSets` flag, which only allow a syntax character to be escaped.
+ *
+ * @category destructors
+ * @since 0.1.0
+ */
+export const renderUnicode: (ast: Ast) => string = (ast) => renderIn('unicode')(ast)
+
+/**
+ * Folds over every node of the syntax tree, visiting each node before its children.
+ *
+ * @category destructors
+ * @since 0.1.0
+ */
+export const reduce: <B>(b: B, f: (b: B, ast: Ast) => B) => (ast: Ast) => B = (b, f) => (ast) =>
+  children(ast).reduce((acc, child) => reduce(acc, f)(child), f(b, ast))
+
+/**
+ * Returns the name, if any, of every capturing group in the syntax tree, in the order in
+ * which the groups are numbered.
+ *
+ * @category destructors
+ * @since 0.1.0
+ */
+export const captures: (ast: Ast) => ReadonlyArray<O.Option<string>> = reduce<ReadonlyArray<O.Option<string>>>(
+  [],
+  (names, ast) => (ast._tag === 'Capture' ? [...names, ast.name] : names)
+)
+
+const children: (ast: Ast) => ReadonlyArray<Ast> = (ast) => {
+  switch (ast._tag) {
+    case 'Sequence':
+      return ast.nodes
+    case 'Alternation':
+      return ast.alternatives
+    case 'Group':
+    case 'Capture':
+    case 'Quantifier':
+    case 'Lookaround':
+      return [ast.node]
+    default:
+      return []
+  }
+}
+
+const characterTypes: Record<CharacterType['type'], string> = {
+  any: '.',
+  digit: '\\d',
+  word: '\\w',
+  whitespace: '\\s'
+}
+
+type Mode = 'legacy' | 'unicode'
+
+const renderIn: (mode: Mode) => (ast: Ast) => string = (mode) => (ast) => {
+  const go = renderIn(mode)
+  switch (ast._tag) {
+    case 'Sequence':
+      return ast.nodes.length === 1 ? go(ast.nodes[0]) : renderSequence(mode)(ast.nodes)
+    case 'Alternation':
+      return ast.alternatives.map(go).join('|')
+    case 'Literal':
+      return mode === 'legacy' ? escape(ast.value) : escapeUnicode(ast.value)
+    case 'CharacterClass':
+      return `[${ast.negated ? '^' : ''}${joinClassMembers(ast.members.map(renderClassMember))}]`
+    case 'CharacterType':
+      return characterTypes[ast.type]
+    case 'Anchor':
+      return anchors[ast.anchor]
+    case 'Group':
+      return renderGroup(mode)(ast.node)
+    case 'Capture':
+      return `(${pipe(
+        ast.name,
+        O.fold(
+          () => '',
+          (name) => `?<${name}>`
+        )
+      )}${go(ast.node)})`
+    case 'Quantifier':
+      return `${renderAtom(mode)(ast.node)}${renderQuantity(ast.min, ast.max)}${ast.lazy ? '?' : ''}`
+    case 'Lookaround':
+      return `(?${ast.direction === 'behind' ? '<' : ''}${ast.negated ? '!' : '='}${go(ast.node)})`
+    default:
+      return typeof ast.group === 'number' ? `\\${ast.group}` : `\\k<${ast.group}>`
+  }
+}
+
+const anchors: Record<Anchor['anchor'], string> = {
+  start: '^',
+  end: '$',
+  wordBoundary: '\\b',
+  nonWordBoundary: '\\B'
+}
+
+const renderGroup: (mode: Mode) => (ast: Ast) => string = (mode) => (ast) => `(?:${renderIn(mode)(ast)})`
+
+// A digit which follows a numbered backreference, even one at the end of a nested sequence,
+// would otherwise be read as part of the group number
+const renderSequence: (mode: Mode) => (nodes: ReadonlyArray<Ast>) => string = (mode) => (nodes) => {
+  const rendered = nodes.map((node) => (node._tag === 'Alternation' ? renderGroup(mode)(node) : renderIn(mode)(node)))
+  return rendered.reduce((acc, s) => `${acc}${endsInBackreference.test(acc) && /^\d/.test(s) ? '(?:)' : ''}${s}`, '')
+}
+
+// Regular expression to match a pattern which ends in an unescaped numbered backreference
+const endsInBackreference = /(?:^|[^\\])(?:\\\\)*\\[1-9]\d*$/
+
+const renderClassMember: (member: ClassMember) => string = (member) => {
+  switch (member._tag) {
+    case 'ClassCharacters':
+      return escapeClass(member.value)
+    case 'ClassRange':
+      return `${escapeClass(member.from)}-${escapeClass(member.to)}`
+    case 'ClassCharacterType': {
+      const type = characterTypes[member.type]
+      return member.negated ? type.toUpperCase() : type
+    }
+    case 'ClassProperty':
+      return `\\${member.negated ? 'P' : 'p'}{${member.name}${pipe(
+        member.value,
+        O.fold(
+          () => '',
+          (value) => `=${value}`
+        )
+      )}}`
+    case 'ClassNested':
+      return render(member.node)
+    default:
+      return `${render(member.left)}${member.operator === 'intersection' ? '&&' : '--'}${render(member.right)}`
+  }
+}
+
+// A quantifier only applies to the single atom which precedes it, so anything that renders
+// as more than one atom, or which cannot be quantified itself, must be grouped first
+const renderAtom: (mode: Mode) => (ast: Ast) => string = (mode) => (ast) => {
+  switch (ast._tag) {
+    case 'Sequence':
+      return ast.nodes.length === 1
+        ? renderAtom(mode)(ast.nodes[0])
+        : ast.nodes.length > 1
+        ? renderGroup(mode)(ast)
+        : ''
+    case 'Literal':
+      // With either unicode flag, a quantifier applies to an entire code point
+      return (mode === 'unicode' ? Array.from(ast.value).length : ast.value.length) > 1
+        ? renderGroup(mode)(ast)
+        : renderIn(mode)(ast)
+    case 'Alternation':
+    case 'Anchor':
+    case 'Quantifier':
+    case 'Lookaround':
+      return renderGroup(mode)(ast)
+    default:
+      return renderIn(mode)(ast)
+  }
+}
+
+const renderQuantity: (min: number, max: number) => string = (min, max) => {
+  if (max === Infinity) {
+    return min === 0 ? '*' : min === 1 ? '+' : `{${min},}`
+  }
+  if (min === 0 && max === 1) {
+    return '?'
+  }
+  return min === max ? `{${min}}` : `{${min},${max}}`
+}
+
+// -------------------------------------------------------------------------------------
+// utils
+// -------------------------------------------------------------------------------------
+
+// Regular expression to match meta characters
+// https://developer.mozilla.org/en/JavaScript/Reference/Global_Objects/regexp
+const toEscape = /([\].|*?+(){}^$\\:=[])/g
+
+// https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/RegExp/lastMatch
+const lastMatch = '$&'
+
+// Escape meta characters
+const sanitize: (value: string) => string = (value) => value.replace(toEscape, `\\${lastMatch}`)
+
+// Control characters which are written as escape sequences
+const controlCharacters: Record<string, string> = {
+  '\t': '\\t',
+  '\n': '\\n',
+  '\v': '\\v',
+  '\f': '\\f',
+  '\r': '\\r'
+}
+
+const escapeControlCharacters: (value: string) => string = (value) =>
+  value.replace(/[\t\n\v\f\r]/g, (character) => controlCharacters[character])
+
+// Escape meta and control characters
+const escape: (value: string) => string = (value) => escapeControlCharacters(sanitize(value))
+
+// With either the `unicode` or the `unicodeSets` flag, only a syntax character may be escaped
+const syntaxCharacters = /[\^$\\.*+?()[\]{}|]/g
+
+const escapeUnicode: (value: string) => string = (value) =>
+  escapeControlCharacters(value.replace(syntaxCharacters, `\\${lastMatch}`))
+
+// Characters which have a meaning within a class, and which may be escaped whether or not
+// either the `unicode` or the `unicodeSets` flag is set
+const toEscapeInClass = /[\\\][^\-(){}|/]/g
+
+// With the `unicodeSets` flag, these characters may not be repeated within a class, which
+// is a set of characters anyway
+const repeatedPunctuator = /([&!#$%*+,.:;<=>?@^`~])\1+/g
+
+// Escape meta and control characters within a class
+const escapeClass: (value: string) => string = (value) =>
+  escapeControlCharacters(value.replace(repeatedPunctuator, '$1').replace(toEscapeInClass, `\\${lastMatch}`))
+
+const doublePunctuator = /^([&!#$%*+,.:;<=>?@^`~])\1$/
+
+// With the `unicodeSets` flag, a punctuator at the start of a member may not follow the
+// same punctuator at the end of the previous member either, so it is written as a
+// hexadecimal escape, which is valid whatever the flags
+const joinClassMembers: (rendered: ReadonlyArray<string>) => string = (rendered) =>
+  rendered.reduce((acc, member) => {
+    const c = member.charAt(0)
+    return doublePunctuator.test(`${acc.slice(-1)}${c}`)
+      ? `${acc}\\x${c.charCodeAt(0).toString(16)}${member.slice(1)}`
+      : `${acc}${member}`
+  }, '')
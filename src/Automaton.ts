@@ -0,0 +1,609 @@
+/**
+ * Comparing the languages of expressions, that is the sets of strings which they match in
+ * their entirety, by compiling them into finite automata.
+ *
+ * Only the regular subset of an expression can be compiled, so an expression with a
+ * backreference, a lookaround or a word boundary is not supported, nor is an expression
+ * with a start or end of input boundary which has the `lineByLine` flag set. Capturing
+ * groups and lazy quantifiers are matched as non-capturing groups and greedy quantifiers,
+ * which match the same strings.
+ *
+ * Strings are compared by their UTF-16 code units, so that an expression with the
+ * `unicode` flag may be compared with one without it. With the `unicode` flag, a surrogate
+ * pair is matched as one code point, and a lone surrogate is matched as a code point of
+ * its own, as it is by the regular expression engine.
+ *
+ * @example
+ * import { pipe } from 'fp-ts/lib/function'
+ * import * as Ei from 'fp-ts/lib/Either'
+ * import * as Au from 'expressive-ts/lib/Automaton'
+ * import * as E from 'expressive-ts/lib/Expression'
+ *
+ * const before = pipe(E.compile, E.oneOf([pipe(E.compile, E.string('ab')), pipe(E.compile, E.string('ac'))]))
+ * const after = pipe(E.compile, E.string('a'), E.anyOf('bc'))
+ * const wrong = pipe(E.compile, E.string('a'), E.range('b', 'd'))
+ *
+ * assert.deepStrictEqual(Au.isEquivalent(before, after), Ei.right({ _tag: 'Holds' }))
+ * assert.deepStrictEqual(Au.isEquivalent(before, wrong), Ei.right({ _tag: 'Fails', counterexample: 'ad' }))
+ * assert.deepStrictEqual(Au.isSubsetOf(before, wrong), Ei.right({ _tag: 'Holds' }))
+ *
+ * @since 0.1.0
+ */
+import * as Ei from 'fp-ts/lib/Either'
+import { contramap, Eq, eqString } from 'fp-ts/lib/Eq'
+import * as O from 'fp-ts/lib/Option'
+import * as A from 'fp-ts/lib/ReadonlyArray'
+import { pipe } from 'fp-ts/lib/function'
+import { Show } from 'fp-ts/lib/Show'
+
+import * as AST from './Ast'
+import * as E from './Expression'
+
+// -------------------------------------------------------------------------------------
+// models
+// -------------------------------------------------------------------------------------
+
+/**
+ * Describes why an expression could not be compiled into a finite automaton.
+ *
+ * @category models
+ * @since 0.1.0
+ */
+export type AutomatonError = E.ExpressionError | Unsupported
+
+/**
+ * A node of an expression which cannot be compiled into a finite automaton.
+ *
+ * @category models
+ * @since 0.1.0
+ */
+export interface Unsupported {
+  readonly _tag: 'Unsupported'
+  readonly node: AST.Ast
+}
+
+/**
+ * Whether a relation between the languages of two expressions holds, or a string which
+ * shows that it does not.
+ *
+ * @category models
+ * @since 0.1.0
+ */
+export type Verdict = Holds | Fails
+
+/**
+ * @category models
+ * @since 0.1.0
+ */
+export interface Holds {
+  readonly _tag: 'Holds'
+}
+
+/**
+ * @category models
+ * @since 0.1.0
+ */
+export interface Fails {
+  readonly _tag: 'Fails'
+  /**
+   * The shortest string which shows that the relation does not hold.
+   */
+  readonly counterexample: string
+}
+
+// -------------------------------------------------------------------------------------
+// destructors
+// -------------------------------------------------------------------------------------
+
+/**
+ * Whether both expressions match the same strings. The counterexample is matched by only
+ * one of them.
+ *
+ * @category destructors
+ * @since 0.1.0
+ */
+export const isEquivalent: (a: E.ExpressionBuilder, b: E.ExpressionBuilder) => Ei.Either<AutomatonError, Verdict> = (
+  a,
+  b
+) => verdict(a, b, (x, y) => x !== y)
+
+/**
+ * Whether every string which is matched by `a` is also matched by `b`. The counterexample
+ * is matched by `a` but not by `b`.
+ *
+ * @category destructors
+ * @since 0.1.0
+ */
+export const isSubsetOf: (a: E.ExpressionBuilder, b: E.ExpressionBuilder) => Ei.Either<AutomatonError, Verdict> = (
+  a,
+  b
+) => verdict(a, b, (x, y) => x && !y)
+
+/**
+ * Returns the shortest string which is matched by both expressions, or `none` if no string
+ * is matched by both.
+ *
+ * @category destructors
+ * @since 0.1.0
+ */
+export const intersects: (
+  a: E.ExpressionBuilder,
+  b: E.ExpressionBuilder
+) => Ei.Either<AutomatonError, O.Option<string>> = (a, b) =>
+  pipe(
+    product(a, b),
+    Ei.map((p) => search(p, (x, y) => x && y))
+  )
+
+// -------------------------------------------------------------------------------------
+// instances
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category instances
+ * @since 0.1.0
+ */
+export const showUnsupported: Show<Unsupported> = {
+  show: ({ node }) => `'${AST.render(node)}' cannot be matched by a finite automaton`
+}
+
+/**
+ * @category instances
+ * @since 0.1.0
+ */
+export const showAutomatonError: Show<AutomatonError> = {
+  show: (error) => (error._tag === 'Unsupported' ? showUnsupported.show(error) : E.showExpressionError.show(error))
+}
+
+/**
+ * Expression builders are equal if they match the same strings. An expression which is
+ * not supported is only equal to one which compiles into the same regular expression, and
+ * an invalid expression is only equal to one which is invalid for the same reason.
+ *
+ * @category instances
+ * @since 0.1.0
+ */
+export const eqExpressionBuilder: Eq<E.ExpressionBuilder> = {
+  equals: (x, y) =>
+    pipe(
+      isEquivalent(x, y),
+      Ei.fold(
+        () => eqCompiled.equals(compiled(x), compiled(y)),
+        (v) => v._tag === 'Holds'
+      )
+    )
+}
+
+/**
+ * @category instances
+ * @since 0.1.0
+ */
+export const eqExpression: Eq<E.Expression> = pipe(eqExpressionBuilder, contramap(E.fromExpression))
+
+// -------------------------------------------------------------------------------------
+// utils
+// -------------------------------------------------------------------------------------
+
+const compiled: (builder: E.ExpressionBuilder) => Ei.Either<string, string> = (builder) =>
+  pipe(E.toRegexEither(builder), Ei.bimap(E.showExpressionError.show, String))
+
+const eqCompiled: Eq<Ei.Either<string, string>> = Ei.getEq(eqString, eqString)
+
+// Sorted and disjoint ranges of code points, or of code units
+type CharSet = ReadonlyArray<readonly [number, number]>
+
+interface Edge {
+  readonly set: CharSet
+  readonly to: number
+}
+
+// A transition which consumes no input, and which may only be taken at the start or at the
+// end of the input
+interface Epsilon {
+  readonly when: 'always' | 'start' | 'end'
+  readonly to: number
+}
+
+interface Nfa {
+  readonly edges: ReadonlyArray<ReadonlyArray<Edge>>
+  readonly epsilons: ReadonlyArray<ReadonlyArray<Epsilon>>
+  readonly accept: number
+}
+
+const isUnsupported: (flags: E.Flags) => (ast: AST.Ast) => boolean = (flags) => (ast) => {
+  switch (ast._tag) {
+    case 'Backreference':
+    case 'Lookaround':
+      return true
+    case 'Anchor':
+      return ast.anchor === 'wordBoundary' || ast.anchor === 'nonWordBoundary' || flags.lineByLine
+    default:
+      return false
+  }
+}
+
+const classFlags: (flags: E.Flags) => string = (flags) =>
+  `${flags.caseInsensitive ? 'i' : ''}${flags.singleLine ? 's' : ''}${
+    flags.unicodeSets ? 'v' : flags.unicode ? 'u' : ''
+  }`
+
+// The characters which are matched by a node are found by the regular expression engine,
+// as case folding and Unicode properties are left to it. The code points are bisected into
+// the ranges which the node matches entirely or not at all, so that the number of tests
+// depends on the number of ranges rather than on the number of code points.
+interface Context {
+  // The sets which are found during one comparison
+  readonly sets: Map<string, CharSet>
+  // Every code point in order, which is only built once it is needed
+  readonly codePoints: () => string
+}
+
+const makeContext: () => Context = () => {
+  let codePoints: string | undefined
+  return {
+    sets: new Map(),
+    codePoints: () => {
+      if (codePoints === undefined) {
+        const chunks: Array<string> = []
+        for (let c = 0; c <= 0x10ffff; c += 0x1000) {
+          chunks.push(String.fromCodePoint(...A.range(c, c + 0xfff)))
+        }
+        codePoints = chunks.join('')
+      }
+      return codePoints
+    }
+  }
+}
+
+// The index of a code point within the string of every code point
+const offset: (c: number) => number = (c) => (c <= 0xffff ? c : 0x10000 + 2 * (c - 0x10000))
+
+const join: (x: CharSet, y: CharSet) => CharSet = (x, y) =>
+  x.length > 0 && y.length > 0 && x[x.length - 1][1] + 1 === y[0][0]
+    ? [...x.slice(0, -1), [x[x.length - 1][0], y[0][1]], ...y.slice(1)]
+    : [...x, ...y]
+
+const charSet: (context: Context, flags: E.Flags, node: AST.Ast) => CharSet = (context, flags, node) => {
+  const unicode = flags.unicode || flags.unicodeSets
+  const source = unicode ? AST.renderUnicode(node) : AST.render(node)
+  const key = `${source}/${classFlags(flags)}`
+  const cached = context.sets.get(key)
+  if (cached !== undefined) {
+    return cached
+  }
+  const member = new RegExp(source, classFlags(flags))
+  const nonMember = new RegExp(`(?!${source})[\\s\\S]`, classFlags(flags))
+  const codePoints = context.codePoints()
+  const go = (from: number, to: number): CharSet => {
+    const block = codePoints.slice(offset(from), offset(to + 1))
+    if (!member.test(block)) {
+      return []
+    }
+    if (!nonMember.test(block)) {
+      return [[from, to]]
+    }
+    const middle = Math.floor((from + to) / 2)
+    return join(go(from, middle), go(middle + 1, to))
+  }
+  // With the `unicode` flag, the last high surrogate would be paired with the first low
+  // surrogate
+  const set = unicode ? join(go(0, 0xdbff), go(0xdc00, 0x10ffff)) : go(0, 0xffff)
+  context.sets.set(key, set)
+  return set
+}
+
+const surrogates: (c: number) => readonly [number, number] = (c) => [
+  0xd800 + Math.floor((c - 0x10000) / 0x400),
+  0xdc00 + ((c - 0x10000) % 0x400)
+]
+
+const subtract: (set: CharSet, [from, to]: readonly [number, number]) => CharSet = (set, [from, to]) =>
+  A.chain(
+    ([lo, hi]: readonly [number, number]): CharSet =>
+      hi < from || lo > to
+        ? [[lo, hi]]
+        : [...(lo < from ? [[lo, from - 1] as const] : []), ...(hi > to ? [[to + 1, hi] as const] : [])]
+  )(set)
+
+// An invalid expression is reported before it is compiled
+const compile: (context: Context, builder: E.ExpressionBuilder) => Ei.Either<AutomatonError, Nfa> = (
+  context,
+  builder
+) =>
+  pipe(
+    E.validate(builder),
+    Ei.chainW((valid) => toNfa(context, valid))
+  )
+
+const toNfa: (context: Context, builder: E.ExpressionBuilder) => Ei.Either<Unsupported, Nfa> = (context, builder) => {
+  const { flags } = builder(E.monoidExpression.empty)
+  const unicode = flags.unicode || flags.unicodeSets
+  const ast = E.toAst(builder)
+  const edges: Array<Array<Edge>> = []
+  const epsilons: Array<Array<Epsilon>> = []
+  const state = () => {
+    edges.push([])
+    epsilons.push([])
+    return edges.length - 1
+  }
+  const epsilon = (from: number, to: number, when: Epsilon['when'] = 'always') => {
+    epsilons[from].push({ when, to })
+  }
+  const pair = (from: number, to: number, high: readonly [number, number], low: readonly [number, number]) => {
+    const middle = state()
+    edges[from].push({ set: [high], to: middle })
+    edges[middle].push({ set: [low], to })
+  }
+  // The high surrogates which are matched on their own with the `unicode` flag
+  const lone: Array<readonly [number, Edge]> = []
+  // A code point beyond the Basic Multilingual Plane is matched as a surrogate pair
+  const characters = (from: number, to: number, set: CharSet) => {
+    const units = set.filter(([lo]) => lo <= 0xffff).map(([lo, hi]) => [lo, Math.min(hi, 0xffff)] as const)
+    const bmp = unicode ? subtract(units, [0xd800, 0xdbff]) : units
+    if (bmp.length > 0) {
+      edges[from].push({ set: bmp, to })
+    }
+    const high = subtract(subtract(units, [0, 0xd7ff]), [0xdc00, 0xffff])
+    if (unicode && high.length > 0) {
+      lone.push([from, { set: high, to }])
+    }
+    set
+      .filter(([, hi]) => hi > 0xffff)
+      .forEach(([lo, hi]) => {
+        const [highLo, lowLo] = surrogates(Math.max(lo, 0x10000))
+        const [highHi, lowHi] = surrogates(hi)
+        if (highLo === highHi) {
+          pair(from, to, [highLo, highLo], [lowLo, lowHi])
+        } else {
+          pair(from, to, [highLo, highLo], [lowLo, 0xdfff])
+          if (highHi - highLo > 1) {
+            pair(from, to, [highLo + 1, highHi - 1], [0xdc00, 0xdfff])
+          }
+          pair(from, to, [highHi, highHi], [0xdc00, lowHi])
+        }
+      })
+  }
+  // Links `n` parts one after the other, each of which is added by `f` between two states
+  const chain = (from: number, to: number, n: number, f: (from: number, to: number, i: number) => void) => {
+    if (n === 0) {
+      epsilon(from, to)
+    }
+    for (let i = 0, current = from; i < n; i += 1) {
+      const next = i === n - 1 ? to : state()
+      f(current, next, i)
+      current = next
+    }
+  }
+  const go = (from: number, to: number, node: AST.Ast): void => {
+    switch (node._tag) {
+      case 'Sequence':
+        chain(from, to, node.nodes.length, (x, y, i) => go(x, y, node.nodes[i]))
+        return
+      case 'Alternation':
+        node.alternatives.forEach((alternative) => go(from, to, alternative))
+        return
+      case 'Literal': {
+        const units = unicode ? Array.from(node.value) : node.value.split('')
+        chain(from, to, units.length, (x, y, i) => {
+          const c = units[i].codePointAt(0) as number
+          characters(x, y, flags.caseInsensitive ? charSet(context, flags, AST.literal(units[i])) : [[c, c]])
+        })
+        return
+      }
+      case 'CharacterClass':
+      case 'CharacterType':
+        characters(from, to, charSet(context, flags, node))
+        return
+      case 'Group':
+      case 'Capture':
+        go(from, to, node.node)
+        return
+      case 'Quantifier': {
+        const rest = state()
+        chain(from, rest, node.min, (x, y) => go(x, y, node.node))
+        if (node.max === Infinity) {
+          const body = state()
+          go(rest, body, node.node)
+          epsilon(body, rest)
+          epsilon(rest, to)
+          return
+        }
+        // Each of the optional repetitions may end the quantifier
+        let current = rest
+        for (let i = node.min; i < node.max; i += 1) {
+          const next = state()
+          epsilon(current, to)
+          go(current, next, node.node)
+          current = next
+        }
+        epsilon(current, to)
+        return
+      }
+      default:
+        epsilon(from, to, (node as AST.Anchor).anchor === 'start' ? 'start' : 'end')
+    }
+  }
+  return pipe(
+    ast,
+    AST.reduce<O.Option<AST.Ast>>(O.none, (found, node) =>
+      O.isSome(found) || !isUnsupported(flags)(node) ? found : O.some(node)
+    ),
+    O.fold(
+      () => {
+        const start = state()
+        const accept = state()
+        go(start, accept, ast)
+        return Ei.right(withLoneSurrogates({ edges, epsilons, accept }, lone))
+      },
+      (node) => Ei.left({ _tag: 'Unsupported', node })
+    )
+  )
+}
+
+// A high surrogate is only matched on its own if no low surrogate follows it, and a low
+// surrogate is only matched on its own if no high surrogate precedes it, which is then
+// ensured too. The states which follow a lone high surrogate are copied, and the copies
+// match no low surrogate next.
+const withLoneSurrogates = (nfa: Nfa, lone: ReadonlyArray<readonly [number, Edge]>): Nfa => {
+  if (lone.length === 0) {
+    return nfa
+  }
+  const n = nfa.edges.length
+  const fromLone = (s: number): ReadonlyArray<Edge> =>
+    lone.filter(([from]) => from === s).map(([, { set, to }]) => ({ set, to: to + n }))
+  return {
+    edges: [
+      ...nfa.edges.map((edges, s) => [...edges, ...fromLone(s)]),
+      ...nfa.edges.map((edges, s) => [
+        ...edges
+          .map(({ set, to }) => ({ set: subtract(set, [0xdc00, 0xdfff]), to }))
+          .filter(({ set }) => set.length > 0),
+        ...fromLone(s)
+      ])
+    ],
+    epsilons: [
+      ...nfa.epsilons,
+      ...nfa.epsilons.map((epsilons, s) => [
+        ...epsilons.map(({ when, to }) => ({ when, to: to + n })),
+        ...(s === nfa.accept ? [{ when: 'always' as const, to: nfa.accept }] : [])
+      ])
+    ],
+    accept: nfa.accept
+  }
+}
+
+// A deterministic state is a set of states of the automaton, which is closed over the
+// transitions which consume no input
+const closure = (nfa: Nfa, states: ReadonlyArray<number>, atStart: boolean, atEnd: boolean): ReadonlyArray<number> => {
+  const seen = new Set(states)
+  const stack = [...states]
+  while (stack.length > 0) {
+    nfa.epsilons[stack.pop() as number].forEach(({ when, to }) => {
+      if (!seen.has(to) && (when === 'always' || (when === 'start' ? atStart : atEnd))) {
+        seen.add(to)
+        stack.push(to)
+      }
+    })
+  }
+  return Array.from(seen).sort((x, y) => x - y)
+}
+
+// Both expressions are compiled with the same context, which is discarded once they are
+// compared
+const product: (a: E.ExpressionBuilder, b: E.ExpressionBuilder) => Ei.Either<AutomatonError, readonly [Nfa, Nfa]> = (
+  a,
+  b
+) => {
+  const c = makeContext()
+  return pipe(
+    compile(c, a),
+    Ei.chain((x) =>
+      pipe(
+        compile(c, b),
+        Ei.map((y) => [x, y] as const)
+      )
+    )
+  )
+}
+
+// The characters which are preferred in a counterexample
+const preferred: CharSet = [
+  [0x61, 0x7a],
+  [0x41, 0x5a],
+  [0x30, 0x39],
+  [0x20, 0x7e]
+]
+
+const representative: (from: number, to: number) => number = (from, to) =>
+  pipe(
+    preferred,
+    A.findFirst(([lo, hi]) => lo <= to && hi >= from),
+    O.fold(
+      () => from,
+      ([lo]) => Math.max(lo, from)
+    )
+  )
+
+interface Node {
+  readonly states: readonly [ReadonlyArray<number>, ReadonlyArray<number>]
+  readonly parent: O.Option<readonly [Node, number]>
+}
+
+// Searches the product of both automata, breadth first, for the shortest string whose
+// acceptance by each automaton satisfies the predicate
+const search = ([a, b]: readonly [Nfa, Nfa], predicate: (x: boolean, y: boolean) => boolean): O.Option<string> => {
+  // The code units are divided into the largest ranges on which every transition agrees
+  const bounds = pipe(
+    [a, b],
+    A.chain((nfa) => A.flatten(nfa.edges)),
+    A.chain(({ set }) => A.chain(([lo, hi]: readonly [number, number]) => [lo, hi + 1])(set)),
+    (xs) => Array.from(new Set(xs)).sort((x, y) => x - y)
+  )
+  const atoms = new Map(bounds.map((bound, i) => [bound, i]))
+  const step = (nfa: Nfa, states: ReadonlyArray<number>) => {
+    const targets = new Map<number, Array<number>>()
+    states.forEach((s) =>
+      nfa.edges[s].forEach(({ set, to }) =>
+        set.forEach(([lo, hi]) => {
+          for (let i = atoms.get(lo) as number; i < (atoms.get(hi + 1) as number); i += 1) {
+            targets.set(i, [...(targets.get(i) ?? []), to])
+          }
+        })
+      )
+    )
+    return targets
+  }
+  const accepts = (nfa: Nfa, states: ReadonlyArray<number>, atStart: boolean) =>
+    closure(nfa, states, atStart, true).includes(nfa.accept)
+  const text = (node: Node): string =>
+    pipe(
+      node.parent,
+      O.fold(
+        () => '',
+        ([parent, atom]) => `${text(parent)}${String.fromCharCode(representative(bounds[atom], bounds[atom + 1] - 1))}`
+      )
+    )
+  const root: Node = { states: [closure(a, [0], true, false), closure(b, [0], true, false)], parent: O.none }
+  const seen = new Set<string>()
+  const queue = [root]
+  for (let i = 0; i < queue.length; i += 1) {
+    const node = queue[i]
+    const [x, y] = node.states
+    if (predicate(accepts(a, x, node === root), accepts(b, y, node === root))) {
+      return O.some(text(node))
+    }
+    const [tx, ty] = [step(a, x), step(b, y)]
+    Array.from(new Set([...Array.from(tx.keys()), ...Array.from(ty.keys())]))
+      .sort((m, n) => m - n)
+      .forEach((atom) => {
+        const states = [
+          closure(a, tx.get(atom) ?? [], false, false),
+          closure(b, ty.get(atom) ?? [], false, false)
+        ] as const
+        const key = `${states[0].join()}|${states[1].join()}`
+        if (!seen.has(key)) {
+          seen.add(key)
+          queue.push({ states, parent: O.some([node, atom]) })
+        }
+      })
+  }
+  return O.none
+}
+
+const verdict = (
+  a: E.ExpressionBuilder,
+  b: E.ExpressionBuilder,
+  predicate: (x: boolean, y: boolean) => boolean
+): Ei.Either<AutomatonError, Verdict> =>
+  pipe(
+    product(a, b),
+    Ei.map((nfas) =>
+      pipe(
+        search(nfas, predicate),
+        O.fold(
+          (): Verdict => ({ _tag: 'Holds' }),
+          (counterexample) => ({ _tag: 'Fails', counterexample })
+        )
+      )
+    )
+  )
@@ -0,0 +1,319 @@
+/**
+ * Static analysis of the backtracking behaviour of an expression.
+ *
+ * A backtracking regular expression engine may take time which is exponential, or a large
+ * polynomial, in the length of the input when the same text can be matched by an
+ * expression in many different ways. The analysis finds the combinations of quantifiers
+ * which are known to cause this, such as a quantifier which repeats a sub-expression that
+ * is itself quantified.
+ *
+ * The analysis is an estimate: whether two sub-expressions can match the same text is
+ * approximated by the characters with which they can begin.
+ *
+ * @example
+ * import { pipe } from 'fp-ts/lib/function'
+ * import * as E from 'expressive-ts/lib/Expression'
+ * import * as B from 'expressive-ts/lib/Backtracking'
+ *
+ * const expression = pipe(E.compile, E.many1(pipe(E.compile, E.something, E.maybe(','))), E.string('!'))
+ *
+ * assert.deepStrictEqual(
+ *   B.analyze(expression).map(B.showIssue.show),
+ *   ["Nested quantifier in '(?:(?:.+)(?:,)?)+': `many1` repeats `something` in '.+' (exponential)"]
+ * )
+ *
+ * @since 0.1.0
+ */
+import * as O from 'fp-ts/lib/Option'
+import * as A from 'fp-ts/lib/ReadonlyArray'
+import { pipe } from 'fp-ts/lib/function'
+import { Show } from 'fp-ts/lib/Show'
+
+import * as AST from './Ast'
+import * as CC from './CharClass'
+import * as E from './Expression'
+
+// -------------------------------------------------------------------------------------
+// models
+// -------------------------------------------------------------------------------------
+
+/**
+ * The estimated time which matching may take, in the length of the input.
+ *
+ * @category models
+ * @since 0.1.0
+ */
+export type Severity = 'polynomial' | 'exponential'
+
+/**
+ * @category models
+ * @since 0.1.0
+ */
+export type Issue = NestedQuantifier | OverlappingAlternation | OverlappingQuantifiers
+
+/**
+ * A quantifier which repeats a sub-expression that is itself quantified, such as
+ * `(?:a+)+`.
+ *
+ * @category models
+ * @since 0.1.0
+ */
+export interface NestedQuantifier {
+  readonly _tag: 'NestedQuantifier'
+  readonly severity: Severity
+  readonly outer: AST.Quantifier
+  readonly inner: AST.Quantifier
+}
+
+/**
+ * A quantifier which repeats alternatives that can match the same text, such as
+ * `(?:\w|\d)+`.
+ *
+ * @category models
+ * @since 0.1.0
+ */
+export interface OverlappingAlternation {
+  readonly _tag: 'OverlappingAlternation'
+  readonly severity: Severity
+  readonly quantifier: AST.Quantifier
+  readonly alternatives: readonly [AST.Ast, AST.Ast]
+}
+
+/**
+ * Unbounded quantifiers in sequence which can match the same text, such as `\d+\d+`.
+ *
+ * @category models
+ * @since 0.1.0
+ */
+export interface OverlappingQuantifiers {
+  readonly _tag: 'OverlappingQuantifiers'
+  readonly severity: Severity
+  readonly first: AST.Quantifier
+  readonly second: AST.Quantifier
+}
+
+// -------------------------------------------------------------------------------------
+// destructors
+// -------------------------------------------------------------------------------------
+
+/**
+ * Returns the issues found in the expression, which is empty if the expression is not
+ * known to backtrack excessively.
+ *
+ * @category destructors
+ * @since 0.1.0
+ */
+export const analyze: (builder: E.ExpressionBuilder) => ReadonlyArray<Issue> = (builder) => {
+  const { flags } = builder(E.monoidExpression.empty)
+  const overlaps = overlapsWith(flags)
+  return AST.reduce<ReadonlyArray<Issue>>([], (issues, ast) => {
+    switch (ast._tag) {
+      case 'Quantifier':
+        return ast.max > 1 ? [...issues, ...repetitionIssues(overlaps, ast)] : issues
+      case 'Sequence':
+        return [...issues, ...sequenceIssues(overlaps, ast.nodes)]
+      default:
+        return issues
+    }
+  })(E.toAst(builder))
+}
+
+// -------------------------------------------------------------------------------------
+// instances
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category instances
+ * @since 0.1.0
+ */
+export const showIssue: Show<Issue> = {
+  show: (issue) => {
+    switch (issue._tag) {
+      case 'NestedQuantifier':
+        return `Nested quantifier in ${pattern(issue.outer)}: ${combinator(issue.outer)} repeats ${combinator(
+          issue.inner
+        )} in ${pattern(issue.inner)} (${issue.severity})`
+      case 'OverlappingAlternation':
+        return `Overlapping alternatives in ${pattern(issue.quantifier)}: ${pattern(
+          issue.alternatives[0]
+        )} and ${pattern(issue.alternatives[1])} can match the same text, and are repeated by ${combinator(
+          issue.quantifier
+        )} (${issue.severity})`
+      default:
+        return `Overlapping quantifiers: ${combinator(issue.first)} in ${pattern(issue.first)} and ${combinator(
+          issue.second
+        )} in ${pattern(issue.second)} can match the same text (${issue.severity})`
+    }
+  }
+}
+
+// -------------------------------------------------------------------------------------
+// utils
+// -------------------------------------------------------------------------------------
+
+const pattern: (ast: AST.Ast) => string = (ast) => `'${AST.render(ast)}'`
+
+// The combinator which constructed the quantifier or, if it was written as part of a
+// pattern, its syntax
+const combinator: (quantifier: AST.Quantifier) => string = (quantifier) =>
+  pipe(
+    quantifier.combinator,
+    O.fold(
+      () => pattern({ ...quantifier, node: AST.empty }),
+      (name) => `\`${name}\``
+    )
+  )
+
+interface First {
+  // The characters with which the node can begin
+  readonly members: ReadonlyArray<AST.ClassMember>
+  // Whether the node can match the empty string
+  readonly nullable: boolean
+}
+
+const nullable: First = { members: [], nullable: true }
+
+const anyCharacter: ReadonlyArray<AST.ClassMember> = [
+  AST.classCharacterType('whitespace', false),
+  AST.classCharacterType('whitespace', true)
+]
+
+const firstOfSequence = (nodes: ReadonlyArray<AST.Ast>): First =>
+  nodes.reduce((acc, node) => {
+    if (!acc.nullable) {
+      return acc
+    }
+    const f = first(node)
+    return { members: [...acc.members, ...f.members], nullable: f.nullable }
+  }, nullable)
+
+const first = (ast: AST.Ast): First => {
+  switch (ast._tag) {
+    case 'Sequence':
+      return firstOfSequence(ast.nodes)
+    case 'Alternation': {
+      const alternatives = ast.alternatives.map(first)
+      return {
+        members: A.chain((f: First) => f.members)(alternatives),
+        nullable: alternatives.some((f) => f.nullable)
+      }
+    }
+    case 'Literal':
+      return ast.value === '' ? nullable : { members: [AST.classCharacters(Array.from(ast.value)[0])], nullable: false }
+    case 'CharacterClass':
+      return { members: [AST.classNested(ast)], nullable: false }
+    case 'CharacterType':
+      return {
+        members: ast.type === 'any' ? anyCharacter : [AST.classCharacterType(ast.type, false)],
+        nullable: false
+      }
+    case 'Group':
+    case 'Capture':
+      return first(ast.node)
+    case 'Quantifier': {
+      const f = first(ast.node)
+      return { members: ast.max === 0 ? [] : f.members, nullable: ast.min === 0 || f.nullable }
+    }
+    // The text matched by a backreference is not known, so it is assumed not to overlap
+    default:
+      return nullable
+  }
+}
+
+// Characters which are tested for membership in both of two classes, in addition to those
+// which are mentioned by either class
+const representatives: ReadonlyArray<string> = [
+  'a',
+  'Z',
+  '0',
+  '_',
+  ' ',
+  '\t',
+  '\n',
+  '-',
+  '.',
+  '!',
+  'é',
+  'Ω',
+  '\u{1F600}'
+]
+
+type Overlaps = (x: ReadonlyArray<AST.ClassMember>, y: ReadonlyArray<AST.ClassMember>) => boolean
+
+// The members are tested one at a time, so that only the `unicodeSets` flag of the
+// expression requires the runtime to support the `v` flag
+const overlapsWith: (flags: E.Flags) => Overlaps = (flags) => (x, y) => {
+  const regexFlags = `${flags.caseInsensitive ? 'i' : ''}${flags.unicodeSets ? 'v' : 'u'}`
+  const toTest = (members: ReadonlyArray<AST.ClassMember>) => {
+    const regexes = members.map(
+      (member) =>
+        new RegExp(
+          `^${AST.renderUnicode(member._tag === 'ClassNested' ? member.node : AST.characterClass(false, [member]))}$`,
+          regexFlags
+        )
+    )
+    return (c: string) => regexes.some((regex) => regex.test(c))
+  }
+  const [tx, ty] = [toTest(x), toTest(y)]
+  return [
+    ...representatives,
+    ...CC.characters(AST.characterClass(false, x)),
+    ...CC.characters(AST.characterClass(false, y))
+  ].some((c) => tx(c) && ty(c))
+}
+
+// The nodes of the body of a quantifier which are repeated along with it, in that every
+// other node of the body can match the empty string
+const exposed = (ast: AST.Ast): ReadonlyArray<AST.Ast> => {
+  switch (ast._tag) {
+    case 'Sequence':
+      return A.chain((i: number) =>
+        ast.nodes.every((node, j) => i === j || first(node).nullable) ? exposed(ast.nodes[i]) : []
+      )(ast.nodes.map((_, i) => i))
+    case 'Group':
+    case 'Capture':
+      return exposed(ast.node)
+    case 'Alternation':
+      return [ast, ...A.chain(exposed)(ast.alternatives)]
+    default:
+      return [ast]
+  }
+}
+
+const pairs = <A>(as: ReadonlyArray<A>): ReadonlyArray<readonly [A, A]> =>
+  A.chain((i: number) => as.slice(i + 1).map((a): readonly [A, A] => [as[i], a]))(as.map((_, i) => i))
+
+const repetitionIssues = (overlaps: Overlaps, quantifier: AST.Quantifier): ReadonlyArray<Issue> => {
+  const severity: Severity = quantifier.max === Infinity ? 'exponential' : 'polynomial'
+  return A.chain(
+    (node: AST.Ast): ReadonlyArray<Issue> => {
+      switch (node._tag) {
+        case 'Quantifier':
+          return node.max > 1 && node.max > node.min
+            ? [{ _tag: 'NestedQuantifier', severity, outer: quantifier, inner: node }]
+            : []
+        case 'Alternation':
+          return pairs(node.alternatives)
+            .filter(([x, y]) => overlaps(first(x).members, first(y).members))
+            .map((alternatives) => ({ _tag: 'OverlappingAlternation', severity, quantifier, alternatives }))
+        default:
+          return []
+      }
+    }
+  )(exposed(quantifier.node))
+}
+
+const sequenceIssues = (overlaps: Overlaps, nodes: ReadonlyArray<AST.Ast>): ReadonlyArray<Issue> =>
+  pipe(
+    nodes,
+    A.filterMapWithIndex((i, node) =>
+      node._tag === 'Quantifier' && node.max === Infinity ? O.some([node, i] as const) : O.none
+    ),
+    pairs,
+    A.filter(
+      ([[x, i], [y, j]]) =>
+        nodes.slice(i + 1, j).every((node) => first(node).nullable) &&
+        overlaps(first(x.node).members, first(y.node).members)
+    ),
+    A.map(([[x], [y]]): Issue => ({ _tag: 'OverlappingQuantifiers', severity: 'polynomial', first: x, second: y }))
+  )
@@ -0,0 +1,201 @@
+/**
+ * Character classes which may be combined with one another before they are added to an
+ * expression with `charClass`.
+ *
+ * Unicode properties require either the `unicode` or the `unicodeSets` flag, while the
+ * union of a negated class, intersection and subtraction require the `unicodeSets` flag.
+ *
+ * @example
+ * import { pipe } from 'fp-ts/lib/function'
+ * import * as CC from 'expressive-ts/lib/CharClass'
+ * import * as E from 'expressive-ts/lib/Expression'
+ *
+ * const consonant = pipe(CC.range('a', 'z'), CC.subtract(CC.chars('aeiou')))
+ *
+ * const expression = pipe(E.compile, E.charClass(consonant), E.oneOrMore, E.unicodeSets)
+ *
+ * assert.strictEqual(pipe(expression, E.toRegexString), '/[[a-z]--[aeiou]]+/v')
+ *
+ * @since 0.1.0
+ */
+import * as M from 'fp-ts/lib/Monoid'
+import * as O from 'fp-ts/lib/Option'
+import * as A from 'fp-ts/lib/ReadonlyArray'
+
+import * as AST from './Ast'
+
+// -------------------------------------------------------------------------------------
+// models
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category models
+ * @since 0.1.0
+ */
+export type CharClass = AST.CharacterClass
+
+// -------------------------------------------------------------------------------------
+// constructors
+// -------------------------------------------------------------------------------------
+
+/**
+ * A class which has no members, and so matches nothing.
+ *
+ * @category constructors
+ * @since 0.1.0
+ */
+export const empty: CharClass = AST.characterClass(false, [])
+
+/**
+ * @category constructors
+ * @since 0.1.0
+ */
+export const chars: (value: string) => CharClass = (value) => AST.characterClass(false, [AST.classCharacters(value)])
+
+/**
+ * @category constructors
+ * @since 0.1.0
+ */
+export const range: (from: string, to: string) => CharClass = (from, to) =>
+  AST.characterClass(false, [AST.classRange(from, to)])
+
+/**
+ * @category constructors
+ * @since 0.1.0
+ */
+export const digit: CharClass = AST.characterClass(false, [AST.classCharacterType('digit', false)])
+
+/**
+ * @category constructors
+ * @since 0.1.0
+ */
+export const word: CharClass = AST.characterClass(false, [AST.classCharacterType('word', false)])
+
+/**
+ * @category constructors
+ * @since 0.1.0
+ */
+export const whitespace: CharClass = AST.characterClass(false, [AST.classCharacterType('whitespace', false)])
+
+/**
+ * Every character with the specified Unicode property (such as `Letter`) or, if a value
+ * is specified, whose property has that value (such as `Script=Greek`).
+ *
+ * @category constructors
+ * @since 0.1.0
+ */
+export const property: (name: string, value?: string) => CharClass = (name, value) =>
+  AST.characterClass(false, [AST.classProperty(name, O.fromNullable(value), false)])
+
+// -------------------------------------------------------------------------------------
+// combinators
+// -------------------------------------------------------------------------------------
+
+/**
+ * Every character which is not a member of the class.
+ *
+ * @category combinators
+ * @since 0.1.0
+ */
+export const negate: (cc: CharClass) => CharClass = (cc) => {
+  const member = cc.members[0]
+  return !cc.negated &&
+    cc.members.length === 1 &&
+    (member._tag === 'ClassCharacterType' || member._tag === 'ClassProperty')
+    ? AST.characterClass(false, [{ ...member, negated: !member.negated }])
+    : AST.characterClass(!cc.negated, cc.members)
+}
+
+/**
+ * Every character which is a member of either class.
+ *
+ * @category combinators
+ * @since 0.1.0
+ */
+export const union: (that: CharClass) => (cc: CharClass) => CharClass = (that) => (cc) =>
+  isEmpty(cc) ? that : isEmpty(that) ? cc : AST.characterClass(false, [...toMembers(cc), ...toMembers(that)])
+
+/**
+ * Every character which is a member of both classes.
+ *
+ * @category combinators
+ * @since 0.1.0
+ */
+export const intersect: (that: CharClass) => (cc: CharClass) => CharClass = (that) => (cc) =>
+  AST.characterClass(false, [AST.classSetOperation('intersection', cc, that)])
+
+/**
+ * Every character which is a member of the class, but not of `that` class.
+ *
+ * @category combinators
+ * @since 0.1.0
+ */
+export const subtract: (that: CharClass) => (cc: CharClass) => CharClass = (that) => (cc) =>
+  AST.characterClass(false, [AST.classSetOperation('subtraction', cc, that)])
+
+// -------------------------------------------------------------------------------------
+// destructors
+// -------------------------------------------------------------------------------------
+
+/**
+ * Returns the characters which are mentioned by the class, including the bounds of each
+ * range. Whether each character is a member of the class depends on how it is mentioned.
+ *
+ * @example
+ * import { pipe } from 'fp-ts/lib/function'
+ * import * as CC from 'expressive-ts/lib/CharClass'
+ *
+ * assert.deepStrictEqual(CC.characters(pipe(CC.range('a', 'z'), CC.subtract(CC.chars('aeiou')))), [
+ *   'a',
+ *   'z',
+ *   'a',
+ *   'e',
+ *   'i',
+ *   'o',
+ *   'u'
+ * ])
+ *
+ * @category destructors
+ * @since 0.1.0
+ */
+export const characters: (cc: CharClass) => ReadonlyArray<string> = (cc) =>
+  A.chain(
+    (member: AST.ClassMember): ReadonlyArray<string> => {
+      switch (member._tag) {
+        case 'ClassCharacters':
+          return Array.from(member.value)
+        case 'ClassRange':
+          return [member.from, member.to]
+        case 'ClassNested':
+          return characters(member.node)
+        case 'ClassSetOperation':
+          return [...characters(member.left), ...characters(member.right)]
+        default:
+          return []
+      }
+    }
+  )(cc.members)
+
+// -------------------------------------------------------------------------------------
+// instances
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category instances
+ * @since 0.1.0
+ */
+export const monoidUnion: M.Monoid<CharClass> = {
+  concat: (x, y) => union(y)(x),
+  empty
+}
+
+// -------------------------------------------------------------------------------------
+// utils
+// -------------------------------------------------------------------------------------
+
+const isEmpty: (cc: CharClass) => boolean = (cc) => !cc.negated && cc.members.length === 0
+
+// The members of a negated class, or of a set operation, can only be added to another
+// class by nesting the class itself
+const toMembers: (cc: CharClass) => ReadonlyArray<AST.ClassMember> = (cc) =>
+  cc.negated || cc.members.some((member) => member._tag === 'ClassSetOperation') ? [AST.classNested(cc)] : cc.members
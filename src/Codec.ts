@@ -0,0 +1,264 @@
+/**
+ * A versioned JSON representation of expressions, for storing an expression and restoring
+ * it later.
+ *
+ * The representation holds the tokens and the flags of an expression, so that it is
+ * restored exactly as it was built. Decoding validates the structure of the input, and
+ * that the group and property names follow the grammar of a pattern, as they are rendered
+ * as they are; whether the expression compiles is determined by `validate`.
+ *
+ * @example
+ * import { pipe } from 'fp-ts/lib/function'
+ * import * as Ei from 'fp-ts/lib/Either'
+ * import * as C from 'expressive-ts/lib/Codec'
+ * import * as E from 'expressive-ts/lib/Expression'
+ *
+ * const expression = pipe(E.compile, E.startOfInput, E.string('foo'), E.maybe('bar'), E.caseInsensitive)
+ *
+ * const json = JSON.stringify(C.codec.encode(expression(E.monoidExpression.empty)))
+ *
+ * assert.deepStrictEqual(
+ *   pipe(C.codec.decode(JSON.parse(json)), Ei.map(E.fromExpression), Ei.map(E.toRegexString)),
+ *   Ei.right('/^(?:foo)(?:bar)?/i')
+ * )
+ *
+ * @since 0.1.0
+ */
+import { JsonRecord } from 'fp-ts/lib/Either'
+import * as O from 'fp-ts/lib/Option'
+import { pipe } from 'fp-ts/lib/function'
+import * as C from 'io-ts/lib/Codec'
+import * as D from 'io-ts/lib/Decoder'
+
+import * as AST from './Ast'
+import * as E from './Expression'
+import * as P from './Parser'
+
+// -------------------------------------------------------------------------------------
+// models
+// -------------------------------------------------------------------------------------
+
+/**
+ * The version of the JSON representation which is written by `codec`.
+ *
+ * @category models
+ * @since 0.1.0
+ */
+export const version = 1
+
+// -------------------------------------------------------------------------------------
+// instances
+// -------------------------------------------------------------------------------------
+
+/**
+ * Encodes an expression as JSON, and decodes untrusted input into an expression.
+ *
+ * @category instances
+ * @since 0.1.0
+ */
+export const codec: C.Codec<unknown, JsonRecord, E.Expression> = C.make<unknown, JsonRecord, E.Expression>(
+  D.lazy('Expression', () =>
+    pipe(
+      D.type({
+        version: D.literal(version),
+        tokens: D.array(token),
+        flags
+      }),
+      D.map(({ tokens, flags }) => ({ tokens, flags }))
+    )
+  ),
+  {
+    encode: (expression): JsonRecord => ({
+      version,
+      tokens: expression.tokens.map(encodeToken),
+      flags: { ...expression.flags }
+    })
+  }
+)
+
+// -------------------------------------------------------------------------------------
+// utils
+// -------------------------------------------------------------------------------------
+
+// An absent name or value is represented by `null`
+const optional = <A>(decoder: D.Decoder<unknown, A>): D.Decoder<unknown, O.Option<A>> =>
+  pipe(D.nullable(decoder), D.map(O.fromNullable))
+
+const optionalString: D.Decoder<unknown, O.Option<string>> = optional(D.string)
+
+// The names and numbers which are rendered into a pattern as they are must follow its grammar
+const groupName: D.Decoder<unknown, string> = pipe(
+  D.string,
+  D.refine((name): name is string => P.isGroupName(name), 'GroupName')
+)
+
+const groupNumber: D.Decoder<unknown, number> = pipe(
+  D.number,
+  D.refine((n): n is number => Number.isInteger(n) && n > 0, 'GroupNumber')
+)
+
+const propertyName: D.Decoder<unknown, string> = pipe(
+  D.string,
+  D.refine((name): name is string => /^\w+$/.test(name), 'PropertyName')
+)
+
+// An unbounded quantifier is represented by a maximum of `null`
+const bound: D.Decoder<unknown, number> = pipe(
+  D.nullable(D.number),
+  D.map((max) => (max === null ? Infinity : max))
+)
+
+const encodeBound: (max: number) => number | null = (max) => (max === Infinity ? null : max)
+
+const reference: D.Decoder<unknown, number | string> = D.union(D.number, D.string)
+
+const flags: D.Decoder<unknown, E.Flags> = D.type({
+  allowMultiple: D.boolean,
+  caseInsensitive: D.boolean,
+  lineByLine: D.boolean,
+  singleLine: D.boolean,
+  sticky: D.boolean,
+  unicode: D.boolean,
+  unicodeSets: D.boolean
+})
+
+const characterClass: D.Decoder<unknown, AST.CharacterClass> = D.lazy('CharacterClass', () =>
+  D.type({
+    _tag: D.literal('CharacterClass'),
+    negated: D.boolean,
+    members: D.array(classMember)
+  })
+)
+
+const classMember: D.Decoder<unknown, AST.ClassMember> = D.lazy('ClassMember', () =>
+  D.sum('_tag')({
+    ClassCharacters: D.type({ _tag: D.literal('ClassCharacters'), value: D.string }),
+    ClassRange: D.type({ _tag: D.literal('ClassRange'), from: D.string, to: D.string }),
+    ClassCharacterType: D.type({
+      _tag: D.literal('ClassCharacterType'),
+      type: D.literal('digit', 'word', 'whitespace'),
+      negated: D.boolean
+    }),
+    ClassProperty: D.type({
+      _tag: D.literal('ClassProperty'),
+      name: propertyName,
+      value: optional(propertyName),
+      negated: D.boolean
+    }),
+    ClassNested: D.type({ _tag: D.literal('ClassNested'), node: characterClass }),
+    ClassSetOperation: D.type({
+      _tag: D.literal('ClassSetOperation'),
+      operator: D.literal('intersection', 'subtraction'),
+      left: characterClass,
+      right: characterClass
+    })
+  })
+)
+
+const ast: D.Decoder<unknown, AST.Ast> = D.lazy('Ast', () =>
+  D.sum('_tag')({
+    Sequence: D.type({ _tag: D.literal('Sequence'), nodes: D.array(ast) }),
+    Alternation: D.type({ _tag: D.literal('Alternation'), alternatives: D.array(ast) }),
+    Literal: D.type({ _tag: D.literal('Literal'), value: D.string }),
+    CharacterClass: characterClass,
+    CharacterType: D.type({ _tag: D.literal('CharacterType'), type: D.literal('any', 'digit', 'word', 'whitespace') }),
+    Anchor: D.type({ _tag: D.literal('Anchor'), anchor: D.literal('start', 'end', 'wordBoundary', 'nonWordBoundary') }),
+    Group: D.type({ _tag: D.literal('Group'), node: ast }),
+    Capture: D.type({ _tag: D.literal('Capture'), name: optional(groupName), node: ast }),
+    Quantifier: D.type({
+      _tag: D.literal('Quantifier'),
+      node: ast,
+      min: D.number,
+      max: bound,
+      lazy: D.boolean,
+      combinator: optionalString
+    }),
+    Lookaround: D.type({
+      _tag: D.literal('Lookaround'),
+      direction: D.literal('ahead', 'behind'),
+      negated: D.boolean,
+      node: ast
+    }),
+    Backreference: D.type({ _tag: D.literal('Backreference'), group: D.union(groupNumber, groupName) })
+  })
+)
+
+const expressionError: D.Decoder<unknown, E.ExpressionError> = D.sum('_tag')({
+  UnterminatedGroup: D.type({ _tag: D.literal('UnterminatedGroup') }),
+  UnmatchedEndCapture: D.type({ _tag: D.literal('UnmatchedEndCapture') }),
+  NothingToRepeat: D.type({ _tag: D.literal('NothingToRepeat'), quantifier: D.string }),
+  InvalidQuantifier: D.type({ _tag: D.literal('InvalidQuantifier'), min: D.number, max: bound }),
+  InvalidRange: D.type({ _tag: D.literal('InvalidRange'), from: D.string, to: D.string }),
+  DuplicateGroupName: D.type({ _tag: D.literal('DuplicateGroupName'), name: D.string }),
+  InvalidGroupName: D.type({ _tag: D.literal('InvalidGroupName'), name: D.string }),
+  InvalidBackreference: D.type({ _tag: D.literal('InvalidBackreference'), reference }),
+  MissingFlag: D.type({ _tag: D.literal('MissingFlag'), flag: D.literal('unicode', 'unicodeSets') }),
+  InvalidPattern: D.type({ _tag: D.literal('InvalidPattern'), pattern: D.string, message: D.string })
+})
+
+const token: D.Decoder<unknown, E.Token> = D.sum('_tag')({
+  Term: D.type({ _tag: D.literal('Term'), ast }),
+  BeginCapture: D.type({ _tag: D.literal('BeginCapture') }),
+  EndCapture: D.type({ _tag: D.literal('EndCapture') }),
+  Alternate: D.type({ _tag: D.literal('Alternate') }),
+  Or: D.type({ _tag: D.literal('Or') }),
+  Quantify: D.type({ _tag: D.literal('Quantify'), combinator: D.string, min: D.number, max: bound, lazy: D.boolean }),
+  Invalid: D.type({ _tag: D.literal('Invalid'), error: expressionError })
+})
+
+const encodeClass = (node: AST.CharacterClass): JsonRecord => ({ ...node, members: node.members.map(encodeMember) })
+
+const encodeMember = (member: AST.ClassMember): JsonRecord => {
+  switch (member._tag) {
+    case 'ClassProperty':
+      return { ...member, value: O.toNullable(member.value) }
+    case 'ClassNested':
+      return { ...member, node: encodeClass(member.node) }
+    case 'ClassSetOperation':
+      return { ...member, left: encodeClass(member.left), right: encodeClass(member.right) }
+    default:
+      return { ...member }
+  }
+}
+
+const encodeAst = (node: AST.Ast): JsonRecord => {
+  switch (node._tag) {
+    case 'Sequence':
+      return { ...node, nodes: node.nodes.map(encodeAst) }
+    case 'Alternation':
+      return { ...node, alternatives: node.alternatives.map(encodeAst) }
+    case 'CharacterClass':
+      return encodeClass(node)
+    case 'Capture':
+      return { ...node, name: O.toNullable(node.name), node: encodeAst(node.node) }
+    case 'Quantifier':
+      return {
+        ...node,
+        node: encodeAst(node.node),
+        max: encodeBound(node.max),
+        combinator: O.toNullable(node.combinator)
+      }
+    case 'Group':
+    case 'Lookaround':
+      return { ...node, node: encodeAst(node.node) }
+    default:
+      return { ...node }
+  }
+}
+
+// The errors held by tokens are not located
+const encodeError = ({ index, ...error }: E.ExpressionError): JsonRecord =>
+  error._tag === 'InvalidQuantifier' ? { ...error, max: encodeBound(error.max) } : { ...error }
+
+const encodeToken = (t: E.Token): JsonRecord => {
+  switch (t._tag) {
+    case 'Term':
+      return { ...t, ast: encodeAst(t.ast) }
+    case 'Quantify':
+      return { ...t, max: encodeBound(t.max) }
+    case 'Invalid':
+      return { ...t, error: encodeError(t.error) }
+    default:
+      return { ...t }
+  }
+}
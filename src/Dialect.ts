@@ -0,0 +1,694 @@
+/**
+ * Translating an expression into the syntax of another regular expression engine.
+ *
+ * The flags of the expression are written as inline modifiers, such as `(?i)`, at the
+ * start of the pattern. The `allowMultiple` and `sticky` flags describe how a regular
+ * expression is applied, rather than what it matches, and are left to the caller.
+ *
+ * POSIX extended regular expressions have no non-capturing groups, so a group is only
+ * written where it is needed, as a capturing group.
+ *
+ * Any character but a line terminator, `.` without the `singleLine` flag, is written as a
+ * class which excludes each line terminator of JavaScript. The character types and word
+ * boundaries of Python are Unicode-aware, so they are written with the ASCII characters
+ * which they match in JavaScript. Conversely, the whitespace of PCRE and RE2 is only ASCII,
+ * so it is written with the Unicode spaces which it matches in JavaScript.
+ *
+ * @example
+ * import { pipe } from 'fp-ts/lib/function'
+ * import * as Ei from 'fp-ts/lib/Either'
+ * import * as D from 'expressive-ts/lib/Dialect'
+ * import * as E from 'expressive-ts/lib/Expression'
+ *
+ * // A word which is repeated
+ * const word = pipe(E.compile, E.word)
+ * const expression = pipe(E.compile, E.namedCapture('word', word), E.string(' '), E.backreference('word'))
+ *
+ * assert.deepStrictEqual(D.toDialect('pcre')(expression), Ei.right('(?<word>\\w+)(?: )\\k<word>'))
+ * assert.deepStrictEqual(D.toDialect('python')(expression), Ei.right('(?P<word>[0-9A-Za-z_]+)(?: )(?P=word)'))
+ * assert.deepStrictEqual(
+ *   pipe(expression, D.toDialect('re2'), Ei.mapLeft(D.showDialectError.show)),
+ *   Ei.left('RE2 does not support backreferences')
+ * )
+ *
+ * @since 0.1.0
+ */
+import * as Ei from 'fp-ts/lib/Either'
+import { eqNumber } from 'fp-ts/lib/Eq'
+import * as O from 'fp-ts/lib/Option'
+import * as A from 'fp-ts/lib/ReadonlyArray'
+import { pipe } from 'fp-ts/lib/function'
+import { Show } from 'fp-ts/lib/Show'
+
+import * as AST from './Ast'
+import * as E from './Expression'
+
+// -------------------------------------------------------------------------------------
+// models
+// -------------------------------------------------------------------------------------
+
+/**
+ * A regular expression engine: PCRE, Python `re`, Go RE2 or POSIX extended regular
+ * expressions.
+ *
+ * @category models
+ * @since 0.1.0
+ */
+export type Dialect = 'pcre' | 'python' | 're2' | 'posix'
+
+/**
+ * Describes why an expression could not be translated into a dialect.
+ *
+ * @category models
+ * @since 0.1.0
+ */
+export type DialectError = E.ExpressionError | UnsupportedConstruct | UnsupportedFlag
+
+/**
+ * A construct of the expression, such as a backreference, which the dialect does not
+ * support.
+ *
+ * @category models
+ * @since 0.1.0
+ */
+export interface UnsupportedConstruct {
+  readonly _tag: 'UnsupportedConstruct'
+  readonly dialect: Dialect
+  readonly construct: string
+}
+
+/**
+ * A flag of the expression which cannot be written inline in the dialect.
+ *
+ * @category models
+ * @since 0.1.0
+ */
+export interface UnsupportedFlag {
+  readonly _tag: 'UnsupportedFlag'
+  readonly dialect: Dialect
+  readonly flag: keyof E.Flags
+}
+
+// -------------------------------------------------------------------------------------
+// destructors
+// -------------------------------------------------------------------------------------
+
+/**
+ * Renders the expression as a pattern for the dialect, or describes why it cannot be
+ * translated.
+ *
+ * @category destructors
+ * @since 0.1.0
+ */
+export const toDialect: (dialect: Dialect) => (builder: E.ExpressionBuilder) => Ei.Either<DialectError, string> = (
+  dialect
+) => (builder) => {
+  const { flags } = builder(E.monoidExpression.empty)
+  return pipe(
+    E.validate(builder),
+    Ei.chainW(() =>
+      pipe(
+        unsupportedFlag(dialect, flags),
+        O.fold(
+          () =>
+            pipe(
+              translate(dialect, flags)(E.toAst(builder)),
+              Ei.bimap(
+                (construct): DialectError => ({ _tag: 'UnsupportedConstruct', dialect, construct }),
+                (pattern) => `${prefix(dialect, flags)}${pattern}`
+              )
+            ),
+          (flag) => Ei.left<DialectError, string>({ _tag: 'UnsupportedFlag', dialect, flag })
+        )
+      )
+    )
+  )
+}
+
+// -------------------------------------------------------------------------------------
+// instances
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category instances
+ * @since 0.1.0
+ */
+export const showDialectError: Show<DialectError> = {
+  show: (error) => {
+    switch (error._tag) {
+      case 'UnsupportedConstruct':
+        return `${dialectNames[error.dialect]} does not support ${error.construct}`
+      case 'UnsupportedFlag':
+        return `${dialectNames[error.dialect]} does not support the ${error.flag} flag`
+      default:
+        return E.showExpressionError.show(error)
+    }
+  }
+}
+
+// -------------------------------------------------------------------------------------
+// utils
+// -------------------------------------------------------------------------------------
+
+const dialectNames: Record<Dialect, string> = {
+  pcre: 'PCRE',
+  python: 'Python',
+  re2: 'RE2',
+  posix: 'POSIX'
+}
+
+// The flags which are written as inline modifiers
+const modifiers: ReadonlyArray<readonly [keyof E.Flags, string]> = [
+  ['caseInsensitive', 'i'],
+  ['lineByLine', 'm'],
+  ['singleLine', 's']
+]
+
+const unsupportedFlag: (dialect: Dialect, flags: E.Flags) => O.Option<keyof E.Flags> = (dialect, flags) =>
+  dialect === 'posix'
+    ? pipe(
+        modifiers,
+        A.findFirstMap(([flag]) => (flags[flag] ? O.some(flag) : O.none))
+      )
+    : O.none
+
+const prefix: (dialect: Dialect, flags: E.Flags) => string = (dialect, flags) => {
+  const enabled = modifiers.filter(([flag]) => flags[flag]).map(([, modifier]) => modifier)
+  return `${dialect === 'pcre' && (flags.unicode || flags.unicodeSets) ? '(*UTF)' : ''}${
+    enabled.length > 0 ? `(?${enabled.join('')})` : ''
+  }`
+}
+
+// The result of a translation, which is either a pattern or the construct that could not
+// be translated
+type Translation = Ei.Either<string, string>
+
+const syntaxCharacters = /[\^$\\.*+?()[\]{}|]/g
+
+// Characters which have a meaning within a class, or which Python warns may do so in the
+// future when repeated
+const toEscapeInClass = /[\\\][^\-&~|]/g
+
+// Matches a pattern which ends in an unescaped numbered backreference
+const endsInBackreference = /(?:^|[^\\])(?:\\\\)*\\[1-9]\d*$/
+
+// Control characters which are written as escape sequences, avoiding `\v`, which matches
+// any vertical whitespace in PCRE
+const controlCharacters: Record<string, string> = {
+  '\t': '\\t',
+  '\n': '\\n',
+  '\v': '\\x0B',
+  '\f': '\\f',
+  '\r': '\\r'
+}
+
+const escapeControlCharacters: (value: string) => string = (value) =>
+  value.replace(/[\t\n\v\f\r]/g, (character) => controlCharacters[character])
+
+// POSIX has no escape sequences for control characters, which are written as they are
+const escapeLiteral: (dialect: Dialect, value: string) => string = (dialect, value) => {
+  const escaped = value.replace(syntaxCharacters, '\\$&')
+  return dialect === 'posix' ? escaped : escapeControlCharacters(escaped)
+}
+
+const escapeClass: (value: string) => string = (value) =>
+  escapeControlCharacters(value.replace(toEscapeInClass, '\\$&'))
+
+const characterTypes: Record<AST.CharacterType['type'], string> = {
+  any: '.',
+  digit: '\\d',
+  word: '\\w',
+  whitespace: '\\s'
+}
+
+const posixCharacterTypes: Record<AST.ClassCharacterType['type'], string> = {
+  digit: '[:digit:]',
+  word: '[:alnum:]_',
+  whitespace: '[:space:]'
+}
+
+// The character types of Python match any Unicode digit, letter or space, so the characters
+// which they match in JavaScript are listed instead
+const pythonCharacterTypes: Record<AST.ClassCharacterType['type'], string> = {
+  digit: '0-9',
+  word: '0-9A-Za-z_',
+  whitespace: '\\t\\n\\x0B\\f\\r \\xa0\\u1680\\u2000-\\u200a\\u2028\\u2029\\u202f\\u205f\\u3000\\ufeff'
+}
+
+// The whitespace of PCRE and RE2 is only ASCII, so the characters which it matches in
+// JavaScript are listed instead. PCRE only matches bytes unless it is in UTF mode
+const whitespace: (dialect: Dialect, flags: E.Flags) => string = (dialect, flags) =>
+  dialect === 'pcre' && !flags.unicode && !flags.unicodeSets
+    ? '\\t\\n\\x0B\\f\\r '
+    : '\\t\\n\\x0B\\f\\r \\x{a0}\\x{1680}\\x{2000}-\\x{200a}\\x{2028}\\x{2029}\\x{202f}\\x{205f}\\x{3000}\\x{feff}'
+
+// The characters which are listed for a character type, where the dialect does not match
+// the same characters as JavaScript
+const listedCharacters = (dialect: Dialect, flags: E.Flags, type: AST.ClassCharacterType['type']): O.Option<string> =>
+  dialect === 'python'
+    ? O.some(pythonCharacterTypes[type])
+    : dialect !== 'posix' && type === 'whitespace'
+    ? O.some(whitespace(dialect, flags))
+    : O.none
+
+// Without the `singleLine` flag, `.` matches any character but a line terminator. PCRE
+// only matches bytes unless it is in UTF mode, and POSIX does not match a line break
+const translateAny: (dialect: Dialect, flags: E.Flags) => string = (dialect, flags) => {
+  if (flags.singleLine || dialect === 'posix') {
+    return '.'
+  }
+  switch (dialect) {
+    case 'python':
+      return '[^\\n\\r\\u2028\\u2029]'
+    case 'pcre':
+      return flags.unicode || flags.unicodeSets ? '[^\\n\\r\\x{2028}\\x{2029}]' : '[^\\n\\r]'
+    default:
+      return '[^\\n\\r\\x{2028}\\x{2029}]'
+  }
+}
+
+const translateCharacterType: (dialect: Dialect, flags: E.Flags, type: AST.CharacterType['type']) => string = (
+  dialect,
+  flags,
+  type
+) => {
+  switch (type) {
+    case 'any':
+      return translateAny(dialect, flags)
+    default:
+      return dialect === 'posix'
+        ? `[${posixCharacterTypes[type]}]`
+        : pipe(
+            listedCharacters(dialect, flags, type),
+            O.fold(
+              () => characterTypes[type],
+              (list) => `[${list}]`
+            )
+          )
+  }
+}
+
+// The long names of the general categories which are supported by both PCRE and RE2
+const generalCategories: Record<string, string> = {
+  Letter: 'L',
+  Uppercase_Letter: 'Lu',
+  Lowercase_Letter: 'Ll',
+  Titlecase_Letter: 'Lt',
+  Modifier_Letter: 'Lm',
+  Other_Letter: 'Lo',
+  Mark: 'M',
+  Nonspacing_Mark: 'Mn',
+  Spacing_Mark: 'Mc',
+  Enclosing_Mark: 'Me',
+  Number: 'N',
+  Decimal_Number: 'Nd',
+  Letter_Number: 'Nl',
+  Other_Number: 'No',
+  Punctuation: 'P',
+  Connector_Punctuation: 'Pc',
+  Dash_Punctuation: 'Pd',
+  Open_Punctuation: 'Ps',
+  Close_Punctuation: 'Pe',
+  Initial_Punctuation: 'Pi',
+  Final_Punctuation: 'Pf',
+  Other_Punctuation: 'Po',
+  Symbol: 'S',
+  Math_Symbol: 'Sm',
+  Currency_Symbol: 'Sc',
+  Modifier_Symbol: 'Sk',
+  Other_Symbol: 'So',
+  Separator: 'Z',
+  Space_Separator: 'Zs',
+  Line_Separator: 'Zl',
+  Paragraph_Separator: 'Zp',
+  Other: 'C',
+  Control: 'Cc',
+  Format: 'Cf',
+  Surrogate: 'Cs',
+  Private_Use: 'Co'
+}
+
+const generalCategory: (value: string) => O.Option<string> = (value) =>
+  Object.prototype.hasOwnProperty.call(generalCategories, value)
+    ? O.some(generalCategories[value])
+    : pipe(
+        Object.keys(generalCategories).map((name) => generalCategories[name]),
+        A.findFirst((category) => category === value)
+      )
+
+// PCRE and RE2 name a script or a general category without the name of its property
+const propertyValue: (member: AST.ClassProperty) => O.Option<string> = (member) =>
+  pipe(
+    member.value,
+    O.fold(
+      () => generalCategory(member.name),
+      (value) => {
+        switch (member.name) {
+          case 'General_Category':
+          case 'gc':
+            return generalCategory(value)
+          case 'Script':
+          case 'sc':
+            return O.some(value)
+          default:
+            return O.none
+        }
+      }
+    )
+  )
+
+const translateProperty: (dialect: Dialect, member: AST.ClassProperty) => Translation = (dialect, member) =>
+  dialect === 'pcre' || dialect === 're2'
+    ? pipe(
+        propertyValue(member),
+        Ei.fromOption(
+          () => `the Unicode property ${AST.renderUnicode(AST.characterClass(false, [member])).slice(1, -1)}`
+        ),
+        Ei.map((value) => `\\${member.negated ? 'P' : 'p'}{${value}}`)
+      )
+    : Ei.left('Unicode properties')
+
+type FlatMember = AST.ClassCharacters | AST.ClassRange | AST.ClassCharacterType | AST.ClassProperty
+
+// A nested class which is not negated is merged into the class which contains it
+const flatten = (members: ReadonlyArray<AST.ClassMember>): Ei.Either<string, ReadonlyArray<FlatMember>> =>
+  pipe(
+    A.readonlyArray.traverse(Ei.either)(
+      members,
+      (member): Ei.Either<string, ReadonlyArray<FlatMember>> => {
+        switch (member._tag) {
+          case 'ClassNested':
+            return member.node.negated ? Ei.left('nested negated character classes') : flatten(member.node.members)
+          case 'ClassSetOperation':
+            return Ei.left('character class set operations')
+          default:
+            return Ei.right([member])
+        }
+      }
+    ),
+    Ei.map(A.flatten)
+  )
+
+const translateMember = (dialect: Dialect, flags: E.Flags) => (member: FlatMember): Translation => {
+  switch (member._tag) {
+    case 'ClassCharacters':
+      return Ei.right(escapeClass(member.value))
+    case 'ClassRange':
+      return Ei.right(`${escapeClass(member.from)}-${escapeClass(member.to)}`)
+    case 'ClassCharacterType':
+      return pipe(
+        listedCharacters(dialect, flags, member.type),
+        O.fold(
+          () => {
+            const type = characterTypes[member.type]
+            return Ei.right(member.negated ? type.toUpperCase() : type)
+          },
+          (list) => (member.negated ? Ei.left('negated character types within a class') : Ei.right(list))
+        )
+      )
+    default:
+      return translateProperty(dialect, member)
+  }
+}
+
+// A character which has a meaning within a POSIX bracket expression is written as a
+// collating symbol when it is the bound of a range
+const posixBound: (c: string) => string = (c) => ('[]^-'.indexOf(c) === -1 ? c : `[.${c}.]`)
+
+// POSIX has no escape sequences within a bracket expression, so `]` must be written first,
+// `^` anywhere but first, and `-` last
+const posixList: (members: ReadonlyArray<FlatMember>) => Translation = (members) =>
+  pipe(
+    A.readonlyArray.traverse(Ei.either)(
+      members,
+      (member): Ei.Either<string, readonly [ReadonlyArray<string>, string]> => {
+        switch (member._tag) {
+          case 'ClassCharacters':
+            return Ei.right([Array.from(member.value), ''])
+          case 'ClassRange':
+            return Ei.right([[], `${posixBound(member.from)}-${posixBound(member.to)}`])
+          case 'ClassCharacterType':
+            return member.negated
+              ? Ei.left('negated character types within a class')
+              : Ei.right([[], posixCharacterTypes[member.type]])
+          default:
+            return Ei.left('Unicode properties')
+        }
+      }
+    ),
+    Ei.map((items) => {
+      const characters = A.chain(([cs]: readonly [ReadonlyArray<string>, string]) => cs)(items)
+      const has = (c: string) => characters.indexOf(c) !== -1
+      const leading = [
+        ...(has(']') ? [']'] : []),
+        ...items.map(([, s]) => s),
+        ...characters.filter((c, i) => '[]^-'.indexOf(c) === -1 && characters.indexOf(c) === i),
+        ...(has('[') ? ['['] : [])
+      ].join('')
+      return `${leading}${has('^') ? (leading === '' ? '[.^.]' : '^') : ''}${has('-') ? '-' : ''}`
+    })
+  )
+
+// A negated empty class matches any character, including a line break, which POSIX
+// writes as it is
+const anyCharacter: (dialect: Dialect) => string = (dialect) => (dialect === 'posix' ? '(.|\n)' : '[\\s\\S]')
+
+// A class of a single negated character type is written as the negated class of the
+// characters which are listed for it
+const negatedType = (dialect: Dialect, flags: E.Flags, members: ReadonlyArray<FlatMember>): O.Option<string> =>
+  members.length === 1 && members[0]._tag === 'ClassCharacterType' && members[0].negated
+    ? listedCharacters(dialect, flags, members[0].type)
+    : O.none
+
+const translateClass: (dialect: Dialect, flags: E.Flags, ast: AST.CharacterClass) => Translation = (
+  dialect,
+  flags,
+  ast
+) =>
+  pipe(
+    flatten(ast.members),
+    Ei.chain((members) =>
+      members.length === 0
+        ? ast.negated
+          ? Ei.right(anyCharacter(dialect))
+          : Ei.left('empty character classes')
+        : pipe(
+            negatedType(dialect, flags, members),
+            O.fold(
+              () =>
+                pipe(
+                  dialect === 'posix'
+                    ? posixList(members)
+                    : pipe(
+                        A.readonlyArray.traverse(Ei.either)(members, translateMember(dialect, flags)),
+                        Ei.map((ms) => ms.join(''))
+                      ),
+                  Ei.map((list) => `[${ast.negated ? '^' : ''}${list}]`)
+                ),
+              (list) => Ei.right(`[${ast.negated ? '' : '^'}${list}]`)
+            )
+          )
+    )
+  )
+
+// The number of characters matched by a node, if it is fixed
+const width = (ast: AST.Ast): O.Option<number> => {
+  switch (ast._tag) {
+    case 'Sequence':
+      return pipe(
+        A.readonlyArray.sequence(O.option)(ast.nodes.map(width)),
+        O.map((ws) => ws.reduce((a, b) => a + b, 0))
+      )
+    case 'Alternation':
+      return pipe(
+        A.readonlyArray.sequence(O.option)(ast.alternatives.map(width)),
+        O.map(A.uniq(eqNumber)),
+        O.chain((ws) => (ws.length === 1 ? O.some(ws[0]) : O.none))
+      )
+    case 'Literal':
+      return O.some(Array.from(ast.value).length)
+    case 'CharacterClass':
+    case 'CharacterType':
+      return O.some(1)
+    case 'Anchor':
+    case 'Lookaround':
+      return O.some(0)
+    case 'Group':
+    case 'Capture':
+      return width(ast.node)
+    case 'Quantifier':
+      return ast.min === ast.max
+        ? pipe(
+            width(ast.node),
+            O.map((w) => w * ast.min)
+          )
+        : O.none
+    default:
+      return O.none
+  }
+}
+
+const alternativesOf = (ast: AST.Ast): ReadonlyArray<AST.Ast> => (ast._tag === 'Alternation' ? ast.alternatives : [ast])
+
+// Python requires a lookbehind to match a fixed number of characters, whereas PCRE only
+// requires the same of each of its alternatives
+const isFixedWidth: (dialect: Dialect, ast: AST.Ast) => boolean = (dialect, ast) =>
+  dialect === 'pcre' ? alternativesOf(ast).every((node) => O.isSome(width(node))) : O.isSome(width(ast))
+
+const group: (dialect: Dialect, pattern: string) => string = (dialect, pattern) =>
+  dialect === 'posix' ? `(${pattern})` : `(?:${pattern})`
+
+// Whether a node is translated into an alternation which is not enclosed by a group. A
+// group is only written in POSIX where it is needed, as it also captures
+const isAlternation = (dialect: Dialect, ast: AST.Ast): boolean => {
+  switch (ast._tag) {
+    case 'Alternation':
+      return true
+    case 'Group':
+      return dialect === 'posix' && isAlternation(dialect, ast.node)
+    default:
+      return false
+  }
+}
+
+// A quantifier only applies to the single atom which precedes it
+const translateAtom = (dialect: Dialect, flags: E.Flags) => (ast: AST.Ast): Translation => {
+  switch (ast._tag) {
+    case 'Literal':
+      return Array.from(ast.value).length > 1
+        ? Ei.right(group(dialect, escapeLiteral(dialect, ast.value)))
+        : translate(dialect, flags)(ast)
+    case 'Group':
+      return dialect === 'posix' ? translateAtom(dialect, flags)(ast.node) : translate(dialect, flags)(ast)
+    case 'Sequence':
+    case 'Alternation':
+    case 'Anchor':
+    case 'Quantifier':
+    case 'Lookaround':
+      return pipe(
+        translate(dialect, flags)(ast),
+        Ei.map((pattern) => group(dialect, pattern))
+      )
+    default:
+      return translate(dialect, flags)(ast)
+  }
+}
+
+// A word boundary of Python is between a Unicode letter and any other character, so it is
+// written as lookarounds of the characters which JavaScript considers part of a word
+const pythonWord = `[${pythonCharacterTypes.word}]`
+
+const pythonBoundaries: Record<'wordBoundary' | 'nonWordBoundary', string> = {
+  wordBoundary: `(?:(?<=${pythonWord})(?!${pythonWord})|(?<!${pythonWord})(?=${pythonWord}))`,
+  nonWordBoundary: `(?:(?<=${pythonWord})(?=${pythonWord})|(?<!${pythonWord})(?!${pythonWord}))`
+}
+
+const translateAnchor: (dialect: Dialect, flags: E.Flags, anchor: AST.Anchor['anchor']) => Translation = (
+  dialect,
+  flags,
+  anchor
+) => {
+  switch (anchor) {
+    case 'start':
+      return Ei.right('^')
+    // Without multiline mode, `$` also matches before a final line break in PCRE and Python
+    case 'end':
+      return Ei.right(flags.lineByLine ? '$' : dialect === 'pcre' ? '\\z' : dialect === 'python' ? '\\Z' : '$')
+    default:
+      return dialect === 'posix'
+        ? Ei.left('word boundaries')
+        : Ei.right(dialect === 'python' ? pythonBoundaries[anchor] : anchor === 'wordBoundary' ? '\\b' : '\\B')
+  }
+}
+
+const translateBackreference: (dialect: Dialect, reference: number | string) => Translation = (dialect, reference) => {
+  switch (dialect) {
+    case 'pcre':
+      return Ei.right(typeof reference === 'number' ? `\\${reference}` : `\\k<${reference}>`)
+    case 'python':
+      return Ei.right(typeof reference === 'number' ? `\\${reference}` : `(?P=${reference})`)
+    default:
+      return Ei.left('backreferences')
+  }
+}
+
+const translate = (dialect: Dialect, flags: E.Flags) => (ast: AST.Ast): Translation => {
+  const go = translate(dialect, flags)
+  switch (ast._tag) {
+    case 'Sequence':
+      return pipe(
+        A.readonlyArray.traverse(Ei.either)(ast.nodes, (node) =>
+          isAlternation(dialect, node)
+            ? pipe(
+                go(node),
+                Ei.map((pattern) => group(dialect, pattern))
+              )
+            : go(node)
+        ),
+        // A digit which follows a numbered backreference, even one at the end of a nested
+        // sequence, would otherwise be read as part of the group number
+        Ei.map((patterns) =>
+          patterns.reduce(
+            (acc, pattern) => `${acc}${endsInBackreference.test(acc) && /^\d/.test(pattern) ? '(?:)' : ''}${pattern}`,
+            ''
+          )
+        )
+      )
+    case 'Alternation':
+      return pipe(
+        A.readonlyArray.traverse(Ei.either)(ast.alternatives, go),
+        Ei.map((patterns) => patterns.join('|'))
+      )
+    case 'Literal':
+      return Ei.right(escapeLiteral(dialect, ast.value))
+    case 'CharacterClass':
+      return translateClass(dialect, flags, ast)
+    case 'CharacterType':
+      return Ei.right(translateCharacterType(dialect, flags, ast.type))
+    case 'Anchor':
+      return translateAnchor(dialect, flags, ast.anchor)
+    case 'Group':
+      return dialect === 'posix'
+        ? go(ast.node)
+        : pipe(
+            go(ast.node),
+            Ei.map((pattern) => group(dialect, pattern))
+          )
+    case 'Capture':
+      return pipe(
+        ast.name,
+        O.fold(
+          () => Ei.right(''),
+          (name) =>
+            dialect === 'posix'
+              ? Ei.left('named capturing groups')
+              : Ei.right(dialect === 'pcre' ? `?<${name}>` : `?P<${name}>`)
+        ),
+        Ei.chain((name) =>
+          pipe(
+            go(ast.node),
+            Ei.map((pattern) => `(${name}${pattern})`)
+          )
+        )
+      )
+    case 'Quantifier':
+      return dialect === 'posix' && ast.lazy
+        ? Ei.left('lazy quantifiers')
+        : pipe(
+            translateAtom(dialect, flags)(ast.node),
+            Ei.map((atom) => `${atom}${AST.render(AST.quantifier(AST.empty, ast.min, ast.max, ast.lazy))}`)
+          )
+    case 'Lookaround':
+      if (dialect === 're2' || dialect === 'posix') {
+        return Ei.left(ast.direction === 'ahead' ? 'lookaheads' : 'lookbehinds')
+      }
+      return ast.direction === 'behind' && !isFixedWidth(dialect, ast.node)
+        ? Ei.left('variable-length lookbehinds')
+        : pipe(
+            go(ast.node),
+            Ei.map((pattern) => `(?${ast.direction === 'behind' ? '<' : ''}${ast.negated ? '!' : '='}${pattern})`)
+          )
+    default:
+      return translateBackreference(dialect, ast.group)
+  }
+}
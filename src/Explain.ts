@@ -0,0 +1,238 @@
+/**
+ * Describing an expression in English.
+ *
+ * An explanation is a tree whose value is a description of the entire expression, and
+ * whose forest explains each of the sub-expressions from which it is built.
+ *
+ * @example
+ * import { pipe } from 'fp-ts/lib/function'
+ * import { drawTree } from 'fp-ts/lib/Tree'
+ * import * as E from 'expressive-ts/lib/Expression'
+ * import * as X from 'expressive-ts/lib/Explain'
+ *
+ * const expression = pipe(E.compile, E.startOfInput, E.string('foo'), E.maybe('bar'), E.caseInsensitive)
+ *
+ * assert.strictEqual(
+ *   X.explain(expression).value,
+ *   "start of input, then the text 'foo', then optionally the text 'bar'; case-insensitive"
+ * )
+ *
+ * assert.strictEqual(
+ *   drawTree(X.explain(expression)),
+ *   [
+ *     "start of input, then the text 'foo', then optionally the text 'bar'; case-insensitive",
+ *     '├─ start of input',
+ *     "├─ the text 'foo'",
+ *     "└─ optionally the text 'bar'",
+ *     "   └─ the text 'bar'"
+ *   ].join('\n')
+ * )
+ *
+ * @since 0.1.0
+ */
+import * as O from 'fp-ts/lib/Option'
+import * as A from 'fp-ts/lib/ReadonlyArray'
+import * as T from 'fp-ts/lib/Tree'
+import { pipe } from 'fp-ts/lib/function'
+
+import * as AST from './Ast'
+import * as E from './Expression'
+
+// -------------------------------------------------------------------------------------
+// destructors
+// -------------------------------------------------------------------------------------
+
+/**
+ * Explains the expression. The flags of the expression are described after the
+ * description of its syntax tree.
+ *
+ * @category destructors
+ * @since 0.1.0
+ */
+export const explain: (builder: E.ExpressionBuilder) => T.Tree<string> = (builder) => {
+  const { flags } = builder(E.monoidExpression.empty)
+  const explanation = explainAst(flags)(E.toAst(builder))
+  const modifiers = flagDescriptions.filter(([flag]) => flags[flag]).map(([, description]) => description)
+  return modifiers.length > 0
+    ? T.make(`${explanation.value}; ${modifiers.join(', ')}`, explanation.forest)
+    : explanation
+}
+
+// -------------------------------------------------------------------------------------
+// utils
+// -------------------------------------------------------------------------------------
+
+const flagDescriptions: ReadonlyArray<readonly [keyof E.Flags, string]> = [
+  ['allowMultiple', 'allowing multiple matches'],
+  ['caseInsensitive', 'case-insensitive'],
+  ['lineByLine', 'line by line'],
+  ['singleLine', 'single line'],
+  ['sticky', 'sticky'],
+  ['unicode', 'unicode'],
+  ['unicodeSets', 'unicode sets']
+]
+
+const quote: (value: string) => string = (value) =>
+  `'${JSON.stringify(value).slice(1, -1).replace(/\\"/g, '"').replace(/'/g, "\\'")}'`
+
+const list: (items: ReadonlyArray<string>) => string = (items) =>
+  items.length > 1 ? `${items.slice(0, -1).join(', ')} or ${items[items.length - 1]}` : items.join('')
+
+// Whether the description of a node must be parenthesized when it is an operand of
+// another node
+const isCompound: (ast: AST.Ast) => boolean = (ast) => {
+  switch (ast._tag) {
+    case 'Sequence':
+      return ast.nodes.length > 1 || ast.nodes.some(isCompound)
+    case 'Group':
+      return isCompound(ast.node)
+    case 'Alternation':
+    case 'Capture':
+      return true
+    default:
+      return false
+  }
+}
+
+const operand: (ast: AST.Ast, explanation: T.Tree<string>) => string = (ast, explanation) =>
+  isCompound(ast) ? `(${explanation.value})` : explanation.value
+
+const quantity: (min: number, max: number) => string = (min, max) =>
+  min === 0 && max === 1
+    ? 'optionally'
+    : max === Infinity
+    ? min === 0
+      ? 'zero or more of'
+      : min === 1
+      ? 'one or more of'
+      : `at least ${min} of`
+    : min === max
+    ? `exactly ${min} of`
+    : `between ${min} and ${max} of`
+
+const lookarounds: Record<AST.Lookaround['direction'], readonly [string, string]> = {
+  ahead: ['followed by', 'not followed by'],
+  behind: ['preceded by', 'not preceded by']
+}
+
+const characterTypes: Record<AST.ClassCharacterType['type'], readonly [string, string]> = {
+  digit: ['a digit', 'a non-digit'],
+  word: ['a word character', 'a non-word character'],
+  whitespace: ['a whitespace character', 'a non-whitespace character']
+}
+
+const describeProperty: (member: AST.ClassProperty) => string = (member) =>
+  `a character ${member.negated ? 'without' : 'with'} the Unicode property ${pipe(
+    member.value,
+    O.fold(
+      () => member.name,
+      (value) => `${member.name}=${value}`
+    )
+  )}`
+
+const describeMember = (member: AST.ClassMember): ReadonlyArray<string> => {
+  switch (member._tag) {
+    case 'ClassCharacters':
+      return Array.from(member.value).map(quote)
+    case 'ClassRange':
+      return [`a character from ${quote(member.from)} to ${quote(member.to)}`]
+    case 'ClassCharacterType':
+      return [characterTypes[member.type][member.negated ? 1 : 0]]
+    case 'ClassProperty':
+      return [describeProperty(member)]
+    case 'ClassNested':
+      return [describeOperand(member.node)]
+    default:
+      return [
+        member.operator === 'intersection'
+          ? `a character which is both ${describeOperand(member.left)} and ${describeOperand(member.right)}`
+          : `${describeOperand(member.left)} but not ${describeOperand(member.right)}`
+      ]
+  }
+}
+
+const describeClass = (node: AST.CharacterClass): string => {
+  const items = A.chain(describeMember)(node.members)
+  return items.length === 0
+    ? node.negated
+      ? 'any character'
+      : 'no character'
+    : node.negated
+    ? `any character except ${list(items)}`
+    : items.length === 1
+    ? items[0]
+    : `one of ${list(items)}`
+}
+
+const describeOperand = (node: AST.CharacterClass): string => {
+  const description = describeClass(node)
+  return A.chain(describeMember)(node.members).length > 1 ? `(${description})` : description
+}
+
+const explainAst = (flags: E.Flags) => (ast: AST.Ast): T.Tree<string> => {
+  const go = explainAst(flags)
+  switch (ast._tag) {
+    case 'Sequence': {
+      const forest = ast.nodes.map(go)
+      return T.make(
+        ast.nodes.length === 0 ? 'nothing' : forest.map((tree, i) => operand(ast.nodes[i], tree)).join(', then '),
+        forest
+      )
+    }
+    case 'Alternation': {
+      const forest = ast.alternatives.map(go)
+      return T.make(`either ${list(forest.map((tree, i) => operand(ast.alternatives[i], tree)))}`, forest)
+    }
+    case 'Literal':
+      return T.make(`the text ${quote(ast.value)}`)
+    case 'CharacterClass':
+      return T.make(describeClass(ast))
+    case 'CharacterType':
+      return T.make(
+        ast.type === 'any'
+          ? flags.singleLine
+            ? 'any character'
+            : 'any character except a line break'
+          : characterTypes[ast.type][0]
+      )
+    case 'Anchor':
+      switch (ast.anchor) {
+        case 'start':
+          return T.make(flags.lineByLine ? 'start of line' : 'start of input')
+        case 'end':
+          return T.make(flags.lineByLine ? 'end of line' : 'end of input')
+        case 'wordBoundary':
+          return T.make('a word boundary')
+        default:
+          return T.make('not a word boundary')
+      }
+    case 'Group':
+      return go(ast.node)
+    case 'Capture': {
+      const tree = go(ast.node)
+      return T.make(
+        pipe(
+          ast.name,
+          O.fold(
+            () => `${operand(ast.node, tree)}, captured`,
+            (name) => `${operand(ast.node, tree)}, captured as ${quote(name)}`
+          )
+        ),
+        [tree]
+      )
+    }
+    case 'Quantifier': {
+      const tree = go(ast.node)
+      return T.make(
+        `${quantity(ast.min, ast.max)} ${operand(ast.node, tree)}${ast.lazy ? ', as few times as possible' : ''}`,
+        [tree]
+      )
+    }
+    case 'Lookaround': {
+      const tree = go(ast.node)
+      return T.make(`${lookarounds[ast.direction][ast.negated ? 1 : 0]} ${operand(ast.node, tree)}`, [tree])
+    }
+    default:
+      return T.make(`the text matched by group ${typeof ast.group === 'number' ? ast.group : quote(ast.group)}`)
+  }
+}
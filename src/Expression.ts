@@ -30,9 +30,19 @@
  *
  * @since 0.0.1
  */
+import { sequenceT } from 'fp-ts/lib/Apply'
+import * as E from 'fp-ts/lib/Either'
 import * as M from 'fp-ts/lib/Monoid'
+import * as O from 'fp-ts/lib/Option'
+import * as A from 'fp-ts/lib/ReadonlyArray'
+import * as RNEA from 'fp-ts/lib/ReadonlyNonEmptyArray'
 import * as T from 'fp-ts/lib/Traced'
-import { identity, Endomorphism, flow } from 'fp-ts/lib/function'
+import { identity, pipe, Endomorphism, flow } from 'fp-ts/lib/function'
+import { Show } from 'fp-ts/lib/Show'
+
+import * as AST from './Ast'
+import * as CC from './CharClass'
+import * as P from './Parser'
 
 // -------------------------------------------------------------------------------------
 // models
@@ -42,7 +52,67 @@ import { identity, Endomorphism, flow } from 'fp-ts/lib/function'
  * @category models
  * @since 0.0.1
  */
-export interface ExpressionBuilder extends T.Traced<Expression, Expression> {}
+// eslint-disable-next-line @typescript-eslint/ban-types
+export interface ExpressionBuilder<G = {}> extends T.Traced<Expression, Expression> {
+  /**
+   * The named capturing groups declared by the expression, which are only tracked at the
+   * type level. A group which may not participate in a match is optional.
+   */
+  readonly _G?: G
+}
+
+/**
+ * A combinator which preserves the named capturing groups declared by an expression.
+ *
+ * @category models
+ * @since 0.1.0
+ */
+export interface Combinator {
+  <G>(wa: ExpressionBuilder<G>): ExpressionBuilder<G>
+}
+
+/**
+ * A combinator after which the named capturing groups declared by an expression may not
+ * participate in a match, such as a quantifier which may repeat nothing, and so are
+ * optional.
+ *
+ * @category models
+ * @since 0.1.0
+ */
+export interface OptionalCombinator {
+  <G>(wa: ExpressionBuilder<G>): ExpressionBuilder<Partial<G>>
+}
+
+/**
+ * The key which marks the named capturing groups of an expression which contains an
+ * alternation. It only exists at the type level.
+ *
+ * @category models
+ * @since 0.1.0
+ */
+export declare const Alternation: unique symbol
+
+/**
+ * Marks the named capturing groups of an expression which contains an alternation. Any
+ * group, whether it is declared before or after the alternation, may not participate in a
+ * match, and so every group is optional.
+ *
+ * @category models
+ * @since 0.1.0
+ */
+export interface Alternated {
+  readonly [Alternation]: true
+}
+
+/**
+ * A combinator which starts a new alternative.
+ *
+ * @category models
+ * @since 0.1.0
+ */
+export interface AlternativeCombinator {
+  <G>(wa: ExpressionBuilder<G>): ExpressionBuilder<Partial<G> & Alternated>
+}
 
 /**
  * @category models
@@ -50,25 +120,311 @@ export interface ExpressionBuilder extends T.Traced<Expression, Expression> {}
  */
 export interface Expression {
   /**
-   * The expression pattern prefix.
+   * The expression tokens, in the order in which they were added.
    */
-  readonly prefix: string
+  readonly tokens: ReadonlyArray<Token>
   /**
-   * The expression pattern.
+   * The expression flags.
    */
+  readonly flags: Flags
+}
+
+/**
+ * A token is either a complete syntax tree, or one of the structural instructions which
+ * are resolved into a syntax tree when the expression is destructed.
+ *
+ * @category models
+ * @since 0.1.0
+ */
+export type Token = Term | BeginCapture | EndCapture | Alternate | Or | Quantify | Invalid
+
+/**
+ * @category models
+ * @since 0.1.0
+ */
+export interface Term {
+  readonly _tag: 'Term'
+  readonly ast: AST.Ast
+}
+
+/**
+ * Opens a capturing group which is closed by the matching `EndCapture`.
+ *
+ * @category models
+ * @since 0.1.0
+ */
+export interface BeginCapture {
+  readonly _tag: 'BeginCapture'
+}
+
+/**
+ * Closes the innermost open capturing group.
+ *
+ * @category models
+ * @since 0.1.0
+ */
+export interface EndCapture {
+  readonly _tag: 'EndCapture'
+}
+
+/**
+ * Begins a new alternative within the innermost open group.
+ *
+ * @category models
+ * @since 0.1.0
+ */
+export interface Alternate {
+  readonly _tag: 'Alternate'
+}
+
+/**
+ * Groups everything within the innermost open group as one alternative, and everything
+ * which follows as another.
+ *
+ * @category models
+ * @since 0.1.0
+ */
+export interface Or {
+  readonly _tag: 'Or'
+}
+
+/**
+ * Quantifies the preceding syntax tree.
+ *
+ * @category models
+ * @since 0.1.0
+ */
+export interface Quantify {
+  readonly _tag: 'Quantify'
+  /**
+   * The name of the combinator which added the token, such as `oneOrMore`.
+   */
+  readonly combinator: string
+  readonly min: number
+  readonly max: number
+  readonly lazy: boolean
+}
+
+/**
+ * A sub-expression which could not be resolved into a syntax tree.
+ *
+ * @category models
+ * @since 0.1.0
+ */
+export interface Invalid {
+  readonly _tag: 'Invalid'
+  readonly error: ExpressionError
+}
+
+/**
+ * Describes why an expression could not be compiled into a regular expression, and at
+ * which of its tokens.
+ *
+ * @category models
+ * @since 0.1.0
+ */
+export type ExpressionError = (
+  | UnterminatedGroup
+  | UnmatchedEndCapture
+  | NothingToRepeat
+  | InvalidQuantifier
+  | InvalidRange
+  | DuplicateGroupName
+  | InvalidGroupName
+  | InvalidBackreference
+  | MissingFlag
+  | InvalidPattern
+) & {
+  /**
+   * The index of the token which produced the error, such as the token added by a
+   * combinator of a `pipe`. It is absent if no one token produced the error, as for a
+   * pattern which is rejected by the `RegExp` constructor.
+   */
+  readonly index?: number
+}
+
+/**
+ * A `beginCapture` which is not closed by a matching `endCapture`.
+ *
+ * @category models
+ * @since 0.1.0
+ */
+export interface UnterminatedGroup {
+  readonly _tag: 'UnterminatedGroup'
+}
+
+/**
+ * An `endCapture` which does not close a matching `beginCapture`.
+ *
+ * @category models
+ * @since 0.1.0
+ */
+export interface UnmatchedEndCapture {
+  readonly _tag: 'UnmatchedEndCapture'
+}
+
+/**
+ * A quantifier, such as `oneOrMore`, which is not preceded by anything to repeat.
+ *
+ * @category models
+ * @since 0.1.0
+ */
+export interface NothingToRepeat {
+  readonly _tag: 'NothingToRepeat'
+  readonly quantifier: string
+}
+
+/**
+ * A quantifier, such as `between`, whose bounds are not non-negative integers in order.
+ *
+ * @category models
+ * @since 0.1.0
+ */
+export interface InvalidQuantifier {
+  readonly _tag: 'InvalidQuantifier'
+  readonly min: number
+  readonly max: number
+}
+
+/**
+ * A `range` whose bounds are not single characters in order, or an `integerRange` or a
+ * `decimalRange` whose bounds are not numbers in order.
+ *
+ * @category models
+ * @since 0.1.0
+ */
+export interface InvalidRange {
+  readonly _tag: 'InvalidRange'
+  readonly from: string
+  readonly to: string
+}
+
+/**
+ * A `namedCapture` whose name is already declared by another capturing group.
+ *
+ * @category models
+ * @since 0.1.0
+ */
+export interface DuplicateGroupName {
+  readonly _tag: 'DuplicateGroupName'
+  readonly name: string
+}
+
+/**
+ * A `namedCapture` or a `backreference` whose name is not an identifier, such as a name
+ * which contains `>`.
+ *
+ * @category models
+ * @since 0.1.0
+ */
+export interface InvalidGroupName {
+  readonly _tag: 'InvalidGroupName'
+  readonly name: string
+}
+
+/**
+ * A `backreference` to a capturing group which does not exist.
+ *
+ * @category models
+ * @since 0.1.0
+ */
+export interface InvalidBackreference {
+  readonly _tag: 'InvalidBackreference'
+  readonly reference: number | string
+}
+
+/**
+ * A character class which uses a feature that requires a flag which is not set, such as a
+ * Unicode property, which requires the `unicode` flag, or a set operation, which requires
+ * the `unicodeSets` flag.
+ *
+ * @category models
+ * @since 0.1.0
+ */
+export interface MissingFlag {
+  readonly _tag: 'MissingFlag'
+  readonly flag: 'unicode' | 'unicodeSets'
+}
+
+/**
+ * A pattern which is rejected by the `RegExp` constructor.
+ *
+ * @category models
+ * @since 0.1.0
+ */
+export interface InvalidPattern {
+  readonly _tag: 'InvalidPattern'
   readonly pattern: string
+  readonly message: string
+}
+
+/**
+ * The number of times that `repeat` matches a sub-expression.
+ *
+ * @category models
+ * @since 0.1.0
+ */
+export interface Repetition {
+  readonly min: number
+  readonly max?: number
+  readonly lazy?: boolean
+}
+
+/**
+ * How `oneOfStrings` matches each of the strings.
+ *
+ * @category models
+ * @since 0.1.0
+ */
+export interface OneOfStrings {
+  /**
+   * Whether a string is only matched between word boundaries.
+   */
+  readonly wholeWord?: boolean
   /**
-   * The expression pattern suffix.
+   * Whether a letter is matched in either case, regardless of the `caseInsensitive` flag.
    */
-  readonly suffix: string
+  readonly caseInsensitive?: boolean
+}
+
+/**
+ * How `integerRange` matches each of the integers.
+ *
+ * @category models
+ * @since 0.1.0
+ */
+export interface IntegerRange {
   /**
-   * The expression source.
+   * Whether every integer is padded with zeros to the number of digits of the widest bound.
    */
-  readonly source: string
+  readonly leadingZeros?: boolean
+}
+
+/**
+ * How `fromGlob` matches the segments of a path.
+ *
+ * @category models
+ * @since 0.1.0
+ */
+export interface Glob {
   /**
-   * The expression flags.
+   * The characters which separate the segments of a path, which are `/` by default. When
+   * they include `\`, it is a separator rather than an escape.
    */
-  readonly flags: Flags
+  readonly separators?: string
+}
+
+/**
+ * How `fromLike` matches a pattern.
+ *
+ * @category models
+ * @since 0.1.0
+ */
+export interface Like {
+  /**
+   * The character which causes the character following it to be matched literally.
+   */
+  readonly escape?: string
 }
 
 /**
@@ -107,6 +463,478 @@ export interface Flags {
    * the expression.
    */
   readonly unicode: boolean
+  /**
+   * Sets the unicode sets flag (`v`) which, in addition to the features of the unicode
+   * flag, enables nested classes and set operations within a character class. Supersedes
+   * the unicode flag.
+   */
+  readonly unicodeSets: boolean
+}
+
+// -------------------------------------------------------------------------------------
+// constructors
+// -------------------------------------------------------------------------------------
+
+const flagNames: Record<string, keyof Flags> = {
+  g: 'allowMultiple',
+  i: 'caseInsensitive',
+  m: 'lineByLine',
+  s: 'singleLine',
+  u: 'unicode',
+  v: 'unicodeSets',
+  y: 'sticky'
+}
+
+// The syntax of a pattern which is allowed by the flags of an expression
+const syntaxOf: (flags: Flags) => P.Syntax = (flags) =>
+  flags.unicodeSets ? 'unicodeSets' : flags.unicode ? 'unicode' : 'legacy'
+
+/**
+ * Parses a regular expression, or a pattern as accepted by the `RegExp` constructor, into
+ * an expression which is equivalent to it. The flags of the regular expression are set on
+ * the expression.
+ *
+ * @example
+ * import { pipe } from 'fp-ts/lib/function'
+ * import * as Ei from 'fp-ts/lib/Either'
+ * import * as E from 'expressive-ts/lib/Expression'
+ *
+ * assert.deepStrictEqual(
+ *   pipe(
+ *     E.fromRegex(/^(\d{4})-(\d{2})$/i),
+ *     Ei.map((builder) => pipe(builder, E.maybe('!'), E.toRegexString))
+ *   ),
+ *   Ei.right('/^(\\d{4})-(\\d{2})$(?:!)?/i')
+ * )
+ *
+ * assert.deepStrictEqual(E.fromRegex('(?<year>\\d{4}'), Ei.left({ index: 0, message: 'Unterminated group' }))
+ *
+ * @category constructors
+ * @since 0.1.0
+ */
+export const fromRegex: (regex: RegExp | string) => E.Either<P.ParseError, ExpressionBuilder> = (regex) => {
+  const source = typeof regex === 'string' ? regex : regex.source
+  return pipe(
+    typeof regex === 'string' ? [] : regex.flags.split(''),
+    A.reduce(E.right<P.ParseError, Flags>(monoidFlags.empty), (flags, flag) =>
+      pipe(
+        flags,
+        E.chain((f) =>
+          Object.prototype.hasOwnProperty.call(flagNames, flag)
+            ? E.right({ ...f, [flagNames[flag]]: true })
+            : E.left({ index: source.length, message: `Unsupported flag '${flag}'` })
+        )
+      )
+    ),
+    E.chain((flags) =>
+      pipe(
+        source,
+        P.parse(syntaxOf(flags)),
+        E.map(
+          (ast): ExpressionBuilder =>
+            pipe(
+              compile,
+              term(ast),
+              T.map((e) => ({ ...e, flags: monoidFlags.concat(e.flags, flags) }))
+            )
+        )
+      )
+    )
+  )
+}
+
+/**
+ * Constructs an expression builder which adds the tokens and the flags of the expression.
+ *
+ * @category constructors
+ * @since 0.1.0
+ */
+export const fromExpression: (expression: Expression) => ExpressionBuilder = (expression) => (p) =>
+  monoidExpression.concat(p, expression)
+
+const concatLiterals: (nodes: ReadonlyArray<AST.Ast>) => AST.Ast = (nodes) =>
+  nodes.reduceRight((rest, node) => prepend(node, rest), AST.empty)
+
+// Any single character, including a line terminator
+const anyCharacter: AST.Ast = AST.characterClass(true, [])
+
+// The index after the character at `i`, or after the whole of the bracket expression or
+// the escaped character which begins at `i`
+const skipGlob: (chars: ReadonlyArray<string>, escapes: boolean) => (i: number) => number = (chars, escapes) => (i) =>
+  chars[i] === '\\' && escapes && i + 1 < chars.length
+    ? i + 2
+    : chars[i] === '['
+    ? pipe(
+        closingBracket(chars, escapes)(i),
+        O.fold(
+          () => i + 1,
+          (j) => j + 1
+        )
+      )
+    : i + 1
+
+const closingBracket: (chars: ReadonlyArray<string>, escapes: boolean) => (i: number) => O.Option<number> = (
+  chars,
+  escapes
+) => (i) => {
+  const first = chars[i + 1] === '!' || chars[i + 1] === '^' ? i + 2 : i + 1
+  // A bracket which closes the expression immediately is a member of it
+  for (let j = chars[first] === ']' ? first + 1 : first; j < chars.length; j += chars[j] === '\\' && escapes ? 2 : 1) {
+    if (chars[j] === ']') {
+      return O.some(j)
+    }
+  }
+  return O.none
+}
+
+// The indices of the commas which separate the alternatives of the braces at `i`, followed
+// by the index of the closing brace
+const braceDelimiters: (
+  chars: ReadonlyArray<string>,
+  escapes: boolean
+) => (i: number) => O.Option<ReadonlyArray<number>> = (chars, escapes) => (i) => {
+  const delimiters: Array<number> = []
+  let depth = 0
+  for (let j = i + 1; j < chars.length; j = skipGlob(chars, escapes)(j)) {
+    if (chars[j] === '}' && depth === 0) {
+      delimiters.push(j)
+      return O.some(delimiters)
+    }
+    if (chars[j] === ',' && depth === 0) {
+      delimiters.push(j)
+    }
+    depth += chars[j] === '{' ? 1 : chars[j] === '}' ? -1 : 0
+  }
+  return O.none
+}
+
+const globClass: (
+  chars: ReadonlyArray<string>,
+  escapes: boolean,
+  separators: string
+) => (i: number, to: number) => AST.Ast = (chars, escapes, separators) => (i, to) => {
+  const negated = chars[i + 1] === '!' || chars[i + 1] === '^'
+  const members: Array<AST.ClassMember> = []
+  for (let j = negated ? i + 2 : i + 1; j < to; ) {
+    const from = chars[j] === '\\' && escapes ? j + 1 : j
+    const dash = from + 1
+    if (chars[dash] === '-' && dash + 1 < to) {
+      const end = chars[dash + 1] === '\\' && escapes && dash + 2 < to ? dash + 2 : dash + 1
+      members.push(AST.classRange(chars[from], chars[end]))
+      j = end + 1
+    } else {
+      members.push(AST.classCharacters(chars[from]))
+      j = from + 1
+    }
+  }
+  // A negated class never matches a separator
+  return AST.characterClass(
+    negated,
+    negated && separators !== '' ? [...members, AST.classCharacters(separators)] : members
+  )
+}
+
+const globNodes: (
+  chars: ReadonlyArray<string>,
+  separators: string
+) => (from: number, to: number) => ReadonlyArray<AST.Ast> = (chars, separators) => (from, to) => {
+  const escapes = !separators.includes('\\')
+  const isSeparator = (i: number) => i < chars.length && separators.includes(chars[i])
+  const separator =
+    separators.length === 1 ? AST.literal(separators) : AST.characterClass(false, [AST.classCharacters(separators)])
+  const segment = AST.characterClass(true, separators === '' ? [] : [AST.classCharacters(separators)])
+  const endsInGlobstar = (a: number, b: number) =>
+    b - a >= 2 && chars[b - 1] === '*' && chars[b - 2] === '*' && (b - 2 === a || isSeparator(b - 3))
+  const nodes: Array<AST.Ast> = []
+  for (let i = from; i < to; ) {
+    const c = chars[i]
+    if (c === '\\' && escapes && i + 1 < to) {
+      nodes.push(AST.literal(chars[i + 1]))
+      i += 2
+    } else if (c === '*') {
+      let j = i
+      while (j < to && chars[j] === '*') {
+        j += 1
+      }
+      // Two stars which are a whole segment, of the glob or of an alternative within braces,
+      // match any number of segments
+      const globstar = j - i === 2 && (i === from || isSeparator(i - 1))
+      if (globstar && isSeparator(j) && separators !== '') {
+        nodes.push(
+          AST.quantifier(
+            AST.group(AST.sequence([AST.quantifier(segment, 1, Infinity, false), separator])),
+            0,
+            Infinity,
+            false
+          )
+        )
+        i = j + 1
+      } else {
+        nodes.push(AST.quantifier(globstar && j === to ? anyCharacter : segment, 0, Infinity, false))
+        i = j
+      }
+    } else if (c === '?') {
+      nodes.push(segment)
+      i += 1
+    } else if (c === '[' || c === '{') {
+      const start = i
+      i = pipe(
+        c === '[' ? pipe(closingBracket(chars, escapes)(start), O.map(A.of)) : braceDelimiters(chars, escapes)(start),
+        O.fold(
+          () => {
+            nodes.push(AST.literal(c))
+            return start + 1
+          },
+          (delimiters) => {
+            const end = delimiters[delimiters.length - 1]
+            if (c === '[') {
+              nodes.push(globClass(chars, escapes, separators)(start, end))
+              return end + 1
+            }
+            const alternatives = delimiters.map((delimiter, k) => [
+              k === 0 ? start + 1 : delimiters[k - 1] + 1,
+              delimiter
+            ])
+            // A separator which follows the braces is matched within each alternative, so that
+            // one which ends in two stars as a whole segment may match no segments at all
+            const distributed = isSeparator(end + 1) && alternatives.some(([a, b]) => endsInGlobstar(a, b))
+            nodes.push(
+              AST.group(
+                toAlternation(
+                  alternatives.map(([a, b]) =>
+                    concatLiterals(
+                      distributed
+                        ? globNodes([...chars.slice(a, b), chars[end + 1]], separators)(0, b - a + 1)
+                        : globNodes(chars, separators)(a, b)
+                    )
+                  )
+                )
+              )
+            )
+            return distributed ? end + 2 : end + 1
+          }
+        )
+      )
+    } else {
+      nodes.push(isSeparator(i) ? separator : AST.literal(c))
+      i += 1
+    }
+  }
+  return nodes
+}
+
+/**
+ * Converts a glob into an equivalent expression, which matches the whole of a path when
+ * it is anchored.
+ *
+ * - `*` matches any characters within a segment of the path, and `?` matches any one
+ * - `**` as a whole segment matches any number of segments
+ * - `[...]` matches any one of the characters or ranges, unless it begins with `!` or `^`
+ * - `{a,b}` matches any one of the comma-separated globs
+ * - `\` matches the character following it literally
+ *
+ * A bracket or brace which is not closed is matched literally.
+ *
+ * @example
+ * import { pipe } from 'fp-ts/lib/function'
+ * import * as E from 'expressive-ts/lib/Expression'
+ *
+ * const sources = pipe(E.compile, E.startOfInput, E.sequence([E.fromGlob('src/**' + '/*.{ts,tsx}')]), E.endOfInput)
+ *
+ * assert.strictEqual(pipe(sources, E.toRegexString), '/^src\\/(?:[^\\/]+\\/)*[^\\/]*\\.(?:ts|tsx)$/')
+ * assert.strictEqual(pipe(sources, E.toRegex).test('src/lib/index.ts'), true)
+ * assert.strictEqual(pipe(sources, E.toRegex).test('test/index.ts'), false)
+ *
+ * @category constructors
+ * @since 0.1.0
+ */
+export const fromGlob: (glob: string, options?: Glob) => ExpressionBuilder = (glob, options = {}) => {
+  const chars = Array.from(glob)
+  return pipe(
+    compile,
+    term(named('fromGlob')(concatLiterals(globNodes(chars, options.separators ?? '/')(0, chars.length))))
+  )
+}
+
+/**
+ * Converts a pattern of the SQL `LIKE` operator into an equivalent expression, which
+ * matches the whole of a string when it is anchored. `%` matches any characters, `_`
+ * matches any one, and the escape character, if any, causes the character following it to
+ * be matched literally.
+ *
+ * @example
+ * import { pipe } from 'fp-ts/lib/function'
+ * import * as E from 'expressive-ts/lib/Expression'
+ *
+ * assert.strictEqual(pipe(E.fromLike('100!%_', { escape: '!' }), E.toRegexString), '/100%[^]/')
+ *
+ * @category constructors
+ * @since 0.1.0
+ */
+export const fromLike: (pattern: string, options?: Like) => ExpressionBuilder = (pattern, options = {}) => {
+  const chars = Array.from(pattern)
+  const nodes: Array<AST.Ast> = []
+  for (let i = 0; i < chars.length; i += 1) {
+    const c = chars[i]
+    if (c === options.escape && i + 1 < chars.length) {
+      nodes.push(AST.literal(chars[i + 1]))
+      i += 1
+    } else {
+      nodes.push(
+        c === '%' ? AST.quantifier(anyCharacter, 0, Infinity, false) : c === '_' ? anyCharacter : AST.literal(c)
+      )
+    }
+  }
+  return pipe(compile, term(named('fromLike')(concatLiterals(nodes))))
+}
+
+// Each value which is interpolated into a template is marked by a character of the private
+// use area which does not occur in the template
+const placeholders: (source: string, n: number) => ReadonlyArray<string> = (source, n) => {
+  const chars: Array<string> = []
+  for (let c = 0xe000; chars.length < n; c += 1) {
+    if (!source.includes(String.fromCharCode(c))) {
+      chars.push(String.fromCharCode(c))
+    }
+  }
+  return chars
+}
+
+// The characters to which the literals and the classes of a syntax tree are decoded
+const decoded: (ast: AST.Ast) => string = AST.reduce('', (s, node) =>
+  node._tag === 'Literal'
+    ? `${s}${node.value}`
+    : node._tag === 'CharacterClass'
+    ? `${s}${CC.characters(node).join('')}`
+    : s
+)
+
+// Parses a template with a placeholder in place of each value. A placeholder may also be
+// produced by an escape of the template, such as `\uE000`, in which case the template is
+// parsed again with other placeholders.
+const parseTemplate = (
+  syntax: P.Syntax,
+  literals: ReadonlyArray<string>,
+  excluded: string
+): E.Either<P.ParseError, readonly [ReadonlyArray<string>, AST.Ast]> => {
+  const holes = placeholders(`${excluded}${literals.join('')}`, literals.length - 1)
+  return pipe(
+    literals.map((part, i) => (i === 0 ? part : `${holes[i - 1]}${part}`)).join(''),
+    P.parse(syntax),
+    E.chain((ast) => {
+      const text = decoded(ast)
+      const escaped = holes.filter((hole) => text.split(hole).length > 2)
+      return escaped.length > 0
+        ? parseTemplate(syntax, literals, `${excluded}${escaped.join('')}`)
+        : E.right([holes, ast] as const)
+    })
+  )
+}
+
+// Replaces each placeholder within a literal by the syntax tree of the value which it marks
+const fill: (holes: ReadonlyArray<string>, nodes: ReadonlyArray<AST.Ast>) => Endomorphism<AST.Ast> = (holes, nodes) => (
+  ast
+) => {
+  const go = fill(holes, nodes)
+  switch (ast._tag) {
+    case 'Sequence':
+      return AST.sequence(ast.nodes.map(go))
+    case 'Alternation':
+      return AST.alternation(ast.alternatives.map(go))
+    case 'Literal':
+      return concatLiterals(
+        Array.from(ast.value).map((c) => (holes.indexOf(c) === -1 ? AST.literal(c) : nodes[holes.indexOf(c)]))
+      )
+    case 'Group':
+    case 'Capture':
+    case 'Quantifier':
+    case 'Lookaround':
+      return { ...ast, node: go(ast.node) }
+    default:
+      return ast
+  }
+}
+
+// The named capturing groups declared by the expressions which are interpolated into a
+// template, if any
+// eslint-disable-next-line @typescript-eslint/ban-types
+type InterpolatedGroups<S extends ReadonlyArray<unknown>> = {} & GroupsOf<Extract<S[number], ExpressionBuilder<any>>>
+
+/**
+ * Parses a template literal into an expression, which may continue with any of the
+ * combinators. The literal parts of the template are a pattern as accepted by the `RegExp`
+ * constructor, in which a backslash does not need to be escaped. An interpolated string is
+ * matched literally, as by `string`, and an interpolated expression is embedded as a
+ * group, whose flags are set on the whole expression.
+ *
+ * The pattern is parsed with the syntax which is allowed by the flags of the whole
+ * expression, so that, for example, `\u{1F600}` is a code point once the `unicode` flag is
+ * set. A value cannot be interpolated into a character class. If the template is invalid,
+ * so is the expression.
+ *
+ * Only the named capturing groups of the interpolated expressions are tracked by the type
+ * of the expression, as TypeScript does not infer the literal parts of a template. The
+ * names of the groups declared by the literal parts are still checked when the expression
+ * is destructed.
+ *
+ * @example
+ * import { pipe } from 'fp-ts/lib/function'
+ * import * as E from 'expressive-ts/lib/Expression'
+ *
+ * const year = pipe(E.compile, E.digit, E.exactly(4))
+ *
+ * assert.strictEqual(
+ *   pipe(E.regex`^${year}-\d{2} (${'v1.0'})?$`, E.caseInsensitive, E.toRegexString),
+ *   '/^(?:\\d{4})-\\d{2} (v1\\.0)?$/i'
+ * )
+ * assert.strictEqual(pipe(E.regex`[${'a'}]`, E.toRegexEither)._tag, 'Left')
+ *
+ * @category constructors
+ * @since 0.1.0
+ */
+export const regex: <S extends ReadonlyArray<string | ExpressionBuilder<any>>>(
+  literals: TemplateStringsArray,
+  ...values: S
+) => ExpressionBuilder<InterpolatedGroups<S>> = (literals, ...values) => (p) => {
+  const pattern = literals.raw.join(`\${...}`)
+  // The flags which are set after the template, or by the interpolated expressions
+  const flags = M.fold(monoidFlags)([
+    p.flags,
+    ...values.map((value) => (typeof value === 'string' ? monoidFlags.empty : value(monoidExpression.empty).flags))
+  ])
+  return pipe(
+    parseTemplate(syntaxOf(flags), literals.raw, ''),
+    E.mapLeft(
+      (error): ExpressionError => ({
+        _tag: 'InvalidPattern',
+        pattern,
+        message: `Invalid regular expression: /${pattern}/: ${error.message}`
+      })
+    ),
+    E.chain(([holes, ast]) => {
+      const text = AST.reduce('', (s, node) => (node._tag === 'Literal' ? `${s}${node.value}` : s))(ast)
+      return holes.every((hole) => text.includes(hole))
+        ? E.right([holes, ast] as const)
+        : E.left<ExpressionError, readonly [ReadonlyArray<string>, AST.Ast]>({
+            _tag: 'InvalidPattern',
+            pattern,
+            message: `Invalid regular expression: /${pattern}/: Interpolation within a character class`
+          })
+    }),
+    E.fold(
+      (error) => pipe(compile, add({ _tag: 'Invalid', error })),
+      ([holes, ast]) =>
+        pipe(
+          compile,
+          embed((nodes) =>
+            fill(
+              holes,
+              nodes.map((node, i) => (typeof values[i] === 'string' ? node : AST.group(node)))
+            )(ast)
+          )(values.map((value) => (typeof value === 'string' ? pipe(compile, term(AST.literal(value))) : value)))
+        )
+    )
+  )(p)
 }
 
 // -------------------------------------------------------------------------------------
@@ -119,21 +947,372 @@ const toFlags: (flags: Flags) => string = (flags) => {
   s += flags.caseInsensitive ? 'i' : ''
   s += flags.lineByLine ? 'm' : ''
   s += flags.singleLine ? 's' : ''
-  s += flags.unicode ? 'u' : ''
+  s += flags.unicodeSets ? 'v' : flags.unicode ? 'u' : ''
   s += flags.sticky ? 'y' : ''
   return s
 }
 
+// While the tokens of an expression are resolved into a syntax tree, each open group is
+// tracked by a frame which holds the alternatives seen so far within that group
+interface Frame {
+  readonly kind: 'Root' | 'Capture' | 'Or'
+  // The index of the token at which the group begins
+  readonly index: number
+  readonly alternatives: RNEA.ReadonlyNonEmptyArray<ReadonlyArray<AST.Ast>>
+}
+
+type Stack = RNEA.ReadonlyNonEmptyArray<Frame>
+
+const frame: (kind: Frame['kind'], index: number) => Frame = (kind, index) => ({ kind, index, alternatives: [[]] })
+
+const locate: (index: number) => Endomorphism<ExpressionError> = (index) => (error) => ({ ...error, index })
+
+const updateLast = <A>(f: Endomorphism<A>) => (as: RNEA.ReadonlyNonEmptyArray<A>): RNEA.ReadonlyNonEmptyArray<A> =>
+  RNEA.snoc(RNEA.init(as), f(RNEA.last(as)))
+
+const updateNodes: (f: Endomorphism<ReadonlyArray<AST.Ast>>) => Endomorphism<Stack> = (f) =>
+  updateLast((current) => ({ ...current, alternatives: updateLast(f)(current.alternatives) }))
+
+const push: (ast: AST.Ast) => Endomorphism<Stack> = (ast) => updateNodes((nodes) => A.snoc(nodes, ast))
+
+const toNode: (nodes: ReadonlyArray<AST.Ast>) => AST.Ast = (nodes) =>
+  nodes.length === 1 ? nodes[0] : AST.sequence(nodes)
+
+const toAlternation: (alternatives: ReadonlyArray<AST.Ast>) => AST.Ast = (alternatives) =>
+  alternatives.length === 1 ? alternatives[0] : AST.alternation(alternatives)
+
+const close: (frame: Frame) => AST.Ast = (current) => toAlternation(current.alternatives.map(toNode))
+
+// Closes the innermost open group, adding it to the group which encloses it
+const pop: (stack: Stack) => O.Option<Stack> = (stack) => {
+  const current = RNEA.last(stack)
+  const node = close(current)
+  return pipe(
+    RNEA.fromReadonlyArray(RNEA.init(stack)),
+    O.map(push(current.kind === 'Capture' ? AST.capture(node) : AST.group(node)))
+  )
+}
+
+const closeCapture: (stack: Stack) => E.Either<ExpressionError, Stack> = (stack) =>
+  pipe(
+    pop(stack),
+    E.fromOption((): ExpressionError => ({ _tag: 'UnmatchedEndCapture' })),
+    E.chain((popped) => (RNEA.last(stack).kind === 'Capture' ? E.right(popped) : closeCapture(popped)))
+  )
+
+const end: (stack: Stack) => E.Either<ExpressionError, AST.Ast> = (stack) =>
+  RNEA.last(stack).kind === 'Capture'
+    ? E.left({ _tag: 'UnterminatedGroup', index: RNEA.last(stack).index })
+    : pipe(
+        pop(stack),
+        O.fold(() => E.right(close(RNEA.head(stack))), end)
+      )
+
+const step: (stack: Stack, token: Token, index: number) => E.Either<ExpressionError, Stack> = (stack, token, index) => {
+  switch (token._tag) {
+    case 'Term':
+      return E.right(push(token.ast)(stack))
+    case 'BeginCapture':
+      return E.right(RNEA.snoc(stack, frame('Capture', index)))
+    case 'EndCapture':
+      return closeCapture(stack)
+    case 'Alternate':
+      return E.right(
+        updateLast<Frame>((current) => ({ ...current, alternatives: RNEA.snoc(current.alternatives, []) }))(stack)
+      )
+    case 'Or':
+      return E.right(
+        RNEA.snoc(
+          updateLast<Frame>((current) => ({ ...current, alternatives: [[AST.group(close(current))], []] }))(stack),
+          frame('Or', index)
+        )
+      )
+    case 'Invalid':
+      return E.left(token.error)
+    default: {
+      const [init, last] = pipe(
+        RNEA.fromReadonlyArray(RNEA.last(RNEA.last(stack).alternatives)),
+        O.fold(
+          (): readonly [ReadonlyArray<AST.Ast>, AST.Ast] => [[], AST.empty],
+          (nodes) => [RNEA.init(nodes), RNEA.last(nodes)]
+        )
+      )
+      const quantifier = repeatNode(token.combinator, last, token.min, token.max, token.lazy)
+      return pipe(
+        checkQuantifier(quantifier),
+        O.fold(() => E.right(updateNodes(() => A.snoc(init, quantifier))(stack)), E.left)
+      )
+    }
+  }
+}
+
+const isCount: (n: number) => boolean = (n) => Number.isInteger(n) && n >= 0
+
+const unwrapGroups: (ast: AST.Ast) => AST.Ast = (ast) => (ast._tag === 'Group' ? unwrapGroups(ast.node) : ast)
+
+// An unbounded quantifier which directly repeats another is merged with it, as `(?:x+)+`
+// matches the same text as `x+` but can backtrack exponentially. Repeating `x{a,}` at least
+// `b` times matches `x{ab,}`, or, if `b` is zero, `x*` as long as `a` is at most one.
+// The quantifier records the combinator which constructs it.
+const repeatNode: (combinator: string, node: AST.Ast, min: number, max: number, lazy: boolean) => AST.Quantifier = (
+  combinator,
+  node,
+  min,
+  max,
+  lazy
+) => {
+  const inner = unwrapGroups(node)
+  return inner._tag === 'Quantifier' &&
+    inner.max === Infinity &&
+    max === Infinity &&
+    inner.lazy === lazy &&
+    isCount(inner.min) &&
+    isCount(min) &&
+    (min > 0 || inner.min <= 1)
+    ? { _tag: 'Quantifier', node: inner.node, min: inner.min * min, max, lazy, combinator: O.some(combinator) }
+    : { _tag: 'Quantifier', node, min, max, lazy, combinator: O.some(combinator) }
+}
+
+// Records the combinator which constructed each of the quantifiers of a term
+const named: (combinator: string) => Endomorphism<AST.Ast> = (combinator) => (ast) => {
+  const go = named(combinator)
+  switch (ast._tag) {
+    case 'Sequence':
+      return AST.sequence(ast.nodes.map(go))
+    case 'Alternation':
+      return AST.alternation(ast.alternatives.map(go))
+    case 'Group':
+    case 'Capture':
+    case 'Lookaround':
+      return { ...ast, node: go(ast.node) }
+    case 'Quantifier':
+      return { ...ast, node: go(ast.node), combinator: O.some(combinator) }
+    default:
+      return ast
+  }
+}
+
+const isCharacter: (c: string) => boolean = (c) =>
+  c.length > 0 && String.fromCodePoint(c.codePointAt(0) as number) === c
+
+const classMembers: (ast: AST.CharacterClass) => ReadonlyArray<AST.ClassMember> = (ast) =>
+  pipe(
+    ast.members,
+    A.chain((member) => {
+      switch (member._tag) {
+        case 'ClassNested':
+          return A.cons(member, classMembers(member.node))
+        case 'ClassSetOperation':
+          return A.cons(member, [...classMembers(member.left), ...classMembers(member.right)])
+        default:
+          return [member]
+      }
+    })
+  )
+
+// Every range within a character class must be in order, and every feature of a character
+// class must be enabled by the flags
+const checkMember: (flags: Flags) => (member: AST.ClassMember) => O.Option<ExpressionError> = (flags) => (member) => {
+  switch (member._tag) {
+    case 'ClassRange':
+      return isCharacter(member.from) &&
+        isCharacter(member.to) &&
+        (member.from.codePointAt(0) as number) <= (member.to.codePointAt(0) as number)
+        ? O.none
+        : O.some({ _tag: 'InvalidRange', from: member.from, to: member.to })
+    case 'ClassProperty':
+      return flags.unicode || flags.unicodeSets ? O.none : O.some({ _tag: 'MissingFlag', flag: 'unicode' })
+    case 'ClassNested':
+    case 'ClassSetOperation':
+      return flags.unicodeSets ? O.none : O.some({ _tag: 'MissingFlag', flag: 'unicodeSets' })
+    default:
+      return O.none
+  }
+}
+
+// Every quantifier must repeat something a valid number of times
+const checkQuantifier: (ast: AST.Quantifier) => O.Option<ExpressionError> = (ast) => {
+  if (AST.render(ast.node) === '') {
+    return O.some({ _tag: 'NothingToRepeat', quantifier: AST.render({ ...ast, node: AST.empty }) })
+  }
+  return isCount(ast.min) && (ast.max === Infinity || (isCount(ast.max) && ast.max >= ast.min))
+    ? O.none
+    : O.some({ _tag: 'InvalidQuantifier', min: ast.min, max: ast.max })
+}
+
+const checkNode: (flags: Flags) => (ast: AST.Ast) => O.Option<ExpressionError> = (flags) => (ast) => {
+  switch (ast._tag) {
+    case 'Quantifier':
+      return checkQuantifier(ast)
+    case 'CharacterClass':
+      return pipe(classMembers(ast), A.findFirstMap(checkMember(flags)))
+    default:
+      return O.none
+  }
+}
+
+const checkNodes: (flags: Flags) => (ast: AST.Ast) => E.Either<ExpressionError, AST.Ast> = (flags) => (ast) =>
+  pipe(
+    ast,
+    AST.reduce<ReadonlyArray<AST.Ast>>([], A.snoc),
+    A.findFirstMap(checkNode(flags)),
+    O.fold(() => E.right(ast), E.left)
+  )
+
+// Every capturing group must have a unique name which is an identifier, and every
+// backreference must refer to a capturing group which exists, given the names which are
+// declared before the term and the capturing groups of the entire expression
+const checkGroups: (
+  captures: ReadonlyArray<O.Option<string>>
+) => (declared: ReadonlyArray<string>, ast: AST.Ast) => E.Either<ExpressionError, ReadonlyArray<string>> = (
+  captures
+) => (declared, ast) => {
+  const names = A.compact(captures)
+  const references = pipe(
+    ast,
+    AST.reduce<ReadonlyArray<AST.Backreference>>([], (nodes, node) =>
+      node._tag === 'Backreference' ? A.snoc(nodes, node) : nodes
+    )
+  )
+  return pipe(
+    A.compact(AST.captures(ast)),
+    A.reduce(E.right<ExpressionError, ReadonlyArray<string>>(declared), (acc, name) =>
+      pipe(
+        acc,
+        E.filterOrElse(
+          () => P.isGroupName(name),
+          (): ExpressionError => ({ _tag: 'InvalidGroupName', name })
+        ),
+        E.filterOrElse(
+          (seen) => !seen.includes(name),
+          (): ExpressionError => ({ _tag: 'DuplicateGroupName', name })
+        ),
+        E.map((seen) => A.snoc(seen, name))
+      )
+    ),
+    E.chainFirst(() =>
+      pipe(
+        references,
+        A.findFirst((reference) =>
+          typeof reference.group === 'number'
+            ? !Number.isInteger(reference.group) || reference.group < 1 || reference.group > captures.length
+            : names.indexOf(reference.group) === -1
+        ),
+        O.fold(
+          () => E.right(undefined),
+          (reference) => E.left({ _tag: 'InvalidBackreference', reference: reference.group })
+        )
+      )
+    )
+  )
+}
+
+const resolve: (tokens: ReadonlyArray<Token>) => E.Either<ExpressionError, AST.Ast> = (tokens) =>
+  pipe(
+    tokens,
+    A.reduceWithIndex(
+      E.right<ExpressionError, Stack>([frame('Root', 0)]),
+      (i, stack, token) =>
+        pipe(
+          stack,
+          E.chain((s) => pipe(step(s, token, i), E.mapLeft(locate(i))))
+        )
+    ),
+    E.chain(end)
+  )
+
+// The syntax tree of a sub-expression is only checked as part of the entire expression,
+// which determines the flags and the capturing groups that are available to it. Each term
+// is checked on its own, so that an error is located at the token which produced it.
+const build: (expression: Expression) => E.Either<ExpressionError, AST.Ast> = ({ tokens, flags }) =>
+  pipe(
+    resolve(tokens),
+    E.chainFirst((ast) =>
+      pipe(
+        tokens,
+        A.reduceWithIndex(E.right<ExpressionError, ReadonlyArray<string>>([]), (i, declared, token) =>
+          token._tag === 'Term'
+            ? pipe(
+                declared,
+                E.chain((names) =>
+                  pipe(
+                    checkNodes(flags)(token.ast),
+                    E.chain((node) => checkGroups(AST.captures(ast))(names, node)),
+                    E.mapLeft(locate(i))
+                  )
+                )
+              )
+            : declared
+        )
+      )
+    )
+  )
+
+const orThrow: <A>(ma: E.Either<ExpressionError, A>) => A = E.fold((error) => {
+  throw new SyntaxError(showExpressionError.show(error))
+}, identity)
+
 /**
  * @category destructors
- * @since 0.0.1
+ * @since 0.1.0
+ */
+export const toAst: (builder: ExpressionBuilder) => AST.Ast = (builder) =>
+  orThrow(build(builder(monoidExpression.empty)))
+
+/**
+ * Compiles the expression into a regular expression, or describes why it is invalid.
+ *
+ * @example
+ * import { pipe } from 'fp-ts/lib/function'
+ * import * as Ei from 'fp-ts/lib/Either'
+ * import * as E from 'expressive-ts/lib/Expression'
+ *
+ * assert.deepStrictEqual(
+ *   pipe(E.compile, E.digit, E.between(5, 2), E.toRegexEither),
+ *   Ei.left({ _tag: 'InvalidQuantifier', min: 5, max: 2, index: 1 })
+ * )
+ *
+ * @category destructors
+ * @since 0.1.0
  */
-export const toRegex: (builder: ExpressionBuilder) => RegExp = (builder) => {
+export const toRegexEither: (builder: ExpressionBuilder) => E.Either<ExpressionError, RegExp> = (builder) => {
   const expression = builder(monoidExpression.empty)
-  const flags = toFlags(expression.flags)
-  return new RegExp(expression.pattern, flags)
+  return pipe(
+    build(expression),
+    E.map(expression.flags.unicode || expression.flags.unicodeSets ? AST.renderUnicode : AST.render),
+    E.chain((pattern) =>
+      E.tryCatch(
+        () => new RegExp(pattern, toFlags(expression.flags)),
+        (error): ExpressionError => ({ _tag: 'InvalidPattern', pattern, message: (error as Error).message })
+      )
+    )
+  )
 }
 
+/**
+ * Returns the expression if it compiles into a regular expression, or describes why it
+ * is invalid.
+ *
+ * @category destructors
+ * @since 0.1.0
+ */
+export const validate: <G>(builder: ExpressionBuilder<G>) => E.Either<ExpressionError, ExpressionBuilder<G>> = (
+  builder
+) =>
+  pipe(
+    toRegexEither(builder),
+    E.map(() => builder)
+  )
+
+/**
+ * Compiles the expression into a regular expression, throwing a `SyntaxError` if it is
+ * invalid.
+ *
+ * @category destructors
+ * @since 0.0.1
+ */
+export const toRegex: (builder: ExpressionBuilder) => RegExp = flow(toRegexEither, orThrow)
+
 /**
  * @category destructors
  * @since 0.0.1
@@ -188,64 +1367,104 @@ export const withSticky: (flag: boolean) => (wa: ExpressionBuilder) => Expressio
 export const withUnicode: (flag: boolean) => (wa: ExpressionBuilder) => Expression = (flag) => (wa) =>
   wa({ ...monoidExpression.empty, flags: { ...monoidFlags.empty, unicode: flag } })
 
+/**
+ * @category pipeables
+ * @since 0.1.0
+ */
+export const withUnicodeSets: (flag: boolean) => (wa: ExpressionBuilder) => Expression = (flag) => (wa) =>
+  wa({ ...monoidExpression.empty, flags: { ...monoidFlags.empty, unicodeSets: flag } })
+
 // -------------------------------------------------------------------------------------
 // combinators
 // -------------------------------------------------------------------------------------
 
-const add: (value: string) => Endomorphism<ExpressionBuilder> = (value) =>
+const add: (token: Token) => Endomorphism<T.Traced<Expression, Expression>> = (token) =>
   T.map((e) => ({
     ...e,
-    source: M.fold(M.monoidString)([e.source, value]),
-    pattern: M.fold(M.monoidString)([e.prefix, e.source, value, e.suffix])
+    tokens: A.snoc(e.tokens, token)
   }))
 
-const prefix: (value: string) => Endomorphism<ExpressionBuilder> = (value) =>
-  T.map((e) => ({
-    ...e,
-    prefix: M.fold(M.monoidString)([e.prefix, value])
-  }))
+const term: (ast: AST.Ast) => Endomorphism<T.Traced<Expression, Expression>> = (ast) => add({ _tag: 'Term', ast })
 
-const suffix: (value: string) => Endomorphism<ExpressionBuilder> = (value) =>
-  T.map((e) => ({
-    ...e,
-    suffix: M.fold(M.monoidString)([value, e.suffix])
-  }))
+const quantify: (
+  combinator: string,
+  min: number,
+  max: number,
+  lazy: boolean
+) => Endomorphism<T.Traced<Expression, Expression>> = (combinator, min, max, lazy) =>
+  add({ _tag: 'Quantify', combinator, min, max, lazy })
+
+// Resolves each of the sub-expressions to a syntax tree, which are then combined into a
+// single term, or else records why a sub-expression is invalid. The flags of the
+// sub-expressions are applied to the entire expression.
+const embed: (
+  f: (nodes: ReadonlyArray<AST.Ast>) => AST.Ast
+) => (subs: ReadonlyArray<T.Traced<Expression, Expression>>) => Endomorphism<T.Traced<Expression, Expression>> = (
+  f
+) => (subs) =>
+  T.map((e) => {
+    const expressions = subs.map((sub) => sub(monoidExpression.empty))
+    return {
+      tokens: A.snoc(
+        e.tokens,
+        pipe(
+          A.readonlyArray.traverse(E.either)(expressions, (expression) => resolve(expression.tokens)),
+          E.fold(
+            // The error is located at the token of the entire expression instead
+            ({ index, ...error }): Token => ({ _tag: 'Invalid', error }),
+            (nodes) => ({ _tag: 'Term', ast: f(nodes) })
+          )
+        )
+      ),
+      flags: M.fold(monoidFlags)([e.flags, ...expressions.map((expression) => expression.flags)])
+    }
+  })
 
 /**
  * @category combinators
  * @since 0.0.1
  */
-export const allowMultiple: Endomorphism<ExpressionBuilder> = (wa) => C.extend(wa, withMultiple(true))
+export const allowMultiple: Combinator = (wa) => C.extend(wa, withMultiple(true))
 
 /**
  * @category combinators
  * @since 0.0.1
  */
-export const caseInsensitive: Endomorphism<ExpressionBuilder> = (wa) => C.extend(wa, withCaseInsensitive(true))
+export const caseInsensitive: Combinator = (wa) => C.extend(wa, withCaseInsensitive(true))
 
 /**
  * @category combinators
  * @since 0.0.1
  */
-export const lineByLine: Endomorphism<ExpressionBuilder> = (wa) => C.extend(wa, withLineByLine(true))
+export const lineByLine: Combinator = (wa) => C.extend(wa, withLineByLine(true))
 
 /**
  * @category combinators
  * @since 0.0.1
  */
-export const singleLine: Endomorphism<ExpressionBuilder> = (wa) => C.extend(wa, withSingleLine(true))
+export const singleLine: Combinator = (wa) => C.extend(wa, withSingleLine(true))
 
 /**
  * @category combinators
  * @since 0.0.1
  */
-export const sticky: Endomorphism<ExpressionBuilder> = (wa) => C.extend(wa, withSticky(true))
+export const sticky: Combinator = (wa) => C.extend(wa, withSticky(true))
 
 /**
  * @category combinators
  * @since 0.0.1
  */
-export const unicode: Endomorphism<ExpressionBuilder> = (wa) => C.extend(wa, withUnicode(true))
+export const unicode: Combinator = (wa) => C.extend(wa, withUnicode(true))
+
+/**
+ * Sets the `v` flag, which is only supported by recent engines, such as Node.js 20 or later.
+ * An older engine rejects the expression, which `toRegexEither` reports as an
+ * `InvalidPattern`.
+ *
+ * @category combinators
+ * @since 0.1.0
+ */
+export const unicodeSets: Combinator = (wa) => C.extend(wa, withUnicodeSets(true))
 
 /**
  * @category combinators
@@ -257,176 +1476,690 @@ export const compile: ExpressionBuilder = identity
  * @category combinators
  * @since 0.0.1
  */
-export const startOfInput: Endomorphism<ExpressionBuilder> = add('^')
+export const startOfInput: Combinator = term(AST.anchor('start'))
 
 /**
  * @category combinators
  * @since 0.0.1
  */
-export const endOfInput: Endomorphism<ExpressionBuilder> = add('$')
+export const endOfInput: Combinator = term(AST.anchor('end'))
 
 /**
  * @category combinators
  * @since 0.0.1
  */
-export const string: (value: string) => Endomorphism<ExpressionBuilder> = (value) => add(`(?:${sanitize(value)})`)
+export const string: (value: string) => Combinator = (value) => term(AST.group(AST.literal(value)))
 
 /**
+ * Optionally matches either the specified string or sub-expression.
+ *
  * @category combinators
  * @since 0.0.1
  */
-export const maybe: (value: string) => Endomorphism<ExpressionBuilder> = (value) => add(`(?:${sanitize(value)})?`)
+export const maybe: {
+  (value: string): Combinator
+  <S>(sub: ExpressionBuilder<S>): <G>(wa: ExpressionBuilder<G>) => ExpressionBuilder<G & Partial<Groups<S>>>
+} = (value: string | T.Traced<Expression, Expression>) =>
+  typeof value === 'string'
+    ? term(repeatNode('maybe', AST.group(AST.literal(value)), 0, 1, false))
+    : embed(([node]) => repeatNode('maybe', AST.group(node), 0, 1, false))([value])
+
+/**
+ * Matches the sub-expression repeatedly, at least `min` and at most `max` times, which
+ * is unbounded by default. A lazy repetition matches as few times as possible.
+ *
+ * Unlike the quantifiers which apply to whatever precedes them, such as `oneOrMore`, the
+ * entire sub-expression is always repeated.
+ *
+ * @example
+ * import { pipe } from 'fp-ts/lib/function'
+ * import * as E from 'expressive-ts/lib/Expression'
+ *
+ * const expression = pipe(
+ *   E.compile,
+ *   E.repeat(pipe(E.compile, E.word, E.string('-')), { min: 2, max: 3 }),
+ *   E.word
+ * )
+ *
+ * assert.strictEqual(pipe(expression, E.toRegexString), '/(?:\\w+(?:-)){2,3}\\w+/')
+ *
+ * @category combinators
+ * @since 0.1.0
+ */
+export const repeat: <S>(
+  sub: ExpressionBuilder<S>,
+  repetition: Repetition
+) => <G>(wa: ExpressionBuilder<G>) => ExpressionBuilder<G & Partial<Groups<S>>> = (
+  sub,
+  { min, max = Infinity, lazy = false }
+) => embed(([node]) => repeatNode('repeat', node, min, max, lazy))([sub])
+
+/**
+ * Matches the sub-expression zero or more times.
+ *
+ * @category combinators
+ * @since 0.1.0
+ */
+export const many: <S>(
+  sub: ExpressionBuilder<S>
+) => <G>(wa: ExpressionBuilder<G>) => ExpressionBuilder<G & Partial<Groups<S>>> = (sub) =>
+  embed(([node]) => repeatNode('many', node, 0, Infinity, false))([sub])
+
+/**
+ * Matches the sub-expression one or more times.
+ *
+ * @category combinators
+ * @since 0.1.0
+ */
+export const many1: <S>(
+  sub: ExpressionBuilder<S>
+) => <G>(wa: ExpressionBuilder<G>) => ExpressionBuilder<G & Groups<S>> = (sub) =>
+  embed(([node]) => repeatNode('many1', node, 1, Infinity, false))([sub])
+
+/**
+ * Matches the sub-expression within a non-capturing group.
+ *
+ * @category combinators
+ * @since 0.1.0
+ */
+export const group: <S>(
+  sub: ExpressionBuilder<S>
+) => <G>(wa: ExpressionBuilder<G>) => ExpressionBuilder<G & Groups<S>> = (sub) =>
+  embed(([node]) => AST.group(node))([sub])
+
+/**
+ * Matches the sub-expression within a capturing group.
+ *
+ * @category combinators
+ * @since 0.1.0
+ */
+export const capture: <S>(
+  sub: ExpressionBuilder<S>
+) => <G>(wa: ExpressionBuilder<G>) => ExpressionBuilder<G & Groups<S>> = (sub) =>
+  embed(([node]) => AST.capture(node))([sub])
+
+/**
+ * Matches the sub-expression within a named capturing group.
+ *
+ * @category combinators
+ * @since 0.1.0
+ */
+export const namedCapture: <N extends string, S>(
+  name: N,
+  sub: ExpressionBuilder<S>
+) => <G>(wa: ExpressionBuilder<G>) => ExpressionBuilder<G & Groups<S> & { [K in N]: string }> = (name, sub) =>
+  P.isGroupName(name)
+    ? embed(([node]) => AST.namedCapture(name, node))([sub])
+    : add({ _tag: 'Invalid', error: { _tag: 'InvalidGroupName', name } })
+
+/**
+ * Matches the same text as was most recently matched by the capturing group with the
+ * specified number or name.
+ *
+ * @category combinators
+ * @since 0.1.0
+ */
+export const backreference: (reference: number | string) => Combinator = (reference) =>
+  typeof reference === 'string' && !P.isGroupName(reference)
+    ? add({ _tag: 'Invalid', error: { _tag: 'InvalidGroupName', name: reference } })
+    : term(AST.backreference(reference))
+
+/**
+ * Matches any one of the sub-expressions.
+ *
+ * @example
+ * import { pipe } from 'fp-ts/lib/function'
+ * import * as E from 'expressive-ts/lib/Expression'
+ *
+ * const http = pipe(E.compile, E.string('http'), E.maybe('s'))
+ * const ftp = pipe(E.compile, E.string('ftp'))
+ *
+ * assert.strictEqual(
+ *   pipe(E.compile, E.startOfInput, E.oneOf([http, ftp]), E.string('://'), E.toRegexString),
+ *   '/^(?:(?:http)(?:s)?|(?:ftp))(?:\\:\\/\\/)/'
+ * )
+ *
+ * @category combinators
+ * @since 0.1.0
+ */
+export const oneOf: <S extends RNEA.ReadonlyNonEmptyArray<ExpressionBuilder<any>>>(
+  subs: S
+) => <G>(wa: ExpressionBuilder<G>) => ExpressionBuilder<G & Partial<GroupsOf<S[number]>>> = embed((nodes) =>
+  AST.group(toAlternation(nodes))
+)
+
+/**
+ * Matches each of the sub-expressions one after the other.
+ *
+ * @category combinators
+ * @since 0.1.0
+ */
+export const sequence: <S extends readonly [] | ReadonlyArray<ExpressionBuilder<any>>>(
+  subs: S
+) => <G>(wa: ExpressionBuilder<G>) => ExpressionBuilder<G & GroupsOf<S[number]>> = embed(toNode)
 
 /**
  * @deprecated
  * @category combinators
  * @since 0.0.1
  */
-export const or: (value: string) => Endomorphism<ExpressionBuilder> = (value) =>
-  flow(prefix(`(?:`), suffix(`)`), add(`)|(?:`), string(value))
+export const or: (value: string) => AlternativeCombinator = (value) =>
+  flow(add({ _tag: 'Or' }), term(AST.group(AST.literal(value))))
 
 /**
  * @category combinators
  * @since 0.0.2
  */
-export const orExpression: Endomorphism<ExpressionBuilder> = add(`|`)
+export const orExpression: AlternativeCombinator = add({ _tag: 'Alternate' })
 
 /**
  * @category combinators
  * @since 0.0.1
  */
-export const anything: Endomorphism<ExpressionBuilder> = add(`(?:.*)`)
+export const anything: Combinator = term(
+  AST.group(repeatNode('anything', AST.characterType('any'), 0, Infinity, false))
+)
 
 /**
  * @category combinators
  * @since 0.0.1
  */
-export const anythingBut: (value: string) => Endomorphism<ExpressionBuilder> = (value) =>
-  add(`(?:[^${sanitize(value)}]*)`)
+export const anythingBut: (value: string) => Combinator = (value) =>
+  term(AST.group(repeatNode('anythingBut', AST.characterClass(true, [AST.classCharacters(value)]), 0, Infinity, false)))
 
 /**
  * @category combinators
  * @since 0.0.1
  */
-export const something: Endomorphism<ExpressionBuilder> = add(`(?:.+)`)
+export const something: Combinator = term(
+  AST.group(repeatNode('something', AST.characterType('any'), 1, Infinity, false))
+)
 
 /**
  * @category combinators
  * @since 0.0.1
  */
-export const somethingBut: (value: string) => Endomorphism<ExpressionBuilder> = (value) =>
-  add(`(?:[^${sanitize(value)}]+)`)
+export const somethingBut: (value: string) => Combinator = (value) =>
+  term(
+    AST.group(repeatNode('somethingBut', AST.characterClass(true, [AST.classCharacters(value)]), 1, Infinity, false))
+  )
 
 /**
  * @category combinators
  * @since 0.0.1
  */
-export const anyOf: (value: string) => Endomorphism<ExpressionBuilder> = (value) => add(`[${sanitize(value)}]`)
+export const anyOf: (value: string) => Combinator = (value) =>
+  term(AST.characterClass(false, [AST.classCharacters(value)]))
+
+// The strings of `oneOfStrings` are stored by character, so that strings with a common
+// prefix share the nodes of that prefix
+interface Trie {
+  readonly terminal: boolean
+  readonly children: Readonly<Record<string, Trie>>
+}
+
+const emptyTrie: Trie = { terminal: false, children: {} }
+
+const insert: (trie: Trie, characters: ReadonlyArray<string>) => Trie = (trie, characters) =>
+  characters.length === 0
+    ? { ...trie, terminal: true }
+    : {
+        ...trie,
+        children: {
+          ...trie.children,
+          [characters[0]]: insert(trie.children[characters[0]] ?? emptyTrie, characters.slice(1))
+        }
+      }
+
+// Both cases of a letter are matched by a class, unless either case is not a single unit
+const caseVariants: (c: string, ignoreCase: boolean) => O.Option<string> = (c, ignoreCase) => {
+  const upper = c.toUpperCase()
+  return ignoreCase && c.length === 1 && upper.length === 1 && upper !== c ? O.some(`${c}${upper}`) : O.none
+}
+
+const trieCharacter: (c: string, ignoreCase: boolean) => AST.Ast = (c, ignoreCase) =>
+  pipe(
+    caseVariants(c, ignoreCase),
+    O.fold(
+      () => AST.literal(c),
+      (variants) => AST.characterClass(false, [AST.classCharacters(variants)])
+    )
+  )
+
+const prepend: (node: AST.Ast, rest: AST.Ast) => AST.Ast = (node, rest) => {
+  const nodes = rest._tag === 'Sequence' ? rest.nodes : [rest]
+  if (nodes.length === 0) {
+    return node
+  }
+  const [first, ...others] = nodes
+  return node._tag === 'Literal' && first._tag === 'Literal'
+    ? toNode([AST.literal(`${node.value}${first.value}`), ...others])
+    : AST.sequence([node, ...nodes])
+}
+
+// The alternatives of a node begin with distinct characters, so only one of them can match
+// at any position, and a string which ends at the node is only matched if no longer string
+// is matched
+const fromTrie: (ignoreCase: boolean) => (trie: Trie) => AST.Ast = (ignoreCase) => (trie) => {
+  const keys = Object.keys(trie.children).sort()
+  // A single unit which ends every string that contains it can be merged into a class
+  const isLeaf = (key: string) => key.length === 1 && Object.keys(trie.children[key].children).length === 0
+  const leaves = keys.filter(isLeaf)
+  const characters =
+    leaves.length > 1
+      ? [
+          AST.characterClass(
+            false,
+            leaves.map((key) =>
+              pipe(
+                caseVariants(key, ignoreCase),
+                O.fold(
+                  () => AST.classCharacters(key),
+                  (variants) => AST.classCharacters(variants)
+                )
+              )
+            )
+          )
+        ]
+      : []
+  const alternatives = [
+    ...characters,
+    ...keys
+      .filter((key) => characters.length === 0 || !isLeaf(key))
+      .map((key) => prepend(trieCharacter(key, ignoreCase), fromTrie(ignoreCase)(trie.children[key])))
+  ]
+  const node = alternatives.length === 0 ? AST.empty : toAlternation(alternatives)
+  return trie.terminal && alternatives.length > 0 ? AST.quantifier(node, 0, 1, false) : node
+}
+
+/**
+ * Matches any one of the strings, preferring the longest. The strings are arranged by
+ * their common prefixes, so that the time taken to match does not grow with the number of
+ * strings.
+ *
+ * @example
+ * import { pipe } from 'fp-ts/lib/function'
+ * import * as E from 'expressive-ts/lib/Expression'
+ *
+ * assert.strictEqual(
+ *   pipe(E.compile, E.oneOfStrings(['int', 'in', 'if', 'for']), E.toRegexString),
+ *   '/(?:for|i(?:f|nt?))/'
+ * )
+ * assert.strictEqual(
+ *   pipe(E.compile, E.oneOfStrings(['go', 'rust'], { wholeWord: true, caseInsensitive: true }), E.toRegexString),
+ *   '/(?:\\b(?:[gG][oO]|[rR][uU][sS][tT])\\b)/'
+ * )
+ *
+ * @category combinators
+ * @since 0.1.0
+ */
+export const oneOfStrings: (strings: ReadonlyArray<string>, options?: OneOfStrings) => Combinator = (
+  strings,
+  options = {}
+) => {
+  const ignoreCase = options.caseInsensitive ?? false
+  const trie = strings.reduce((acc, s) => insert(acc, Array.from(ignoreCase ? s.toLowerCase() : s)), emptyTrie)
+  // Without any strings, nothing is matched
+  const node = strings.length === 0 ? AST.characterClass(false, []) : fromTrie(ignoreCase)(trie)
+  return term(
+    named('oneOfStrings')(
+      AST.group(options.wholeWord ? AST.sequence([AST.anchor('wordBoundary'), node, AST.anchor('wordBoundary')]) : node)
+    )
+  )
+}
+
+/**
+ * Matches any single character which is a member of the class.
+ *
+ * @category combinators
+ * @since 0.1.0
+ */
+export const charClass: (cc: CC.CharClass) => Combinator = (cc) => term(cc)
+
+const lookaround: (
+  direction: AST.Lookaround['direction'],
+  negated: boolean
+) => (value: string | T.Traced<Expression, Expression>) => Endomorphism<T.Traced<Expression, Expression>> = (
+  direction,
+  negated
+) => (value) =>
+  typeof value === 'string'
+    ? term(AST.lookaround(direction, negated, AST.literal(value)))
+    : embed(([node]) => AST.lookaround(direction, negated, node))([value])
+
+/**
+ * Asserts that either the specified string or sub-expression matches at the current
+ * position, without consuming any input.
+ *
+ * @category combinators
+ * @since 0.1.0
+ */
+export const lookahead: {
+  (value: string): Combinator
+  <S>(sub: ExpressionBuilder<S>): <G>(wa: ExpressionBuilder<G>) => ExpressionBuilder<G & Groups<S>>
+} = lookaround('ahead', false)
+
+/**
+ * Asserts that neither the specified string nor sub-expression matches at the current
+ * position, without consuming any input.
+ *
+ * @category combinators
+ * @since 0.1.0
+ */
+export const negativeLookahead: {
+  (value: string): Combinator
+  <S>(sub: ExpressionBuilder<S>): <G>(wa: ExpressionBuilder<G>) => ExpressionBuilder<G & Partial<Groups<S>>>
+} = lookaround('ahead', true)
+
+/**
+ * Asserts that either the specified string or sub-expression matches immediately before
+ * the current position, without consuming any input.
+ *
+ * @category combinators
+ * @since 0.1.0
+ */
+export const lookbehind: {
+  (value: string): Combinator
+  <S>(sub: ExpressionBuilder<S>): <G>(wa: ExpressionBuilder<G>) => ExpressionBuilder<G & Groups<S>>
+} = lookaround('behind', false)
+
+/**
+ * Asserts that neither the specified string nor sub-expression matches immediately
+ * before the current position, without consuming any input.
+ *
+ * @example
+ * import { pipe } from 'fp-ts/lib/function'
+ * import * as E from 'expressive-ts/lib/Expression'
+ *
+ * const currency = pipe(E.compile, E.anyOf('$€£'))
+ *
+ * const amount = pipe(
+ *   E.compile,
+ *   E.negativeLookbehind(currency),
+ *   E.negativeLookbehind(pipe(E.compile, E.digit)),
+ *   E.digit,
+ *   E.oneOrMore
+ * )
+ *
+ * assert.strictEqual(pipe(amount, E.toRegexString), '/(?<![$€£])(?<!\\d)\\d+/')
+ *
+ * @category combinators
+ * @since 0.1.0
+ */
+export const negativeLookbehind: {
+  (value: string): Combinator
+  <S>(sub: ExpressionBuilder<S>): <G>(wa: ExpressionBuilder<G>) => ExpressionBuilder<G & Partial<Groups<S>>>
+} = lookaround('behind', true)
 
 /**
  * @category combinators
  * @since 0.0.1
  */
-export const not: (value: string) => Endomorphism<ExpressionBuilder> = (value) => add(`(?!${sanitize(value)})`)
+export const not: (value: string) => Combinator = (value) => term(AST.lookaround('ahead', true, AST.literal(value)))
 
 /**
  * @category combinators
  * @since 0.0.1
  */
-export const range: (from: string, to: string) => Endomorphism<ExpressionBuilder> = (from, to) =>
-  add(`[${sanitize(from)}-${sanitize(to)}]`)
+export const range: (from: string, to: string) => Combinator = (from, to) =>
+  term(AST.characterClass(false, [AST.classRange(from, to)]))
+
+const digitClass: (from: number, to: number) => AST.Ast = (from, to) =>
+  from === to
+    ? AST.literal(String(from))
+    : from === 0 && to === 9
+    ? AST.characterType('digit')
+    : AST.characterClass(false, [AST.classRange(String(from), String(to))])
+
+const anyDigits: (n: number) => ReadonlyArray<AST.Ast> = (n) =>
+  n === 0 ? [] : [n === 1 ? AST.characterType('digit') : AST.quantifier(AST.characterType('digit'), n, n, false)]
+
+// Matches the strings of digits from `lo` to `hi`, which have the same number of digits,
+// one digit at a time
+const digitsBetween: (lo: string, hi: string) => AST.Ast = (lo, hi) => {
+  if (lo === hi) {
+    return AST.literal(lo)
+  }
+  const n = lo.length - 1
+  const zeros = '0'.repeat(n)
+  const nines = '9'.repeat(n)
+  const [restLo, restHi] = [lo.slice(1), hi.slice(1)]
+  if (lo[0] === hi[0]) {
+    return prepend(AST.literal(lo[0]), digitsBetween(restLo, restHi))
+  }
+  const from = restLo === zeros ? Number(lo[0]) : Number(lo[0]) + 1
+  const to = restHi === nines ? Number(hi[0]) : Number(hi[0]) - 1
+  return toAlternation([
+    ...(restLo === zeros ? [] : [prepend(AST.literal(lo[0]), digitsBetween(restLo, nines))]),
+    ...(from <= to ? [toNode([digitClass(from, to), ...anyDigits(n)])] : []),
+    ...(restHi === nines ? [] : [prepend(AST.literal(hi[0]), digitsBetween(zeros, restHi))])
+  ])
+}
+
+// Matches the non-negative integers from `lo` to `hi`, either padded to the width or, if
+// the width is zero, without leading zeros, in which case longer integers are matched first
+const naturalsBetween: (lo: number, hi: number, width: number) => AST.Ast = (lo, hi, width) => {
+  if (width > 0) {
+    return digitsBetween(String(lo).padStart(width, '0'), String(hi).padStart(width, '0'))
+  }
+  const [from, to] = [String(lo), String(hi)]
+  return toAlternation(
+    A.reverse(A.range(from.length, to.length)).map((n) =>
+      digitsBetween(n === from.length ? from : `1${'0'.repeat(n - 1)}`, n === to.length ? to : '9'.repeat(n))
+    )
+  )
+}
+
+// Matches the integers from `min` to `max`, given a match of the non-negative integers
+const signed: (min: number, max: number, naturals: (lo: number, hi: number) => AST.Ast) => AST.Ast = (
+  min,
+  max,
+  naturals
+) => {
+  const minus = AST.literal('-')
+  if (max < 0) {
+    return prepend(minus, naturals(-max, -min))
+  }
+  return min >= 0 ? naturals(min, max) : toAlternation([prepend(minus, naturals(1, -min)), naturals(0, max)])
+}
+
+const invalidRange: (from: number, to: number) => Combinator = (from, to) =>
+  add({ _tag: 'Invalid', error: { _tag: 'InvalidRange', from: String(from), to: String(to) } })
+
+/**
+ * Matches any integer from `min` to `max`, inclusive, digit by digit. A longer integer is
+ * preferred to a shorter one, but the match is not bounded, so it is usually combined with
+ * anchors or word boundaries.
+ *
+ * @example
+ * import { pipe } from 'fp-ts/lib/function'
+ * import * as E from 'expressive-ts/lib/Expression'
+ *
+ * assert.strictEqual(
+ *   pipe(E.compile, E.startOfInput, E.integerRange(0, 255), E.endOfInput, E.toRegexString),
+ *   '/^(?:1\\d{2}|2(?:[0-4]\\d|5[0-5])|[1-9]\\d|\\d)$/'
+ * )
+ * assert.strictEqual(
+ *   pipe(E.compile, E.integerRange(1, 12, { leadingZeros: true }), E.toRegexString),
+ *   '/(?:0[1-9]|1[0-2])/'
+ * )
+ *
+ * @category combinators
+ * @since 0.1.0
+ */
+export const integerRange: (min: number, max: number, options?: IntegerRange) => Combinator = (
+  min,
+  max,
+  options = {}
+) => {
+  if (!Number.isSafeInteger(min) || !Number.isSafeInteger(max) || min > max) {
+    return invalidRange(min, max)
+  }
+  const width = options.leadingZeros ? Math.max(String(Math.abs(min)).length, String(Math.abs(max)).length) : 0
+  return term(named('integerRange')(AST.group(signed(min, max, (lo, hi) => naturalsBetween(lo, hi, width)))))
+}
+
+// The digits of a number with exactly the number of fraction digits, if it has no more
+const toFixedDigits: (x: number, fractionDigits: number) => O.Option<number> = (x, fractionDigits) => {
+  const fixed = x.toFixed(fractionDigits)
+  const digits = Number(fixed.replace('.', ''))
+  return Number(fixed) === x && Number.isSafeInteger(digits) ? O.some(digits) : O.none
+}
+
+// Matches the non-negative numbers from `lo` to `hi`, which are given by their digits
+const decimalsBetween = (fractionDigits: number) => (lo: number, hi: number): AST.Ast => {
+  const zeros = '0'.repeat(fractionDigits)
+  const nines = '9'.repeat(fractionDigits)
+  const split = (n: number) => {
+    const digits = String(n).padStart(fractionDigits + 1, '0')
+    return [Number(digits.slice(0, -fractionDigits)), digits.slice(-fractionDigits)] as const
+  }
+  const [integerLo, fractionLo] = split(lo)
+  const [integerHi, fractionHi] = split(hi)
+  const point = (integer: number) => AST.literal(`${integer}.`)
+  if (integerLo === integerHi) {
+    return prepend(point(integerLo), digitsBetween(fractionLo, fractionHi))
+  }
+  const from = fractionLo === zeros ? integerLo : integerLo + 1
+  const to = fractionHi === nines ? integerHi : integerHi - 1
+  return toAlternation([
+    ...(fractionLo === zeros ? [] : [prepend(point(integerLo), digitsBetween(fractionLo, nines))]),
+    ...(from <= to ? [toNode([naturalsBetween(from, to, 0), AST.literal('.'), ...anyDigits(fractionDigits)])] : []),
+    ...(fractionHi === nines ? [] : [prepend(point(integerHi), digitsBetween(zeros, fractionHi))])
+  ])
+}
+
+/**
+ * Matches any decimal number from `min` to `max`, inclusive, which is written with exactly
+ * the number of fraction digits, such as `0.50` for two fraction digits.
+ *
+ * @example
+ * import { pipe } from 'fp-ts/lib/function'
+ * import * as E from 'expressive-ts/lib/Expression'
+ *
+ * assert.strictEqual(
+ *   pipe(E.compile, E.decimalRange(0.5, 2.25, 2), E.toRegexString),
+ *   '/(?:0\\.[5-9]\\d|1\\.\\d{2}|2\\.(?:[0-1]\\d|2[0-5]))/'
+ * )
+ *
+ * @category combinators
+ * @since 0.1.0
+ */
+export const decimalRange: (min: number, max: number, fractionDigits: number) => Combinator = (
+  min,
+  max,
+  fractionDigits
+) => {
+  if (fractionDigits === 0) {
+    return integerRange(min, max)
+  }
+  const bounds =
+    Number.isInteger(fractionDigits) && fractionDigits > 0 && fractionDigits <= 20
+      ? sequenceT(O.option)(toFixedDigits(min, fractionDigits), toFixedDigits(max, fractionDigits))
+      : O.none
+  return pipe(
+    bounds,
+    O.filter(([lo, hi]) => lo <= hi),
+    O.fold(
+      () => invalidRange(min, max),
+      ([lo, hi]) => term(named('decimalRange')(AST.group(signed(lo, hi, decimalsBetween(fractionDigits)))))
+    )
+  )
+}
 
 /**
  * @category combinators
  * @since 0.0.1
  */
-export const lineBreak: Endomorphism<ExpressionBuilder> = add(`(?:\\r\\n|\\r|\\n)`)
+export const lineBreak: Combinator = term(
+  AST.group(AST.alternation([AST.literal('\r\n'), AST.literal('\r'), AST.literal('\n')]))
+)
 
 /**
  * @category combinators
  * @since 0.0.1
  */
-export const tab: Endomorphism<ExpressionBuilder> = add(`\\t`)
+export const tab: Combinator = term(AST.literal('\t'))
 
 /**
  * @category combinators
  * @since 0.0.1
  */
-export const word: Endomorphism<ExpressionBuilder> = add(`\\w+`)
+export const word: Combinator = term(repeatNode('word', AST.characterType('word'), 1, Infinity, false))
 
 /**
  * @category combinators
  * @since 0.0.1
  */
-export const digit: Endomorphism<ExpressionBuilder> = add(`\\d`)
+export const digit: Combinator = term(AST.characterType('digit'))
 
 /**
  * @category combinators
  * @since 0.0.1
  */
-export const whitespace: Endomorphism<ExpressionBuilder> = add(`\\s`)
+export const whitespace: Combinator = term(AST.characterType('whitespace'))
 
 /**
  * @category combinators
  * @since 0.0.1
  */
-export const zeroOrMore: Endomorphism<ExpressionBuilder> = add(`*`)
+export const zeroOrMore: OptionalCombinator = quantify('zeroOrMore', 0, Infinity, false)
 
 /**
  * @category combinators
  * @since 0.0.1
  */
-export const zeroOrMoreLazy: Endomorphism<ExpressionBuilder> = add(`*?`)
+export const zeroOrMoreLazy: OptionalCombinator = quantify('zeroOrMoreLazy', 0, Infinity, true)
 
 /**
  * @category combinators
  * @since 0.0.1
  */
-export const oneOrMore: Endomorphism<ExpressionBuilder> = add(`+`)
+export const oneOrMore: Combinator = quantify('oneOrMore', 1, Infinity, false)
 
 /**
  * @category combinators
  * @since 0.0.1
  */
-export const oneOrMoreLazy: Endomorphism<ExpressionBuilder> = add(`+?`)
+export const oneOrMoreLazy: Combinator = quantify('oneOrMoreLazy', 1, Infinity, true)
 
 /**
  * @category combinators
  * @since 0.0.1
  */
-export const exactly: (amount: number) => Endomorphism<ExpressionBuilder> = (amount) => add(`{${amount}}`)
+export const exactly: (amount: number) => OptionalCombinator = (amount) => quantify('exactly', amount, amount, false)
 
 /**
  * @category combinators
  * @since 0.0.1
  */
-export const atLeast: (min: number) => Endomorphism<ExpressionBuilder> = (min) => add(`{${min},}`)
+export const atLeast: (min: number) => OptionalCombinator = (min) => quantify('atLeast', min, Infinity, false)
 
 /**
  * @category combinators
  * @since 0.0.1
  */
-export const between: (min: number, max: number) => Endomorphism<ExpressionBuilder> = (min, max) =>
-  add(`{${min},${max}}`)
+export const between: (min: number, max: number) => OptionalCombinator = (min, max) =>
+  quantify('between', min, max, false)
 
 /**
  * @category combinators
  * @since 0.0.1
  */
-export const betweenLazy: (min: number, max: number) => Endomorphism<ExpressionBuilder> = (min, max) =>
-  add(`{${min},${max}}?`)
+export const betweenLazy: (min: number, max: number) => OptionalCombinator = (min, max) =>
+  quantify('betweenLazy', min, max, true)
 
 /**
  * @category combinators
  * @since 0.0.1
  */
-export const beginCapture: Endomorphism<ExpressionBuilder> = add(`(`)
+export const beginCapture: Combinator = add({ _tag: 'BeginCapture' })
 
 /**
  * @category combinators
  * @since 0.0.1
  */
-export const endCapture: Endomorphism<ExpressionBuilder> = add(`)`)
+export const endCapture: Combinator = add({ _tag: 'EndCapture' })
 
 // -------------------------------------------------------------------------------------
 // instances
@@ -442,7 +2175,8 @@ export const monoidFlags: M.Monoid<Flags> = M.getStructMonoid({
   lineByLine: M.monoidAny,
   singleLine: M.monoidAny,
   sticky: M.monoidAny,
-  unicode: M.monoidAny
+  unicode: M.monoidAny,
+  unicodeSets: M.monoidAny
 })
 
 /**
@@ -450,25 +2184,72 @@ export const monoidFlags: M.Monoid<Flags> = M.getStructMonoid({
  * @since 0.0.1
  */
 export const monoidExpression: M.Monoid<Expression> = M.getStructMonoid({
-  prefix: M.monoidString,
-  pattern: M.monoidString,
-  suffix: M.monoidString,
-  source: M.monoidString,
+  tokens: A.getMonoid<Token>(),
   flags: monoidFlags
 })
 
+/**
+ * Describes the error as the `RegExp` constructor would, followed by the index of the
+ * token which produced it.
+ *
+ * @category instances
+ * @since 0.1.0
+ */
+export const showExpressionError: Show<ExpressionError> = {
+  show: (error) => `${describeError(error)}${error.index === undefined ? '' : ` at token ${error.index}`}`
+}
+
+const describeError: (error: ExpressionError) => string = (error) => {
+  switch (error._tag) {
+    case 'UnterminatedGroup':
+      return 'Invalid regular expression: Unterminated group'
+    case 'UnmatchedEndCapture':
+      return "Invalid regular expression: Unmatched ')'"
+    case 'NothingToRepeat':
+      return `Invalid regular expression: Nothing to repeat '${error.quantifier}'`
+    case 'InvalidQuantifier':
+      return `Invalid regular expression: Invalid quantifier '${AST.render(
+        AST.quantifier(AST.empty, error.min, error.max, false)
+      )}'`
+    case 'InvalidRange':
+      return `Invalid regular expression: Invalid range '${error.from}-${error.to}'`
+    case 'DuplicateGroupName':
+      return `Invalid regular expression: Duplicate capture group name '${error.name}'`
+    case 'InvalidGroupName':
+      return `Invalid regular expression: Invalid capture group name '${error.name}'`
+    case 'InvalidBackreference':
+      return `Invalid regular expression: Invalid backreference '${AST.render(AST.backreference(error.reference))}'`
+    case 'MissingFlag':
+      return `Invalid regular expression: Missing flag '${error.flag === 'unicode' ? 'u' : 'v'}'`
+    default:
+      return error.message
+  }
+}
+
 const C = T.getComonad(monoidExpression)
 
 // -------------------------------------------------------------------------------------
 // utils
 // -------------------------------------------------------------------------------------
 
-// Regular expression to match meta characters
-// https://developer.mozilla.org/en/JavaScript/Reference/Global_Objects/regexp
-const toEscape = /([\].|*?+(){}^$\\:=[])/g
-
-// https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/RegExp/lastMatch
-const lastMatch = '$&'
+/**
+ * The named capturing groups of a match of an expression which declares the groups `G`.
+ * Every group is optional if the expression contains an alternation.
+ *
+ * @category utils
+ * @since 0.1.0
+ */
+export type Groups<G> = typeof Alternation extends keyof G ? Partial<Omit<G, typeof Alternation>> : G
 
-// Escape meta characters
-const sanitize: (value: string) => string = (value) => value.replace(toEscape, `\\${lastMatch}`)
+/**
+ * The named capturing groups declared by every one of a union of expression builders.
+ *
+ * @category utils
+ * @since 0.1.0
+ */
+// Inferring from a contravariant position turns the union of groups into an intersection
+export type GroupsOf<B> = (B extends ExpressionBuilder<infer G> ? (groups: Groups<G>) => void : never) extends (
+  groups: infer I
+) => void
+  ? I
+  : never
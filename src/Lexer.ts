@@ -0,0 +1,190 @@
+/**
+ * Scanning an input into tokens, with one expression for each kind of token.
+ *
+ * At every position the rules are matched with the `sticky` flag, and the longest match
+ * is taken, or the match of the earliest rule when several are equally long. A rule which
+ * matches an empty string is never taken. Lines are separated by `\n`, and both lines and
+ * columns are numbered from one.
+ *
+ * @example
+ * import { pipe } from 'fp-ts/lib/function'
+ * import * as Ei from 'fp-ts/lib/Either'
+ * import * as E from 'expressive-ts/lib/Expression'
+ * import * as L from 'expressive-ts/lib/Lexer'
+ *
+ * const lex = L.lexer([
+ *   L.rule('number', pipe(E.compile, E.digit, E.oneOrMore)),
+ *   L.rule('operator', pipe(E.compile, E.anyOf('+-'))),
+ *   L.skip('whitespace', pipe(E.compile, E.whitespace, E.oneOrMore))
+ * ])
+ *
+ * assert.deepStrictEqual(
+ *   lex('1 + 23'),
+ *   Ei.right([
+ *     { name: 'number', value: '1', offset: 0, line: 1, column: 1 },
+ *     { name: 'operator', value: '+', offset: 2, line: 1, column: 3 },
+ *     { name: 'number', value: '23', offset: 4, line: 1, column: 5 }
+ *   ])
+ * )
+ * assert.deepStrictEqual(lex('1 % 2'), Ei.left({ offset: 2, line: 1, column: 3 }))
+ *
+ * @since 0.1.0
+ */
+import * as Ei from 'fp-ts/lib/Either'
+import * as O from 'fp-ts/lib/Option'
+import { pipe } from 'fp-ts/lib/function'
+
+import * as E from './Expression'
+
+// -------------------------------------------------------------------------------------
+// models
+// -------------------------------------------------------------------------------------
+
+/**
+ * Describes which expression matches a kind of token.
+ *
+ * @category models
+ * @since 0.1.0
+ */
+export interface Rule<N extends string> {
+  readonly name: N
+  readonly expression: E.ExpressionBuilder
+  /**
+   * Whether the matched text is discarded rather than yielded as a token.
+   */
+  readonly skip: boolean
+}
+
+/**
+ * @category models
+ * @since 0.1.0
+ */
+export interface Position {
+  /**
+   * The index in the input.
+   */
+  readonly offset: number
+  readonly line: number
+  readonly column: number
+}
+
+/**
+ * @category models
+ * @since 0.1.0
+ */
+export interface Token<N extends string> extends Position {
+  /**
+   * The name of the rule which matched the token.
+   */
+  readonly name: N
+  readonly value: string
+}
+
+/**
+ * The position of input which is not matched by any rule.
+ *
+ * @category models
+ * @since 0.1.0
+ */
+export type LexError = Position
+
+/**
+ * @category models
+ * @since 0.1.0
+ */
+export type Lexer<N extends string> = (input: string) => Ei.Either<LexError, ReadonlyArray<Token<N>>>
+
+// -------------------------------------------------------------------------------------
+// constructors
+// -------------------------------------------------------------------------------------
+
+/**
+ * Constructs a rule whose matches are yielded as tokens.
+ *
+ * @category constructors
+ * @since 0.1.0
+ */
+export const rule: <N extends string>(name: N, expression: E.ExpressionBuilder) => Rule<N> = (name, expression) => ({
+  name,
+  expression,
+  skip: false
+})
+
+/**
+ * Constructs a rule whose matches are discarded, such as whitespace or comments.
+ *
+ * @category constructors
+ * @since 0.1.0
+ */
+export const skip: <N extends string>(name: N, expression: E.ExpressionBuilder) => Rule<N> = (name, expression) => ({
+  name,
+  expression,
+  skip: true
+})
+
+/**
+ * Constructs a lexer which scans an input with the rules.
+ *
+ * @category constructors
+ * @since 0.1.0
+ */
+export const lexer: <N extends string>(rules: ReadonlyArray<Rule<N>>) => Lexer<N> = (rules) => {
+  const compiled = rules.map((r) => [r, E.toRegex(pipe(r.expression, E.sticky))] as const)
+  return (input) => {
+    const tokens: Array<Token<any>> = []
+    let position: Position = { offset: 0, line: 1, column: 1 }
+    while (position.offset < input.length) {
+      const match = longest(compiled, input, position.offset)
+      if (O.isNone(match)) {
+        return Ei.left(position)
+      }
+      const [r, value] = match.value
+      if (!r.skip) {
+        tokens.push({ name: r.name, value, ...position })
+      }
+      position = advance(position, value)
+    }
+    return Ei.right(tokens)
+  }
+}
+
+// -------------------------------------------------------------------------------------
+// utils
+// -------------------------------------------------------------------------------------
+
+const longest = <R>(
+  compiled: ReadonlyArray<readonly [R, RegExp]>,
+  input: string,
+  offset: number
+): O.Option<readonly [R, string]> => {
+  let best: O.Option<readonly [R, string]> = O.none
+  for (let i = 0; i < compiled.length; i += 1) {
+    const [r, regex] = compiled[i]
+    regex.lastIndex = offset
+    const result = regex.exec(input)
+    if (
+      result !== null &&
+      result[0].length >
+        pipe(
+          best,
+          O.fold(
+            () => 0,
+            ([, value]) => value.length
+          )
+        )
+    ) {
+      best = O.some([r, result[0]])
+    }
+  }
+  return best
+}
+
+const advance: (position: Position, value: string) => Position = (position, value) => {
+  const lines = value.split('\n')
+  const last = lines[lines.length - 1]
+  return {
+    offset: position.offset + value.length,
+    line: position.line + lines.length - 1,
+    column: lines.length === 1 ? position.column + value.length : last.length + 1
+  }
+}
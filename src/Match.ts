@@ -0,0 +1,220 @@
+/**
+ * Matching an expression against an input.
+ *
+ * Every function in this module compiles the expression once, and can then be applied to
+ * any number of inputs. Regardless of which `Flags` are set, the result for one input never
+ * depends on the result for another.
+ *
+ * The named capturing groups declared by an expression are tracked in the type of its
+ * builder, so the groups of a match are typed accordingly. A group which may not
+ * participate in a match, such as one declared within `maybe`, is optional.
+ *
+ * @example
+ * import { pipe } from 'fp-ts/lib/function'
+ * import * as O from 'fp-ts/lib/Option'
+ * import * as E from 'expressive-ts/lib/Expression'
+ * import * as M from 'expressive-ts/lib/Match'
+ *
+ * const digits = (n: number) => pipe(E.compile, E.digit, E.exactly(n))
+ *
+ * const date = pipe(
+ *   E.compile,
+ *   E.namedCapture('year', digits(4)),
+ *   E.string('-'),
+ *   E.namedCapture('month', digits(2)),
+ *   E.maybe(pipe(E.compile, E.string('-'), E.namedCapture('day', digits(2))))
+ * )
+ *
+ * // const groups: { readonly year: string; readonly month: string; readonly day?: string }
+ * const groups = pipe(
+ *   '2021-02',
+ *   M.exec(date),
+ *   O.map((match) => match.groups)
+ * )
+ *
+ * assert.deepStrictEqual(groups, O.some({ year: '2021', month: '02', day: undefined }))
+ *
+ * @since 0.1.0
+ */
+import * as O from 'fp-ts/lib/Option'
+import * as A from 'fp-ts/lib/ReadonlyArray'
+import { flow, pipe, Endomorphism, Predicate } from 'fp-ts/lib/function'
+
+import * as E from './Expression'
+
+// -------------------------------------------------------------------------------------
+// models
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category models
+ * @since 0.1.0
+ */
+export interface Match<G> {
+  /**
+   * The matched text.
+   */
+  readonly value: string
+  /**
+   * The index in the input at which the match begins.
+   */
+  readonly index: number
+  /**
+   * The text matched by each capturing group, in the order in which the groups are
+   * numbered.
+   */
+  readonly captures: ReadonlyArray<string | undefined>
+  /**
+   * The text matched by each named capturing group.
+   */
+  readonly groups: { readonly [K in keyof E.Groups<G>]: E.Groups<G>[K] }
+}
+
+// -------------------------------------------------------------------------------------
+// destructors
+// -------------------------------------------------------------------------------------
+
+// The named capturing groups of an expression are only known at the type level
+const toMatch: (result: RegExpExecArray) => Match<any> = (result) => ({
+  value: result[0],
+  index: result.index,
+  captures: result.slice(1),
+  groups: { ...result.groups }
+})
+
+const toGlobalRegex: (builder: E.ExpressionBuilder<any>) => RegExp = (builder) => {
+  const regex = E.toRegex(builder)
+  return regex.global ? regex : new RegExp(regex.source, `${regex.flags}g`)
+}
+
+// An empty match must advance past the next character (or, with either the `unicode` or
+// the `unicodeSets` flag, the next code point) to avoid matching at the same index forever
+const advance: (regex: RegExp, input: string) => number = (regex, input) => {
+  const codePoint = input.codePointAt(regex.lastIndex)
+  const isUnicode = regex.unicode || regex.flags.indexOf('v') !== -1
+  return regex.lastIndex + (isUnicode && codePoint !== undefined && codePoint > 0xffff ? 2 : 1)
+}
+
+/**
+ * Tests whether the expression matches the input.
+ *
+ * @category destructors
+ * @since 0.1.0
+ */
+export const test: (builder: E.ExpressionBuilder) => Predicate<string> = (builder) => {
+  const regex = E.toRegex(builder)
+  return (input) => {
+    regex.lastIndex = 0
+    return regex.test(input)
+  }
+}
+
+/**
+ * Returns the first match of the expression in the input, if any.
+ *
+ * @category destructors
+ * @since 0.1.0
+ */
+export const exec: <G>(builder: E.ExpressionBuilder<G>) => (input: string) => O.Option<Match<G>> = (builder) => {
+  const regex = E.toRegex(builder)
+  return (input) => {
+    regex.lastIndex = 0
+    return pipe(O.fromNullable(regex.exec(input)), O.map(toMatch))
+  }
+}
+
+/**
+ * Returns the match of the expression which begins at the index of the input, if any.
+ *
+ * @category destructors
+ * @since 0.1.0
+ */
+export const execAt: <G>(builder: E.ExpressionBuilder<G>) => (input: string, index: number) => O.Option<Match<G>> = (
+  builder
+) => {
+  const regex = E.toRegex(pipe(builder, E.sticky))
+  return (input, index) => {
+    regex.lastIndex = index
+    return pipe(O.fromNullable(regex.exec(input)), O.map(toMatch))
+  }
+}
+
+/**
+ * Returns every match of the expression in the input, whether or not the `allowMultiple`
+ * flag is set.
+ *
+ * @category destructors
+ * @since 0.1.0
+ */
+export const matchAll: <G>(builder: E.ExpressionBuilder<G>) => (input: string) => ReadonlyArray<Match<G>> = (
+  builder
+) => {
+  const regex = toGlobalRegex(builder)
+  return (input) => {
+    const matches: Array<Match<any>> = []
+    regex.lastIndex = 0
+    let result = regex.exec(input)
+    while (result !== null) {
+      matches.push(toMatch(result))
+      if (result[0] === '') {
+        regex.lastIndex = advance(regex, input)
+      }
+      result = regex.exec(input)
+    }
+    return matches
+  }
+}
+
+/**
+ * Replaces the first match of the expression in the input or, if the `allowMultiple` flag
+ * is set, every match.
+ *
+ * The replacement is either a string, which may refer to the text of the match using the
+ * same patterns as `String.prototype.replace`, or a function of the match.
+ *
+ * @category destructors
+ * @since 0.1.0
+ */
+export const replace: <G>(
+  builder: E.ExpressionBuilder<G>,
+  replacement: string | ((match: Match<G>) => string)
+) => Endomorphism<string> = (builder, replacement) => {
+  const regex = E.toRegex(builder)
+  if (typeof replacement === 'string') {
+    return (input) => {
+      regex.lastIndex = 0
+      return input.replace(regex, replacement)
+    }
+  }
+  const matches: (input: string) => ReadonlyArray<Match<any>> = regex.global
+    ? matchAll(builder)
+    : flow(
+        exec(builder),
+        O.fold(() => A.empty, A.of)
+      )
+  return (input) => {
+    const { output, index } = matches(input).reduce(
+      (acc, match) => ({
+        output: `${acc.output}${input.slice(acc.index, match.index)}${replacement(match)}`,
+        index: match.index + match.value.length
+      }),
+      { output: '', index: 0 }
+    )
+    return `${output}${input.slice(index)}`
+  }
+}
+
+/**
+ * Splits the input at every match of the expression. As with `String.prototype.split`,
+ * the text matched by any capturing groups is included in the result.
+ *
+ * @category destructors
+ * @since 0.1.0
+ */
+export const split: (builder: E.ExpressionBuilder) => (input: string) => ReadonlyArray<string> = (builder) => {
+  const regex = E.toRegex(builder)
+  return (input) => {
+    regex.lastIndex = 0
+    return input.split(regex)
+  }
+}
@@ -0,0 +1,214 @@
+/**
+ * Simplifying the pattern of an expression without changing what it matches.
+ *
+ * The simplifications are:
+ *
+ * - non-capturing groups are removed, as the pattern is grouped wherever it is required
+ * - adjacent literals are merged, as are nested sequences and nested alternations
+ * - adjacent alternatives which each match a single character are merged into a character
+ *   class, unless the `unicodeSets` flag is set
+ * - the common literal prefix of adjacent alternatives is factored out
+ *
+ * Each term of the expression is simplified on its own, and the tokens between terms,
+ * such as quantifiers and alternations, are kept. Alternatives are never reordered, and
+ * capturing groups are neither added nor removed, so every match and the numbering of
+ * capturing groups are preserved.
+ *
+ * @example
+ * import { pipe } from 'fp-ts/lib/function'
+ * import * as E from 'expressive-ts/lib/Expression'
+ * import * as Opt from 'expressive-ts/lib/Optimize'
+ *
+ * const expression = pipe(
+ *   E.compile,
+ *   E.string('foo'),
+ *   E.maybe('bar'),
+ *   E.oneOf([pipe(E.compile, E.string('baz')), pipe(E.compile, E.string('bat'))])
+ * )
+ *
+ * assert.strictEqual(E.toRegexString(expression), '/(?:foo)(?:bar)?(?:(?:baz)|(?:bat))/')
+ * assert.strictEqual(pipe(expression, Opt.optimize, E.toRegexString), '/foo(?:bar)?ba[zt]/')
+ *
+ * @since 0.1.0
+ */
+import * as Ei from 'fp-ts/lib/Either'
+import * as O from 'fp-ts/lib/Option'
+import * as A from 'fp-ts/lib/ReadonlyArray'
+import { pipe } from 'fp-ts/lib/function'
+
+import * as AST from './Ast'
+import * as E from './Expression'
+
+// -------------------------------------------------------------------------------------
+// combinators
+// -------------------------------------------------------------------------------------
+
+/**
+ * Simplifies the pattern of each term of the expression. The other tokens are left as
+ * they are, so that a combinator which is applied afterwards, such as a quantifier, acts
+ * on the same term as it would without `optimize`. An invalid expression is left
+ * unchanged, so that it is reported when the expression is destructed.
+ *
+ * @category combinators
+ * @since 0.1.0
+ */
+export const optimize: E.Combinator = (wa) => (p) => {
+  const expression = wa(p)
+  return pipe(
+    E.validate(E.fromExpression(expression)),
+    Ei.fold(
+      () => expression,
+      () => ({ ...expression, tokens: expression.tokens.map(simplifyToken(expression.flags)) })
+    )
+  )
+}
+
+// -------------------------------------------------------------------------------------
+// utils
+// -------------------------------------------------------------------------------------
+
+const simplifyToken = (flags: E.Flags) => (token: E.Token): E.Token =>
+  token._tag === 'Term' ? { ...token, ast: repeatable(simplify(flags)(token.ast)) } : token
+
+// An empty sequence or literal can only be repeated within a group
+const repeatable: (ast: AST.Ast) => AST.Ast = (ast) =>
+  (ast._tag === 'Sequence' && ast.nodes.length === 0) || (ast._tag === 'Literal' && ast.value === '')
+    ? AST.group(ast)
+    : ast
+
+const simplify = (flags: E.Flags) => (ast: AST.Ast): AST.Ast => {
+  const go = simplify(flags)
+  switch (ast._tag) {
+    case 'Sequence':
+      return sequence(ast.nodes.map(go))
+    case 'Alternation':
+      return alternation(flags)(ast.alternatives.map(go))
+    case 'Group':
+      return go(ast.node)
+    case 'Quantifier':
+      return { ...ast, node: repeatable(go(ast.node)) }
+    case 'Capture':
+    case 'Lookaround':
+      return { ...ast, node: go(ast.node) }
+    default:
+      return ast
+  }
+}
+
+const nodesOf: (ast: AST.Ast) => ReadonlyArray<AST.Ast> = (ast) => (ast._tag === 'Sequence' ? ast.nodes : [ast])
+
+// Flattens nested sequences and merges adjacent literals. A digit may then follow a numbered
+// backreference directly, which is safe only because rendering separates the two
+const sequence = (nodes: ReadonlyArray<AST.Ast>): AST.Ast => {
+  const merged = pipe(
+    nodes,
+    A.chain(nodesOf),
+    A.reduce<AST.Ast, ReadonlyArray<AST.Ast>>([], (acc, node) => {
+      const last = acc[acc.length - 1]
+      return last !== undefined && last._tag === 'Literal' && node._tag === 'Literal'
+        ? A.snoc(acc.slice(0, -1), AST.literal(`${last.value}${node.value}`))
+        : A.snoc(acc, node)
+    })
+  )
+  return merged.length === 1 ? merged[0] : AST.sequence(merged)
+}
+
+// Flattens nested alternations, merges single characters and factors common prefixes
+const alternation = (flags: E.Flags) => (alternatives: ReadonlyArray<AST.Ast>): AST.Ast => {
+  const flattened = pipe(
+    alternatives,
+    A.chain((node) => (node._tag === 'Alternation' ? node.alternatives : [node]))
+  )
+  const merged = flags.unicodeSets ? flattened : runs(flattened, mergeable, mergeClasses)
+  const factored = runs(merged, firstCharacter, factor(flags))
+  return factored.length === 1 ? factored[0] : AST.alternation(factored)
+}
+
+// Replaces every run of at least two adjacent alternatives with the same key
+const runs = <K>(
+  alternatives: ReadonlyArray<AST.Ast>,
+  key: (ast: AST.Ast) => O.Option<K>,
+  f: (run: ReadonlyArray<AST.Ast>) => AST.Ast
+): ReadonlyArray<AST.Ast> =>
+  pipe(
+    alternatives,
+    A.reduce<AST.Ast, ReadonlyArray<readonly [O.Option<K>, ReadonlyArray<AST.Ast>]>>([], (acc, node) => {
+      const k = key(node)
+      return pipe(
+        A.last(acc),
+        O.filter(([last]) => O.isSome(last) && O.isSome(k) && last.value === k.value),
+        O.fold(
+          () => A.snoc(acc, [k, [node]]),
+          ([last, run]) => A.snoc(acc.slice(0, -1), [last, A.snoc(run, node)])
+        )
+      )
+    }),
+    A.map(([, run]) => (run.length > 1 ? f(run) : run[0]))
+  )
+
+// The class members matched by an alternative which matches a single character
+const classMembers: (ast: AST.Ast) => O.Option<ReadonlyArray<AST.ClassMember>> = (ast) => {
+  switch (ast._tag) {
+    case 'Literal':
+      return ast.value.length === 1 ? O.some([AST.classCharacters(ast.value)]) : O.none
+    case 'CharacterType':
+      return ast.type === 'any' ? O.none : O.some([AST.classCharacterType(ast.type, false)])
+    case 'CharacterClass':
+      return ast.negated || ast.members.some((member) => member._tag === 'ClassSetOperation')
+        ? O.none
+        : O.some(ast.members)
+    default:
+      return O.none
+  }
+}
+
+const mergeable: (ast: AST.Ast) => O.Option<true> = (ast) =>
+  pipe(
+    classMembers(ast),
+    O.map((): true => true)
+  )
+
+const mergeClasses = (run: ReadonlyArray<AST.Ast>): AST.Ast =>
+  AST.characterClass(
+    false,
+    pipe(
+      run,
+      A.filterMap(classMembers),
+      A.flatten,
+      // Adjacent characters are merged so that any repeated punctuator is removed
+      A.reduce<AST.ClassMember, ReadonlyArray<AST.ClassMember>>([], (acc, member) => {
+        const last = acc[acc.length - 1]
+        return last !== undefined && last._tag === 'ClassCharacters' && member._tag === 'ClassCharacters'
+          ? A.snoc(acc.slice(0, -1), AST.classCharacters(`${last.value}${member.value}`))
+          : A.snoc(acc, member)
+      })
+    )
+  )
+
+// Literals are compared by code point, so that a surrogate pair is never split
+const leadingLiteral: (ast: AST.Ast) => O.Option<ReadonlyArray<string>> = (ast) =>
+  pipe(
+    A.head(nodesOf(ast)),
+    O.chain((node) => (node._tag === 'Literal' && node.value !== '' ? O.some(Array.from(node.value)) : O.none))
+  )
+
+const firstCharacter: (ast: AST.Ast) => O.Option<string> = (ast) =>
+  pipe(
+    leadingLiteral(ast),
+    O.map((characters) => characters[0])
+  )
+
+const commonPrefix = (x: ReadonlyArray<string>, y: ReadonlyArray<string>): ReadonlyArray<string> => {
+  const i = x.findIndex((c, j) => y[j] !== c)
+  return i === -1 ? x : x.slice(0, i)
+}
+
+const factor = (flags: E.Flags) => (run: ReadonlyArray<AST.Ast>): AST.Ast => {
+  const literals = pipe(run, A.filterMap(leadingLiteral))
+  const prefix = literals.reduce(commonPrefix)
+  const remainders = run.map((node, i) => {
+    const rest = literals[i].slice(prefix.length)
+    return sequence([...(rest.length > 0 ? [AST.literal(rest.join(''))] : []), ...nodesOf(node).slice(1)])
+  })
+  return sequence([AST.literal(prefix.join('')), alternation(flags)(remainders)])
+}
@@ -0,0 +1,674 @@
+/**
+ * Parses the syntax of a JavaScript regular expression into a syntax tree.
+ *
+ * The syntax which is allowed depends on the flags of the regular expression. Without
+ * either the `unicode` or the `unicodeSets` flag, the legacy syntax of Annex B of the
+ * specification is allowed, such as octal escapes and unbalanced braces.
+ *
+ * @example
+ * import * as Ei from 'fp-ts/lib/Either'
+ * import * as AST from 'expressive-ts/lib/Ast'
+ * import * as P from 'expressive-ts/lib/Parser'
+ *
+ * assert.deepStrictEqual(
+ *   P.parse('legacy')('a+|b'),
+ *   Ei.right(AST.alternation([AST.quantifier(AST.literal('a'), 1, Infinity, false), AST.literal('b')]))
+ * )
+ *
+ * assert.deepStrictEqual(P.parse('legacy')('(a'), Ei.left({ index: 0, message: 'Unterminated group' }))
+ *
+ * @since 0.1.0
+ */
+import * as E from 'fp-ts/lib/Either'
+import * as O from 'fp-ts/lib/Option'
+import * as A from 'fp-ts/lib/ReadonlyArray'
+import { pipe } from 'fp-ts/lib/function'
+
+import * as AST from './Ast'
+
+// -------------------------------------------------------------------------------------
+// models
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category models
+ * @since 0.1.0
+ */
+export interface ParseError {
+  /**
+   * The index in the pattern at which the error was found.
+   */
+  readonly index: number
+  readonly message: string
+}
+
+/**
+ * The syntax which is allowed by the flags of a regular expression.
+ *
+ * @category models
+ * @since 0.1.0
+ */
+export type Syntax = 'legacy' | 'unicode' | 'unicodeSets'
+
+// -------------------------------------------------------------------------------------
+// constructors
+// -------------------------------------------------------------------------------------
+
+/**
+ * @category constructors
+ * @since 0.1.0
+ */
+export const parse: (syntax: Syntax) => (pattern: string) => E.Either<ParseError, AST.Ast> = (syntax) => (pattern) => {
+  const context: Context = { pattern, syntax, ...scanGroups(pattern) }
+  return pipe(
+    parseDisjunction(context, 0),
+    E.chain(([ast, index]) => (index < pattern.length ? fail(index, "Unmatched ')'") : E.right(ast)))
+  )
+}
+
+// -------------------------------------------------------------------------------------
+// utils
+// -------------------------------------------------------------------------------------
+
+/**
+ * Whether the name is an identifier which can name a capturing group.
+ *
+ * @category utils
+ * @since 0.1.0
+ */
+export const isGroupName: (name: string) => boolean = (name) => groupName.test(name)
+
+interface Context {
+  readonly pattern: string
+  readonly syntax: Syntax
+  // The number of capturing groups in the pattern, which determines whether an escaped
+  // number is a backreference
+  readonly captures: number
+  // Whether the pattern has a named capturing group, which determines whether `\k` is the
+  // start of a named backreference
+  readonly named: boolean
+}
+
+type Parsed<A> = E.Either<ParseError, readonly [A, number]>
+
+const fail = <A>(index: number, message: string): E.Either<ParseError, A> => E.left({ index, message })
+
+const succeed = <A>(a: A, index: number): Parsed<A> => E.right([a, index])
+
+const isUnicode: (context: Context) => boolean = (context) => context.syntax !== 'legacy'
+
+// With either unicode flag, each character of the pattern is a code point
+const charAt: (context: Context, index: number) => string = (context, index) =>
+  index >= context.pattern.length
+    ? ''
+    : isUnicode(context)
+    ? String.fromCodePoint(context.pattern.codePointAt(index) as number)
+    : context.pattern[index]
+
+const startsWith: (context: Context, index: number, s: string) => boolean = (context, index, s) =>
+  context.pattern.substr(index, s.length) === s
+
+const execAt: (context: Context, index: number, regex: RegExp) => O.Option<RegExpExecArray> = (context, index, regex) =>
+  O.fromNullable(regex.exec(context.pattern.slice(index)))
+
+const scanGroups: (pattern: string) => { readonly captures: number; readonly named: boolean } = (pattern) => {
+  const groups = pattern.match(/\\.|\[(?:\\.|[^\]\\])*\]|\((?!\?)|\(\?<(?![=!])/g) ?? []
+  const opening = groups.filter((group) => group[0] === '(')
+  return { captures: opening.length, named: opening.some((group) => group.length > 1) }
+}
+
+const groupName = /^[$_\p{ID_Start}][$\u200C\u200D\p{ID_Continue}]*$/u
+
+const toNode: (nodes: ReadonlyArray<AST.Ast>) => AST.Ast = (nodes) =>
+  nodes.length === 1 ? nodes[0] : AST.sequence(nodes)
+
+// Adjacent characters are combined into a single literal
+const appendNode: (nodes: ReadonlyArray<AST.Ast>, node: AST.Ast) => ReadonlyArray<AST.Ast> = (nodes, node) => {
+  const last = nodes[nodes.length - 1]
+  return last !== undefined && last._tag === 'Literal' && node._tag === 'Literal'
+    ? A.snoc(nodes.slice(0, -1), AST.literal(`${last.value}${node.value}`))
+    : A.snoc(nodes, node)
+}
+
+const parseDisjunction = (context: Context, index: number): Parsed<AST.Ast> => {
+  let alternatives: ReadonlyArray<AST.Ast> = []
+  let i = index - 1
+  do {
+    const result = parseAlternative(context, i + 1)
+    if (E.isLeft(result)) {
+      return result
+    }
+    const [alternative, next] = result.right
+    alternatives = A.snoc(alternatives, alternative)
+    i = next
+  } while (context.pattern[i] === '|')
+  return succeed(alternatives.length === 1 ? alternatives[0] : AST.alternation(alternatives), i)
+}
+
+const parseAlternative = (context: Context, index: number): Parsed<AST.Ast> => {
+  let nodes: ReadonlyArray<AST.Ast> = []
+  let i = index
+  while (i < context.pattern.length && context.pattern[i] !== '|' && context.pattern[i] !== ')') {
+    const result = parseTerm(context, i)
+    if (E.isLeft(result)) {
+      return result
+    }
+    const [node, next] = result.right
+    nodes = appendNode(nodes, node)
+    i = next
+  }
+  return succeed(toNode(nodes), i)
+}
+
+const lookarounds: ReadonlyArray<readonly [string, AST.Lookaround['direction'], boolean]> = [
+  ['(?=', 'ahead', false],
+  ['(?!', 'ahead', true],
+  ['(?<=', 'behind', false],
+  ['(?<!', 'behind', true]
+]
+
+const anchors: ReadonlyArray<readonly [string, AST.Anchor['anchor']]> = [
+  ['^', 'start'],
+  ['$', 'end'],
+  ['\\b', 'wordBoundary'],
+  ['\\B', 'nonWordBoundary']
+]
+
+const parseTerm = (context: Context, index: number): Parsed<AST.Ast> => {
+  const anchor = pipe(
+    anchors,
+    A.findFirst(([s]) => startsWith(context, index, s))
+  )
+  if (O.isSome(anchor)) {
+    const [s, kind] = anchor.value
+    return parseUnquantified(context, AST.anchor(kind), index + s.length)
+  }
+  return pipe(
+    lookarounds,
+    A.findFirst(([open]) => startsWith(context, index, open)),
+    O.fold(
+      () =>
+        pipe(
+          parseAtom(context, index),
+          E.chain(([atom, i]) => parseQuantified(context, atom, i))
+        ),
+      ([open, direction, negated]) =>
+        pipe(
+          parseGroup(context, index, index + open.length, (node) => AST.lookaround(direction, negated, node)),
+          // A lookahead may only be quantified with the legacy syntax
+          E.chain(([node, i]) =>
+            direction === 'ahead' && !isUnicode(context)
+              ? parseQuantified(context, node, i)
+              : parseUnquantified(context, node, i)
+          )
+        )
+    )
+  )
+}
+
+interface Quantity {
+  readonly min: number
+  readonly max: number
+  readonly lazy: boolean
+}
+
+const braces = /^\{(\d+)(?:(,)(\d*))?\}/
+
+const parseQuantity = (context: Context, index: number): Parsed<O.Option<Quantity>> => {
+  const c = context.pattern[index]
+  const bounds: O.Option<readonly [number, number, number]> =
+    c === '*'
+      ? O.some([0, Infinity, 1])
+      : c === '+'
+      ? O.some([1, Infinity, 1])
+      : c === '?'
+      ? O.some([0, 1, 1])
+      : pipe(
+          execAt(context, index, braces),
+          O.map(([s, min, comma, max]) => [
+            Number(min),
+            comma === undefined ? Number(min) : max === '' ? Infinity : Number(max),
+            s.length
+          ])
+        )
+  return pipe(
+    bounds,
+    O.fold(
+      () => succeed(O.none, index),
+      ([min, max, length]) => {
+        const end = index + length
+        const lazy = context.pattern[end] === '?'
+        return min > max
+          ? fail(index, 'numbers out of order in {} quantifier')
+          : succeed(O.some({ min, max, lazy }), lazy ? end + 1 : end)
+      }
+    )
+  )
+}
+
+const parseQuantified = (context: Context, atom: AST.Ast, index: number): Parsed<AST.Ast> =>
+  pipe(
+    parseQuantity(context, index),
+    E.map(([quantity, i]) => [
+      pipe(
+        quantity,
+        O.fold(
+          () => atom,
+          ({ min, max, lazy }) => AST.quantifier(atom, min, max, lazy)
+        )
+      ),
+      i
+    ])
+  )
+
+const parseUnquantified = (context: Context, node: AST.Ast, index: number): Parsed<AST.Ast> =>
+  pipe(
+    parseQuantity(context, index),
+    E.chain(([quantity]) => (O.isSome(quantity) ? fail(index, 'Nothing to repeat') : succeed(node, index)))
+  )
+
+const parseAtom = (context: Context, index: number): Parsed<AST.Ast> => {
+  const c = charAt(context, index)
+  switch (c) {
+    case '.':
+      return succeed(AST.characterType('any'), index + 1)
+    case '(':
+      return startsWith(context, index, '(?:')
+        ? parseGroup(context, index, index + 3, AST.group)
+        : startsWith(context, index, '(?<')
+        ? parseNamedCapture(context, index)
+        : startsWith(context, index, '(?')
+        ? fail(index + 1, 'Invalid group')
+        : parseGroup(context, index, index + 1, AST.capture)
+    case '[':
+      return parseClass(context, index)
+    case '\\':
+      return parseAtomEscape(context, index + 1)
+    case '*':
+    case '+':
+    case '?':
+      return fail(index, 'Nothing to repeat')
+    case '{':
+      return O.isSome(execAt(context, index, braces))
+        ? fail(index, 'Nothing to repeat')
+        : isUnicode(context)
+        ? fail(index, 'Lone quantifier brackets')
+        : succeed(AST.literal(c), index + 1)
+    case ']':
+    case '}':
+      return isUnicode(context) ? fail(index, 'Lone quantifier brackets') : succeed(AST.literal(c), index + 1)
+    default:
+      return succeed(AST.literal(c), index + c.length)
+  }
+}
+
+const parseGroup = (context: Context, open: number, index: number, f: (node: AST.Ast) => AST.Ast): Parsed<AST.Ast> =>
+  pipe(
+    parseDisjunction(context, index),
+    E.chain(([node, i]) => (context.pattern[i] === ')' ? succeed(f(node), i + 1) : fail(open, 'Unterminated group')))
+  )
+
+const parseNamedCapture = (context: Context, index: number): Parsed<AST.Ast> =>
+  pipe(
+    execAt(context, index + 3, /^([^>]*)>/),
+    O.filter(([, name]) => isGroupName(name)),
+    O.fold(
+      () => fail(index + 3, 'Invalid capture group name'),
+      ([s, name]) => parseGroup(context, index, index + 3 + s.length, (node) => AST.namedCapture(name, node))
+    )
+  )
+
+const characterTypes: Record<string, AST.ClassCharacterType['type']> = {
+  d: 'digit',
+  w: 'word',
+  s: 'whitespace'
+}
+
+const parseAtomEscape = (context: Context, index: number): Parsed<AST.Ast> => {
+  const c = charAt(context, index)
+  const type = characterTypes[c.toLowerCase()]
+  if (type !== undefined) {
+    return succeed(
+      c === c.toLowerCase() ? AST.characterType(type) : AST.characterClass(false, [AST.classCharacterType(type, true)]),
+      index + 1
+    )
+  }
+  if ((c === 'p' || c === 'P') && isUnicode(context)) {
+    return pipe(
+      parseProperty(context, index),
+      E.map(([member, i]) => [AST.characterClass(false, [member]), i])
+    )
+  }
+  if (c === 'k' && (isUnicode(context) || context.named)) {
+    return pipe(
+      execAt(context, index + 1, /^<([^>]*)>/),
+      O.filter(([, name]) => isGroupName(name)),
+      O.fold(
+        () => fail(index - 1, 'Invalid named reference'),
+        ([s, name]) => succeed(AST.backreference(name), index + 1 + s.length)
+      )
+    )
+  }
+  return pipe(
+    execAt(context, index, /^[1-9]\d*/),
+    O.filter(([digits]) => Number(digits) <= context.captures),
+    O.fold(
+      () =>
+        pipe(
+          parseCharacterEscape(context, index, false),
+          E.map(([value, i]) => [AST.literal(value), i])
+        ),
+      ([digits]) => succeed(AST.backreference(Number(digits)), index + digits.length)
+    )
+  )
+}
+
+const controlEscapes: Record<string, string> = {
+  t: '\t',
+  n: '\n',
+  v: '\v',
+  f: '\f',
+  r: '\r'
+}
+
+const syntaxCharacters = '^$\\.*+?()[]{}|/'
+
+// Returns the escaped characters, where the index is that of the character which follows
+// the backslash
+const parseCharacterEscape = (context: Context, index: number, inClass: boolean): Parsed<string> => {
+  const c = charAt(context, index)
+  if (c === '') {
+    return fail(index - 1, '\\ at end of pattern')
+  }
+  const control = controlEscapes[c]
+  if (control !== undefined) {
+    return succeed(control, index + 1)
+  }
+  switch (c) {
+    case 'c':
+      return pipe(
+        execAt(context, index + 1, inClass && !isUnicode(context) ? /^[A-Za-z0-9_]/ : /^[A-Za-z]/),
+        O.fold(
+          // With the legacy syntax, the backslash is itself a literal
+          () => (isUnicode(context) ? fail(index - 1, 'Invalid unicode escape') : succeed('\\', index)),
+          ([letter]) => succeed(String.fromCharCode(letter.charCodeAt(0) % 32), index + 2)
+        )
+      )
+    case 'x':
+      return pipe(
+        execAt(context, index + 1, /^[0-9A-Fa-f]{2}/),
+        O.fold(
+          () => (isUnicode(context) ? fail(index - 1, 'Invalid escape') : succeed(c, index + 1)),
+          ([hex]) => succeed(String.fromCharCode(parseInt(hex, 16)), index + 3)
+        )
+      )
+    case 'u':
+      return parseUnicodeEscape(context, index)
+    default:
+      break
+  }
+  if (/\d/.test(c)) {
+    return c === '0' && !/\d/.test(context.pattern[index + 1] ?? '')
+      ? succeed('\0', index + 1)
+      : isUnicode(context)
+      ? fail(index - 1, inClass ? 'Invalid class escape' : 'Invalid escape')
+      : pipe(
+          execAt(context, index, /^(?:[0-3][0-7]{0,2}|[4-7][0-7]?)/),
+          O.fold(
+            () => succeed(c, index + 1),
+            ([octal]) => succeed(String.fromCharCode(parseInt(octal, 8)), index + octal.length)
+          )
+        )
+  }
+  return !isUnicode(context) || syntaxCharacters.indexOf(c) !== -1 || (inClass && c === '-')
+    ? succeed(c, index + c.length)
+    : fail(index - 1, 'Invalid escape')
+}
+
+const parseUnicodeEscape = (context: Context, index: number): Parsed<string> => {
+  if (isUnicode(context) && context.pattern[index + 1] === '{') {
+    return pipe(
+      execAt(context, index + 1, /^\{([0-9A-Fa-f]+)\}/),
+      O.filter(([, hex]) => parseInt(hex, 16) <= 0x10ffff),
+      O.fold(
+        () => fail(index - 1, 'Invalid Unicode escape'),
+        ([s, hex]) => succeed(String.fromCodePoint(parseInt(hex, 16)), index + 1 + s.length)
+      )
+    )
+  }
+  return pipe(
+    execAt(context, index + 1, /^[0-9A-Fa-f]{4}/),
+    O.fold(
+      () => (isUnicode(context) ? fail(index - 1, 'Invalid Unicode escape') : succeed('u', index + 1)),
+      ([hex]) => {
+        const unit = String.fromCharCode(parseInt(hex, 16))
+        // With either unicode flag, an escaped surrogate pair is a single code point
+        return pipe(
+          execAt(context, index + 5, /^\\u(d[c-f][0-9a-f]{2})/i),
+          O.filter(() => isUnicode(context) && /^d[89ab]/i.test(hex)),
+          O.fold(
+            () => succeed(unit, index + 5),
+            ([s, low]) => succeed(`${unit}${String.fromCharCode(parseInt(low, 16))}`, index + 5 + s.length)
+          )
+        )
+      }
+    )
+  )
+}
+
+const parseProperty = (context: Context, index: number): Parsed<AST.ClassMember> =>
+  pipe(
+    execAt(context, index + 1, /^\{(\w+)(?:=(\w+))?\}/),
+    O.fold(
+      () => fail(index - 1, 'Invalid property name'),
+      ([s, name, value]) =>
+        succeed(AST.classProperty(name, O.fromNullable(value), context.pattern[index] === 'P'), index + 1 + s.length)
+    )
+  )
+
+// A character, or an escape which matches one of several characters
+type ClassAtom = string | AST.ClassMember
+
+const parseClassAtom = (context: Context, index: number): Parsed<ClassAtom> => {
+  const c = charAt(context, index)
+  if (c !== '\\') {
+    return succeed(c, index + c.length)
+  }
+  const escaped = charAt(context, index + 1)
+  const type = characterTypes[escaped.toLowerCase()]
+  if (type !== undefined) {
+    return succeed(AST.classCharacterType(type, escaped !== escaped.toLowerCase()), index + 2)
+  }
+  if ((escaped === 'p' || escaped === 'P') && isUnicode(context)) {
+    return parseProperty(context, index + 1)
+  }
+  return escaped === 'b' ? succeed('\b', index + 2) : parseCharacterEscape(context, index + 1, true)
+}
+
+const toClassMember: (atom: ClassAtom | AST.CharacterClass) => AST.ClassMember = (atom) =>
+  typeof atom === 'string' ? AST.classCharacters(atom) : atom._tag === 'CharacterClass' ? AST.classNested(atom) : atom
+
+// Adjacent characters are combined into a single member
+const appendMember: (
+  members: ReadonlyArray<AST.ClassMember>,
+  member: AST.ClassMember
+) => ReadonlyArray<AST.ClassMember> = (members, member) => {
+  const last = members[members.length - 1]
+  return last !== undefined && last._tag === 'ClassCharacters' && member._tag === 'ClassCharacters'
+    ? A.snoc(members.slice(0, -1), AST.classCharacters(`${last.value}${member.value}`))
+    : A.snoc(members, member)
+}
+
+const parseClass = (context: Context, index: number): Parsed<AST.CharacterClass> => {
+  const negated = context.pattern[index + 1] === '^'
+  const start = index + (negated ? 2 : 1)
+  return pipe(
+    context.syntax === 'unicodeSets' ? parseClassSetExpression(context, start) : parseClassRanges(context, start),
+    E.chain(([members, i]) =>
+      context.pattern[i] === ']'
+        ? succeed(AST.characterClass(negated, members), i + 1)
+        : fail(index, 'Unterminated character class')
+    )
+  )
+}
+
+const isClassEnd: (context: Context, index: number) => boolean = (context, index) =>
+  index >= context.pattern.length || context.pattern[index] === ']'
+
+const parseClassRanges = (context: Context, index: number): Parsed<ReadonlyArray<AST.ClassMember>> => {
+  let members: ReadonlyArray<AST.ClassMember> = []
+  let i = index
+  while (!isClassEnd(context, i)) {
+    const result = parseClassRange(context, i)
+    if (E.isLeft(result)) {
+      return result
+    }
+    const [range, next] = result.right
+    members = range.reduce(appendMember, members)
+    i = next
+  }
+  return succeed(members, i)
+}
+
+const parseClassRange = (context: Context, index: number): Parsed<ReadonlyArray<AST.ClassMember>> =>
+  pipe(
+    parseClassAtom(context, index),
+    E.chain(([from, i]) =>
+      context.pattern[i] === '-' && !isClassEnd(context, i + 1)
+        ? pipe(
+            parseClassAtom(context, i + 1),
+            E.chain(([to, j]) =>
+              typeof from === 'string' && typeof to === 'string'
+                ? (from.codePointAt(0) as number) > (to.codePointAt(0) as number)
+                  ? fail(index, 'Range out of order in character class')
+                  : succeed([AST.classRange(from, to)], j)
+                : isUnicode(context)
+                ? fail(index, 'Invalid character class')
+                : // With the legacy syntax, a range which includes an escape such as `\d` is not a range
+                  succeed([toClassMember(from), AST.classCharacters('-'), toClassMember(to)], j)
+            )
+          )
+        : succeed([toClassMember(from)], i)
+    )
+  )
+
+// With the `unicodeSets` flag, these characters must be escaped within a class
+const classSetSyntaxCharacters = '()[]{}/-\\|'
+
+const classSetDoublePunctuators = '&!#$%*+,.:;<=>?@^`~'
+
+type ClassSetOperand = ClassAtom | AST.CharacterClass
+
+const parseClassSetOperand = (context: Context, index: number): Parsed<ClassSetOperand> => {
+  const c = charAt(context, index)
+  if (c === '[') {
+    return parseClass(context, index)
+  }
+  if (startsWith(context, index, '\\q{')) {
+    return fail(index, 'Invalid class set operand')
+  }
+  if (c !== '\\' && classSetSyntaxCharacters.indexOf(c) !== -1) {
+    return fail(index, 'Invalid set operation in character class')
+  }
+  if (classSetDoublePunctuators.indexOf(c) !== -1 && context.pattern[index + 1] === c) {
+    return fail(index, 'Invalid set operation in character class')
+  }
+  return parseClassAtom(context, index)
+}
+
+const toOperandClass: (operand: ClassSetOperand) => AST.CharacterClass = (operand) =>
+  typeof operand !== 'string' && operand._tag === 'CharacterClass'
+    ? operand
+    : AST.characterClass(false, [toClassMember(operand)])
+
+const setOperators: ReadonlyArray<readonly [string, AST.ClassSetOperation['operator']]> = [
+  ['&&', 'intersection'],
+  ['--', 'subtraction']
+]
+
+const startsWithSetOperator: (context: Context, index: number) => boolean = (context, index) =>
+  setOperators.some(([operator]) => startsWith(context, index, operator))
+
+const parseClassSetExpression = (context: Context, index: number): Parsed<ReadonlyArray<AST.ClassMember>> =>
+  isClassEnd(context, index)
+    ? succeed(A.empty, index)
+    : pipe(
+        parseClassSetOperand(context, index),
+        E.chain(([operand, i]) =>
+          pipe(
+            setOperators,
+            A.findFirst(([operator]) => startsWith(context, i, operator)),
+            O.fold(
+              () => parseClassUnion(context, operand, index, i),
+              ([operator, operation]) =>
+                parseClassSetOperation(context, operator, operation, toOperandClass(operand), i)
+            )
+          )
+        )
+      )
+
+const parseClassSetOperation = (
+  context: Context,
+  operator: string,
+  operation: AST.ClassSetOperation['operator'],
+  operand: AST.CharacterClass,
+  index: number
+): Parsed<ReadonlyArray<AST.ClassMember>> => {
+  let left = operand
+  let i = index
+  while (startsWith(context, i, operator)) {
+    const result = parseClassSetOperand(context, i + 2)
+    if (E.isLeft(result)) {
+      return result
+    }
+    const [right, next] = result.right
+    left = AST.characterClass(false, [AST.classSetOperation(operation, left, toOperandClass(right))])
+    i = next
+  }
+  return isClassEnd(context, i) ? succeed(left.members, i) : fail(i, 'Invalid set operation in character class')
+}
+
+const parseClassUnion = (
+  context: Context,
+  first: ClassSetOperand,
+  start: number,
+  index: number
+): Parsed<ReadonlyArray<AST.ClassMember>> => {
+  let members: ReadonlyArray<AST.ClassMember> = []
+  let operand = first
+  let operandIndex = start
+  let i = index
+  for (;;) {
+    if (context.pattern[i] === '-' && !startsWith(context, i, '--')) {
+      const result = parseClassSetOperand(context, i + 1)
+      if (E.isLeft(result)) {
+        return result
+      }
+      const [to, j] = result.right
+      if (typeof operand !== 'string' || typeof to !== 'string') {
+        return fail(operandIndex, 'Invalid character class')
+      }
+      if ((operand.codePointAt(0) as number) > (to.codePointAt(0) as number)) {
+        return fail(operandIndex, 'Range out of order in character class')
+      }
+      members = A.snoc(members, AST.classRange(operand, to))
+      i = j
+    } else {
+      members = appendMember(members, toClassMember(operand))
+    }
+    if (isClassEnd(context, i)) {
+      return succeed(members, i)
+    }
+    if (startsWithSetOperator(context, i)) {
+      return fail(i, 'Invalid set operation in character class')
+    }
+    const result = parseClassSetOperand(context, i)
+    if (E.isLeft(result)) {
+      return result
+    }
+    const [next, j] = result.right
+    operandIndex = i
+    operand = next
+    i = j
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * `parser-ts` parsers of the text which is matched by an expression.
+ *
+ * A parser matches the expression at the cursor of the stream only, but the input before
+ * the cursor is visible to lookbehinds and to the start of a line. The stream is expected
+ * to hold the characters of the input, as created by `run` of `parser-ts/lib/string`.
+ *
+ * @example
+ * import { pipe } from 'fp-ts/lib/function'
+ * import * as Ei from 'fp-ts/lib/Either'
+ * import * as P from 'parser-ts/lib/Parser'
+ * import * as S from 'parser-ts/lib/string'
+ * import * as E from 'expressive-ts/lib/Expression'
+ * import * as PT from 'expressive-ts/lib/ParserTs'
+ *
+ * const number = pipe(E.compile, E.digit, E.oneOrMore)
+ *
+ * const sum = pipe(
+ *   PT.matching(number),
+ *   P.chainFirst(() => S.string('+')),
+ *   P.chain((x) =>
+ *     pipe(
+ *       PT.matching(number),
+ *       P.map((y) => Number(x) + Number(y))
+ *     )
+ *   )
+ * )
+ *
+ * assert.deepStrictEqual(
+ *   pipe(
+ *     S.run('1+41')(sum),
+ *     Ei.map(({ value }) => value)
+ *   ),
+ *   Ei.right(42)
+ * )
+ *
+ * @since 0.1.0
+ */
+import * as O from 'fp-ts/lib/Option'
+import { pipe } from 'fp-ts/lib/function'
+import { Char } from 'parser-ts/lib/char'
+import * as PR from 'parser-ts/lib/ParseResult'
+import * as P from 'parser-ts/lib/Parser'
+import { stream, Stream } from 'parser-ts/lib/Stream'
+
+import * as E from './Expression'
+import * as M from './Match'
+
+// -------------------------------------------------------------------------------------
+// constructors
+// -------------------------------------------------------------------------------------
+
+/**
+ * A parser of the match of the expression, including the text matched by its capturing
+ * groups.
+ *
+ * @category constructors
+ * @since 0.1.0
+ */
+export const exec: <G>(builder: E.ExpressionBuilder<G>) => P.Parser<Char, M.Match<G>> = (builder) => {
+  const execAt = M.execAt(builder)
+  const expected = [E.toRegexString(builder)]
+  return (i) =>
+    pipe(
+      execAt(text(i), i.cursor),
+      O.fold(
+        () => PR.error(i, expected),
+        (match) => PR.success(match, stream(i.buffer, i.cursor + match.value.length), i)
+      )
+    )
+}
+
+/**
+ * A parser of the text which is matched by the expression.
+ *
+ * @category constructors
+ * @since 0.1.0
+ */
+export const matching: (builder: E.ExpressionBuilder) => P.Parser<Char, string> = (builder) =>
+  pipe(
+    exec(builder),
+    P.map((match) => match.value)
+  )
+
+// -------------------------------------------------------------------------------------
+// utils
+// -------------------------------------------------------------------------------------
+
+// The input is joined once for every buffer, rather than once for every parser
+const texts = new WeakMap<Array<Char>, string>()
+
+const text: (i: Stream<Char>) => string = (i) => {
+  const cached = texts.get(i.buffer)
+  if (cached !== undefined) {
+    return cached
+  }
+  const joined = i.buffer.join('')
+  texts.set(i.buffer, joined)
+  return joined
+}
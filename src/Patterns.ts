@@ -0,0 +1,306 @@
+/**
+ * Expressions for common formats, built from the combinators of `Expression`.
+ *
+ * Each pattern is an expression builder which may be added to a larger expression with
+ * `sequence`, `oneOf` or any other combinator accepting a sub-expression. The patterns
+ * are neither anchored nor flagged, and contain no capturing groups, so that neither the
+ * numbering nor the names of the capturing groups of the larger expression are affected.
+ *
+ * @example
+ * import { pipe } from 'fp-ts/lib/function'
+ * import * as E from 'expressive-ts/lib/Expression'
+ * import * as M from 'expressive-ts/lib/Match'
+ * import * as Pa from 'expressive-ts/lib/Patterns'
+ *
+ * const endpoint = pipe(
+ *   E.compile,
+ *   E.startOfInput,
+ *   E.namedCapture('host', Pa.ipv4),
+ *   E.string(':'),
+ *   E.namedCapture('port', pipe(E.compile, E.integerRange(0, 65535))),
+ *   E.endOfInput
+ * )
+ *
+ * assert.strictEqual(M.test(endpoint)('192.168.0.1:8080'), true)
+ * assert.strictEqual(M.test(endpoint)('192.168.0.256:8080'), false)
+ *
+ * @since 0.1.0
+ */
+import { pipe } from 'fp-ts/lib/function'
+
+import * as CC from './CharClass'
+import * as E from './Expression'
+
+// -------------------------------------------------------------------------------------
+// patterns
+// -------------------------------------------------------------------------------------
+
+const hexDigit = pipe(CC.digit, CC.union(CC.range('a', 'f')), CC.union(CC.range('A', 'F')))
+
+const hexDigits: (n: number) => E.ExpressionBuilder = (n) => pipe(E.compile, E.charClass(hexDigit), E.exactly(n))
+
+const dot = pipe(E.compile, E.string('.'))
+
+const colon = pipe(E.compile, E.string(':'))
+
+const dash = pipe(E.compile, E.string('-'))
+
+/**
+ * Matches a dotted-decimal IPv4 address, such as `192.168.0.1`. Octets with a leading
+ * zero are not matched.
+ *
+ * @category patterns
+ * @since 0.1.0
+ */
+export const ipv4: E.ExpressionBuilder = pipe(
+  E.compile,
+  E.integerRange(0, 255),
+  E.repeat(pipe(E.compile, E.string('.'), E.integerRange(0, 255)), { min: 3, max: 3 })
+)
+
+const h16 = pipe(E.compile, E.charClass(hexDigit), E.between(1, 4))
+
+const groups: (n: number) => E.ExpressionBuilder = (n) =>
+  pipe(E.compile, E.repeat(pipe(h16, E.string(':')), { min: n, max: n }))
+
+// At most `n` groups each followed by a colon and then a group, all of which are optional
+const leadingGroups: (n: number) => E.ExpressionBuilder = (n) =>
+  pipe(
+    E.compile,
+    E.maybe(n === 0 ? h16 : pipe(E.compile, E.repeat(pipe(h16, E.string(':')), { min: 0, max: n }), E.sequence([h16])))
+  )
+
+// The last 32 bits of an address, which may be written as an IPv4 address
+const ls32 = pipe(E.compile, E.oneOf([ipv4, pipe(h16, E.string(':'), E.sequence([h16]))]))
+
+/**
+ * Matches an IPv6 address in any of the forms of RFC 4291, such as `2001:db8::1` or
+ * `::ffff:192.168.0.1`, with hexadecimal digits of either case. Zone identifiers are not
+ * matched.
+ *
+ * @category patterns
+ * @since 0.1.0
+ */
+export const ipv6: E.ExpressionBuilder = pipe(
+  E.compile,
+  // The alternatives of RFC 3986, by the number of groups before the `::`
+  E.oneOf([
+    pipe(groups(6), E.sequence([ls32])),
+    pipe(E.compile, E.string('::'), E.sequence([groups(5), ls32])),
+    pipe(leadingGroups(0), E.string('::'), E.sequence([groups(4), ls32])),
+    pipe(leadingGroups(1), E.string('::'), E.sequence([groups(3), ls32])),
+    pipe(leadingGroups(2), E.string('::'), E.sequence([groups(2), ls32])),
+    pipe(leadingGroups(3), E.string('::'), E.sequence([groups(1), ls32])),
+    pipe(leadingGroups(4), E.string('::'), E.sequence([ls32])),
+    pipe(leadingGroups(5), E.string('::'), E.sequence([h16])),
+    pipe(leadingGroups(6), E.string('::'))
+  ])
+)
+
+/**
+ * Matches a UUID in its canonical form of 32 hexadecimal digits of either case, such as
+ * `123e4567-e89b-12d3-a456-426614174000`. The version and variant are not checked.
+ *
+ * @category patterns
+ * @since 0.1.0
+ */
+export const uuid: E.ExpressionBuilder = pipe(
+  hexDigits(8),
+  E.sequence([dash, hexDigits(4), dash, hexDigits(4), dash, hexDigits(4), dash, hexDigits(12)])
+)
+
+const twoDigits: (min: number, max: number) => E.ExpressionBuilder = (min, max) =>
+  pipe(E.compile, E.integerRange(min, max, { leadingZeros: true }))
+
+/**
+ * Matches an ISO 8601 calendar date in its extended format, such as `2021-03-14`. The day
+ * is only checked to be between `01` and `31`, whatever the month.
+ *
+ * @category patterns
+ * @since 0.1.0
+ */
+export const isoDate: E.ExpressionBuilder = pipe(
+  E.compile,
+  E.digit,
+  E.exactly(4),
+  E.sequence([dash, twoDigits(1, 12), dash, twoDigits(1, 31)])
+)
+
+/**
+ * Matches an ISO 8601 time of day in its extended format, such as `13:45`, `13:45:30` or
+ * `13:45:30.250+01:00`. The seconds, their fraction and the offset from UTC are optional,
+ * and a leap second of `60` is matched.
+ *
+ * @category patterns
+ * @since 0.1.0
+ */
+export const isoTime: E.ExpressionBuilder = pipe(
+  twoDigits(0, 23),
+  E.sequence([colon, twoDigits(0, 59)]),
+  E.maybe(pipe(colon, E.sequence([twoDigits(0, 60)]), E.maybe(pipe(E.compile, E.anyOf('.,'), E.digit, E.oneOrMore)))),
+  E.maybe(
+    pipe(
+      E.compile,
+      E.oneOf([
+        pipe(E.compile, E.string('Z')),
+        pipe(E.compile, E.anyOf('+-'), E.sequence([twoDigits(0, 23), colon, twoDigits(0, 59)]))
+      ])
+    )
+  )
+)
+
+/**
+ * Matches an ISO 8601 date and time of day separated by `T`, such as
+ * `2021-03-14T13:45:30Z`.
+ *
+ * @category patterns
+ * @since 0.1.0
+ */
+export const isoDateTime: E.ExpressionBuilder = pipe(isoDate, E.string('T'), E.sequence([isoTime]))
+
+const letter = pipe(CC.range('a', 'z'), CC.union(CC.range('A', 'Z')))
+
+const alphanumeric = pipe(letter, CC.union(CC.digit))
+
+const dotSeparated: (sub: E.ExpressionBuilder) => E.ExpressionBuilder = (sub) =>
+  pipe(sub, E.many(pipe(dot, E.sequence([sub]))))
+
+const numericIdentifier = pipe(
+  E.compile,
+  E.oneOf([pipe(E.compile, E.range('1', '9'), E.digit, E.zeroOrMore), pipe(E.compile, E.string('0'))])
+)
+
+const identifierCharacter = pipe(alphanumeric, CC.union(CC.chars('-')))
+
+// An identifier which is not numeric has a letter or a hyphen
+const prereleaseIdentifier = pipe(
+  E.compile,
+  E.oneOf([
+    pipe(
+      E.compile,
+      E.digit,
+      E.zeroOrMore,
+      E.charClass(pipe(letter, CC.union(CC.chars('-')))),
+      E.charClass(identifierCharacter),
+      E.zeroOrMore
+    ),
+    numericIdentifier
+  ])
+)
+
+const buildIdentifier = pipe(E.compile, E.charClass(identifierCharacter), E.oneOrMore)
+
+/**
+ * Matches a version as specified by Semantic Versioning 2.0.0, such as `1.0.0-rc.1+build.5`.
+ *
+ * @category patterns
+ * @since 0.1.0
+ */
+export const semver: E.ExpressionBuilder = pipe(
+  numericIdentifier,
+  E.sequence([dot, numericIdentifier, dot, numericIdentifier]),
+  E.maybe(pipe(E.compile, E.string('-'), E.sequence([dotSeparated(prereleaseIdentifier)]))),
+  E.maybe(pipe(E.compile, E.string('+'), E.sequence([dotSeparated(buildIdentifier)])))
+)
+
+// A label of a domain name neither begins nor ends with a hyphen
+const labelOf: (first: CC.CharClass) => E.ExpressionBuilder = (first) =>
+  pipe(
+    E.compile,
+    E.charClass(first),
+    E.maybe(pipe(E.compile, E.charClass(identifierCharacter), E.between(0, 61), E.charClass(alphanumeric)))
+  )
+
+const label = labelOf(alphanumeric)
+
+// The top-level label begins with a letter, so that an IPv4 address is not a host name
+const topLabel = labelOf(letter)
+
+/**
+ * Matches an email address whose local part is a dot-separated sequence of atoms, and
+ * whose domain has at least two labels, such as `jane.doe+news@example.co.uk`. This is the
+ * subset of RFC 5322 in common use, so quoted local parts, comments and address literals
+ * are not matched.
+ *
+ * @category patterns
+ * @since 0.1.0
+ */
+export const email: E.ExpressionBuilder = pipe(
+  dotSeparated(
+    pipe(E.compile, E.charClass(pipe(alphanumeric, CC.union(CC.chars("!#$%&'*+/=?^_`{|}~-")))), E.oneOrMore)
+  ),
+  E.string('@'),
+  E.many1(pipe(label, E.string('.'))),
+  E.sequence([topLabel])
+)
+
+const hostname = pipe(E.compile, E.many(pipe(label, E.string('.'))), E.sequence([topLabel]))
+
+/**
+ * Matches an absolute `http`, `https` or `ftp` URL, such as
+ * `https://example.com:8080/path?query#fragment`. The host is a host name, an IPv4 address
+ * or an IPv6 address within brackets, and the scheme is matched regardless of case.
+ *
+ * @category patterns
+ * @since 0.1.0
+ */
+export const url: E.ExpressionBuilder = pipe(
+  E.compile,
+  E.oneOfStrings(['http', 'https', 'ftp'], { caseInsensitive: true }),
+  E.string('://'),
+  E.oneOf([ipv4, pipe(E.compile, E.string('['), E.sequence([ipv6]), E.string(']')), hostname]),
+  E.maybe(pipe(colon, E.integerRange(0, 65535))),
+  E.maybe(
+    pipe(E.compile, E.string('/'), E.charClass(CC.negate(pipe(CC.whitespace, CC.union(CC.chars('?#'))))), E.zeroOrMore)
+  ),
+  E.maybe(
+    pipe(E.compile, E.string('?'), E.charClass(CC.negate(pipe(CC.whitespace, CC.union(CC.chars('#'))))), E.zeroOrMore)
+  ),
+  E.maybe(pipe(E.compile, E.string('#'), E.charClass(CC.negate(CC.whitespace)), E.zeroOrMore))
+)
+
+/**
+ * Matches a hexadecimal colour of 3, 4, 6 or 8 digits of either case preceded by `#`,
+ * such as `#1e90ff`.
+ *
+ * @category patterns
+ * @since 0.1.0
+ */
+export const hexColor: E.ExpressionBuilder = pipe(
+  E.compile,
+  E.string('#'),
+  // The longest alternative is tried first, so that a colour is never cut short
+  E.oneOf([hexDigits(8), hexDigits(6), hexDigits(4), hexDigits(3)])
+)
+
+const digitGroups: (separator: E.ExpressionBuilder) => E.ExpressionBuilder = (separator) => {
+  const four = pipe(E.compile, E.digit, E.exactly(4))
+  return pipe(
+    four,
+    E.sequence([separator]),
+    E.oneOf([
+      pipe(E.compile, E.digit, E.exactly(6), E.sequence([separator]), E.digit, E.exactly(5)),
+      pipe(
+        four,
+        E.sequence([separator, four, separator]),
+        E.oneOf([
+          pipe(four, E.sequence([separator]), E.digit, E.between(1, 3)),
+          pipe(E.compile, E.digit, E.between(1, 4))
+        ])
+      )
+    ])
+  )
+}
+
+/**
+ * Matches a card number of 13 to 19 digits, such as `4111 1111 1111 1111`. The digits are
+ * either ungrouped, or in groups of four (or of four, six and five) separated by the same
+ * space or hyphen throughout. The check digit is not verified.
+ *
+ * @category patterns
+ * @since 0.1.0
+ */
+export const cardNumber: E.ExpressionBuilder = pipe(
+  E.compile,
+  E.oneOf([digitGroups(pipe(E.compile, E.string(' '))), digitGroups(dash), digitGroups(E.compile)])
+)
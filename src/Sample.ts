@@ -0,0 +1,326 @@
+/**
+ * Generating strings which match, or nearly match, an expression.
+ *
+ * A string is generated from the syntax tree of the expression, and is then checked
+ * against the expression in its entirety, so that anchors, lookarounds and backreferences
+ * are honoured. Unbounded quantifiers are repeated at most four more times than their
+ * minimum.
+ *
+ * @example
+ * import { pipe } from 'fp-ts/lib/function'
+ * import * as O from 'fp-ts/lib/Option'
+ * import * as E from 'expressive-ts/lib/Expression'
+ * import * as M from 'expressive-ts/lib/Match'
+ * import * as S from 'expressive-ts/lib/Sample'
+ *
+ * const color = pipe(E.compile, E.startOfInput, E.string('#'), E.range('a', 'f'), E.exactly(6), E.caseInsensitive)
+ *
+ * assert.strictEqual(pipe(S.matching(color)(S.seeded(42)), O.exists(M.test(color))), true)
+ * assert.strictEqual(pipe(S.nearMiss(color)(S.seeded(42)), O.exists(M.test(color))), false)
+ *
+ * @since 0.1.0
+ */
+import * as O from 'fp-ts/lib/Option'
+import * as A from 'fp-ts/lib/ReadonlyArray'
+import { pipe } from 'fp-ts/lib/function'
+
+import * as AST from './Ast'
+import * as CC from './CharClass'
+import * as E from './Expression'
+
+// -------------------------------------------------------------------------------------
+// models
+// -------------------------------------------------------------------------------------
+
+/**
+ * A source of random integers between `min` and `max` (inclusive).
+ *
+ * @category models
+ * @since 0.1.0
+ */
+export type Random = (min: number, max: number) => number
+
+// -------------------------------------------------------------------------------------
+// constructors
+// -------------------------------------------------------------------------------------
+
+/**
+ * A source of random integers which is determined by the seed.
+ *
+ * @category constructors
+ * @since 0.1.0
+ */
+export const seeded: (seed: number) => Random = (seed) => {
+  // The minimal standard generator of Park and Miller
+  let state = Math.abs(Math.floor(seed)) % 2147483647 || 1
+  return (min, max) => {
+    state = (state * 48271) % 2147483647
+    return min + Math.floor(((state - 1) / 2147483646) * (max - min + 1))
+  }
+}
+
+// -------------------------------------------------------------------------------------
+// destructors
+// -------------------------------------------------------------------------------------
+
+/**
+ * Generates a string which is matched in its entirety by the expression, or `none` if no
+ * such string was found.
+ *
+ * @category destructors
+ * @since 0.1.0
+ */
+export const matching: (builder: E.ExpressionBuilder) => (random: Random) => O.Option<string> = (builder) => {
+  const { flags } = builder(E.monoidExpression.empty)
+  const [gen] = compile(flags)(E.toAst(builder), 0)
+  const accepts = fullMatch(E.toRegex(builder))
+  return (random) =>
+    pipe(
+      gen,
+      O.chain((g) => attempt(() => O.some(g(random, {})[0]), accepts))
+    )
+}
+
+/**
+ * Generates a string which is not matched in its entirety by the expression, but which
+ * differs from a matching string by a single character, or `none` if no such string was
+ * found.
+ *
+ * @category destructors
+ * @since 0.1.0
+ */
+export const nearMiss: (builder: E.ExpressionBuilder) => (random: Random) => O.Option<string> = (builder) => {
+  const accepts = fullMatch(E.toRegex(builder))
+  const generate = matching(builder)
+  return (random) =>
+    attempt(
+      () =>
+        pipe(
+          generate(random),
+          O.map((s) => mutate(Array.from(s), random))
+        ),
+      (s) => !accepts(s)
+    )
+}
+
+// -------------------------------------------------------------------------------------
+// utils
+// -------------------------------------------------------------------------------------
+
+const attempts = 100
+
+const attempt = (f: () => O.Option<string>, predicate: (s: string) => boolean): O.Option<string> => {
+  for (let i = 0; i < attempts; i += 1) {
+    const result = pipe(f(), O.filter(predicate))
+    if (O.isSome(result)) {
+      return result
+    }
+  }
+  return O.none
+}
+
+const fullMatch: (regex: RegExp) => (s: string) => boolean = (regex) => {
+  const sticky = new RegExp(`(?:${regex.source})(?![\\s\\S])`, `${regex.flags.replace(/[gy]/g, '')}y`)
+  return (s) => {
+    sticky.lastIndex = 0
+    return sticky.test(s)
+  }
+}
+
+// The characters from which any character other than one mentioned by the expression is
+// chosen
+const pool: ReadonlyArray<string> = [
+  ...Array.from({ length: 0x7f - 0x20 }, (_, i) => String.fromCharCode(0x20 + i)),
+  '\t',
+  '\n',
+  '\r',
+  'é',
+  'ß',
+  'λ',
+  'Ω',
+  'ж',
+  '中',
+  '\u{1F600}'
+]
+
+const pick = <A>(as: ReadonlyArray<A>, random: Random): A => as[random(0, as.length - 1)]
+
+const mutate = (chars: ReadonlyArray<string>, random: Random): string => {
+  const i = random(0, chars.length)
+  const c = pick(pool, random)
+  switch (random(0, 2)) {
+    case 0:
+      return [...chars.slice(0, i), c, ...chars.slice(i)].join('')
+    case 1:
+      return [...chars.slice(0, i), c, ...chars.slice(i + 1)].join('')
+    default:
+      return [...chars.slice(0, i), ...chars.slice(i + 1)].join('')
+  }
+}
+
+type Captures = Readonly<Record<string, string>>
+
+type Gen = (random: Random, captures: Captures) => readonly [string, Captures]
+
+// A generator, if the node can match any string, and the number of capturing groups
+// which precede the next node
+type Compiled = readonly [O.Option<Gen>, number]
+
+const constant: (s: string) => Gen = (s) => (_, captures) => [s, captures]
+
+const concat: (x: Gen, y: Gen) => Gen = (x, y) => (random, captures) => {
+  const [a, c] = x(random, captures)
+  const [b, d] = y(random, c)
+  return [`${a}${b}`, d]
+}
+
+const repeat: (gen: Gen, min: number, max: number) => Gen = (gen, min, max) => (random, captures) => {
+  let result: readonly [string, Captures] = ['', captures]
+  const n = random(min, max)
+  for (let i = 0; i < n; i += 1) {
+    const [s, c] = gen(random, result[1])
+    result = [`${result[0]}${s}`, c]
+  }
+  return result
+}
+
+const oneOf: (gens: ReadonlyArray<Gen>) => Gen = (gens) => (random, captures) => pick(gens, random)(random, captures)
+
+const classFlags: (flags: E.Flags) => string = (flags) =>
+  `${flags.caseInsensitive ? 'i' : ''}${flags.singleLine ? 's' : ''}${
+    flags.unicodeSets ? 'v' : flags.unicode ? 'u' : ''
+  }`
+
+// Generates one of the characters which are matched by the node
+const character: (flags: E.Flags, node: AST.Ast, mentioned: ReadonlyArray<string>) => O.Option<Gen> = (
+  flags,
+  node,
+  mentioned
+) => {
+  const render = flags.unicode || flags.unicodeSets ? AST.renderUnicode : AST.render
+  const regex = new RegExp(`^${render(node)}$`, classFlags(flags))
+  const candidates = [...mentioned, ...pool].filter((c) => regex.test(c))
+  return candidates.length === 0 ? O.none : O.some((random, captures) => [pick(candidates, random), captures])
+}
+
+const range: (from: string, to: string) => Gen = (from, to) => (random, captures) => [
+  String.fromCodePoint(random(from.codePointAt(0) as number, to.codePointAt(0) as number)),
+  captures
+]
+
+const characterClass = (flags: E.Flags, node: AST.CharacterClass): O.Option<Gen> => {
+  // Every character within a range of a class which is not negated is a member
+  const ranges = node.negated
+    ? []
+    : A.filterMap((member: AST.ClassMember) =>
+        member._tag === 'ClassRange' ? O.some(range(member.from, member.to)) : O.none
+      )(node.members)
+  const gens = pipe(
+    character(flags, node, CC.characters(node)),
+    O.fold(
+      () => ranges,
+      (gen) => [...ranges, gen]
+    )
+  )
+  return gens.length === 0 ? O.none : O.some(oneOf(gens))
+}
+
+const literal: (flags: E.Flags, value: string) => Gen = (flags, value) =>
+  flags.caseInsensitive
+    ? (random, captures) => [
+        Array.from(value)
+          .map((c) => pick([c.toLowerCase(), c.toUpperCase()], random))
+          .join(''),
+        captures
+      ]
+    : constant(value)
+
+const compile = (flags: E.Flags) => (ast: AST.Ast, count: number): Compiled => {
+  const go = compile(flags)
+  switch (ast._tag) {
+    case 'Sequence':
+      return ast.nodes.reduce<Compiled>(
+        ([gen, n], node) => {
+          const [next, m] = go(node, n)
+          return [
+            pipe(
+              gen,
+              O.chain((x) =>
+                pipe(
+                  next,
+                  O.map((y) => concat(x, y))
+                )
+              )
+            ),
+            m
+          ]
+        },
+        [O.some(constant('')), count]
+      )
+    case 'Alternation': {
+      const [gens, n] = ast.alternatives.reduce<readonly [ReadonlyArray<O.Option<Gen>>, number]>(
+        ([acc, i], node) => {
+          const [gen, m] = go(node, i)
+          return [[...acc, gen], m]
+        },
+        [[], count]
+      )
+      const options = A.compact(gens)
+      return [options.length === 0 ? O.none : O.some(oneOf(options)), n]
+    }
+    case 'Literal':
+      return [O.some(literal(flags, ast.value)), count]
+    case 'CharacterClass':
+      return [characterClass(flags, ast), count]
+    case 'CharacterType':
+      return [character(flags, ast, []), count]
+    case 'Group':
+      return go(ast.node, count)
+    case 'Capture': {
+      const [gen, n] = go(ast.node, count + 1)
+      const keys = [
+        String(count + 1),
+        ...pipe(
+          ast.name,
+          O.fold(
+            () => [],
+            (name) => [name]
+          )
+        )
+      ]
+      return [
+        pipe(
+          gen,
+          O.map(
+            (g): Gen => (random, captures) => {
+              const [s, c] = g(random, captures)
+              return [s, keys.reduce((acc, key) => ({ ...acc, [key]: s }), c)]
+            }
+          )
+        ),
+        n
+      ]
+    }
+    case 'Quantifier': {
+      const [gen, n] = go(ast.node, count)
+      const max = Math.min(ast.max, ast.min + 4)
+      return [
+        pipe(
+          gen,
+          O.fold(
+            () => (ast.min === 0 ? O.some(constant('')) : O.none),
+            (g) => O.some(repeat(g, ast.min, max))
+          )
+        ),
+        n
+      ]
+    }
+    // A lookaround does not consume any input, but its capturing groups are counted
+    case 'Lookaround':
+      return [O.some(constant('')), go(ast.node, count)[1]]
+    case 'Backreference':
+      return [O.some((_, captures) => [captures[String(ast.group)] ?? '', captures]), count]
+    default:
+      return [O.some(constant('')), count]
+  }
+}
@@ -0,0 +1,313 @@
+/**
+ * Tracing how far an expression matches an input.
+ *
+ * The steps of an expression are the sub-expressions which are matched one after the
+ * other at its top level, such as the sub-expression added by each combinator of a `pipe`.
+ * A trace records the text consumed by each step of the longest partial match, which is
+ * the first match of the most steps, and the step which then could not be matched.
+ *
+ * @example
+ * import { pipe } from 'fp-ts/lib/function'
+ * import * as E from 'expressive-ts/lib/Expression'
+ * import * as Tr from 'expressive-ts/lib/Trace'
+ *
+ * const date = pipe(E.compile, E.digit, E.exactly(4), E.string('-'), E.digit, E.exactly(2))
+ *
+ * assert.strictEqual(
+ *   Tr.showTrace.show(Tr.trace(date)('on 2021-3')),
+ *   [
+ *     'No match, failed at index 8',
+ *     "  'on 2021-3'",
+ *     '      ~~~~~^',
+ *     "  ✓ \\d{4}  '2021'",
+ *     "  ✓ -      '-'",
+ *     '  ✗ \\d{2}'
+ *   ].join('\n')
+ * )
+ *
+ * @since 0.1.0
+ */
+import * as O from 'fp-ts/lib/Option'
+import * as A from 'fp-ts/lib/ReadonlyArray'
+import { pipe } from 'fp-ts/lib/function'
+import { Show } from 'fp-ts/lib/Show'
+
+import * as AST from './Ast'
+import * as E from './Expression'
+
+// -------------------------------------------------------------------------------------
+// models
+// -------------------------------------------------------------------------------------
+
+/**
+ * A part of the input, from the index at which it begins to the index after it.
+ *
+ * @category models
+ * @since 0.1.0
+ */
+export interface Span {
+  readonly start: number
+  readonly end: number
+}
+
+/**
+ * @category models
+ * @since 0.1.0
+ */
+export interface Step {
+  /**
+   * The pattern of the sub-expression which is matched by the step.
+   */
+  readonly pattern: string
+  /**
+   * The part of the input consumed by the step, or `none` if the step was not matched.
+   */
+  readonly span: O.Option<Span>
+}
+
+/**
+ * The step which could not be matched, and the index of the input at which it was
+ * attempted.
+ *
+ * @category models
+ * @since 0.1.0
+ */
+export interface Failure {
+  readonly step: number
+  readonly index: number
+}
+
+/**
+ * @category models
+ * @since 0.1.0
+ */
+export interface Trace {
+  readonly input: string
+  readonly steps: ReadonlyArray<Step>
+  /**
+   * The part of the input matched by the longest partial match, which is the whole match
+   * if the expression matches the input.
+   */
+  readonly partial: Span
+  /**
+   * Where matching first failed, or `none` if the expression matches the input.
+   */
+  readonly failure: O.Option<Failure>
+}
+
+// -------------------------------------------------------------------------------------
+// destructors
+// -------------------------------------------------------------------------------------
+
+/**
+ * Traces the first match of the expression in the input or, if there is none, its longest
+ * partial match. As with the functions of the `Match` module, the expression is compiled
+ * once, and can then be applied to any number of inputs.
+ *
+ * @category destructors
+ * @since 0.1.0
+ */
+export const trace: (builder: E.ExpressionBuilder) => (input: string) => Trace = (builder) => {
+  const { flags } = E.toRegex(builder)
+  const ast = E.toAst(builder)
+  const nodes = ast._tag === 'Sequence' ? ast.nodes : [ast]
+  const render = flags.includes('u') || flags.includes('v') ? AST.renderUnicode : AST.render
+  const offsets = nodes.reduce<ReadonlyArray<number>>((acc, node, i) => [...acc, acc[i] + AST.captures(node).length], [
+    0
+  ])
+  const prefixes = A.makeBy(nodes.length, (i) => new RegExp(render(prefix(nodes, offsets, i + 1)), flags))
+  const patterns = nodes.map((node) => render(node._tag === 'Group' ? node.node : node))
+  return (input) => {
+    // The prefixes of the most steps are attempted first
+    const { index, spans } = pipe(
+      A.makeBy(nodes.length, (i) => nodes.length - i),
+      A.findFirstMap((k) => {
+        const regex = prefixes[k - 1]
+        regex.lastIndex = 0
+        return pipe(
+          O.fromNullable(regex.exec(input)),
+          O.map((result) => ({ index: result.index, spans: toSpans(result, offsets, k) }))
+        )
+      }),
+      O.getOrElse(() => ({ index: 0, spans: A.empty as ReadonlyArray<Span> }))
+    )
+    const end = pipe(
+      A.last(spans),
+      O.fold(
+        () => index,
+        (span) => span.end
+      )
+    )
+    return {
+      input,
+      steps: patterns.map((pattern, i) => ({ pattern, span: A.lookup(i, spans) })),
+      partial: { start: index, end },
+      failure: spans.length === nodes.length ? O.none : O.some({ step: spans.length, index: end })
+    }
+  }
+}
+
+/**
+ * Renders the input with the longest partial match highlighted in green, and the
+ * character at which matching failed, if any, highlighted in red, using the escape codes
+ * of ANSI terminals.
+ *
+ * @category destructors
+ * @since 0.1.0
+ */
+export const highlight: (trace: Trace) => string = ({ input, partial, failure }) =>
+  pipe(
+    failure,
+    O.fold(
+      () =>
+        `${input.slice(0, partial.start)}${green(input.slice(partial.start, partial.end))}${input.slice(partial.end)}`,
+      ({ index }) => {
+        const next = characterAt(input, index)
+        return `${input.slice(0, partial.start)}${green(input.slice(partial.start, index))}${red(
+          next === '' ? ' ' : next
+        )}${input.slice(index + next.length)}`
+      }
+    )
+  )
+
+// -------------------------------------------------------------------------------------
+// instances
+// -------------------------------------------------------------------------------------
+
+/**
+ * Describes the trace in plain text: the input, with the longest partial match underlined
+ * and the index at which matching failed marked, followed by each of the steps with the
+ * text which it consumed.
+ *
+ * @category instances
+ * @since 0.1.0
+ */
+export const showTrace: Show<Trace> = {
+  show: ({ input, steps, partial, failure }) => {
+    const chars = Array.from(input)
+    // The width of each character of the input once it is quoted
+    const widths = chars.map((c) => quote(c).length - 2)
+    const column = (index: number) =>
+      1 + widths.slice(0, Array.from(input.slice(0, index)).length).reduce((sum, width) => sum + width, 0)
+    const underline = `${' '.repeat(column(partial.start))}${'~'.repeat(
+      column(partial.end) - column(partial.start)
+    )}${pipe(
+      failure,
+      O.fold(
+        () => '',
+        () => '^'
+      )
+    )}`
+    const width = steps.reduce((max, step) => Math.max(max, step.pattern.length), 0)
+    const lines = steps.map((step, i) =>
+      pipe(
+        step.span,
+        O.fold(
+          () =>
+            pipe(
+              failure,
+              O.filter((f) => f.step === i),
+              O.fold(
+                () => `    ${step.pattern}`,
+                () => `  ✗ ${step.pattern}`
+              )
+            ),
+          ({ start, end }) => `  ✓ ${step.pattern.padEnd(width)}  ${quote(input.slice(start, end))}`
+        )
+      )
+    )
+    return [
+      pipe(
+        failure,
+        O.fold(
+          () => `Matched at index ${partial.start}`,
+          ({ index }) => `No match, failed at index ${index}`
+        )
+      ),
+      `  ${quote(input)}`,
+      `  ${underline}`.trimEnd(),
+      ...lines.map((line) => line.trimEnd())
+    ].join('\n')
+  }
+}
+
+// -------------------------------------------------------------------------------------
+// utils
+// -------------------------------------------------------------------------------------
+
+const quote: (value: string) => string = (value) =>
+  `'${JSON.stringify(value).slice(1, -1).replace(/\\"/g, '"').replace(/'/g, "\\'")}'`
+
+const green: (text: string) => string = (text) => (text === '' ? '' : `\u001b[32m${text}\u001b[39m`)
+
+const red: (text: string) => string = (text) => `\u001b[41m${text}\u001b[49m`
+
+// The code point at the index, which is empty at the end of the input
+const characterAt: (input: string, index: number) => string = (input, index) =>
+  pipe(
+    O.fromNullable(input.codePointAt(index)),
+    O.fold(
+      () => '',
+      (c) => String.fromCodePoint(c)
+    )
+  )
+
+// Each backreference refers to the same group once every step is captured, or else is
+// removed if the group is not within the prefix, as it would only match the empty string
+const renumber: (
+  names: ReadonlyArray<string>,
+  offsets: ReadonlyArray<number>,
+  k: number
+) => (ast: AST.Ast) => AST.Ast = (names, offsets, k) => (ast) => {
+  const go = renumber(names, offsets, k)
+  switch (ast._tag) {
+    case 'Sequence':
+      return AST.sequence(ast.nodes.map(go))
+    case 'Alternation':
+      return AST.alternation(ast.alternatives.map(go))
+    case 'Group':
+    case 'Capture':
+    case 'Quantifier':
+    case 'Lookaround':
+      return { ...ast, node: go(ast.node) }
+    case 'Backreference': {
+      const { group } = ast
+      if (typeof group === 'string') {
+        return names.includes(group) ? ast : AST.empty
+      }
+      return group > offsets[k]
+        ? AST.empty
+        : AST.backreference(group + offsets.slice(0, k).filter((offset) => offset < group).length)
+    }
+    default:
+      return ast
+  }
+}
+
+// The first `k` steps, each of which is captured
+const prefix: (nodes: ReadonlyArray<AST.Ast>, offsets: ReadonlyArray<number>, k: number) => AST.Ast = (
+  nodes,
+  offsets,
+  k
+) => {
+  const names = A.compact(A.chain(AST.captures)(nodes.slice(0, k)))
+  return AST.sequence(nodes.slice(0, k).map((node) => AST.capture(renumber(names, offsets, k)(node))))
+}
+
+// The part of the input consumed by each of the first `k` steps, whose captures follow one
+// another
+const toSpans: (result: RegExpExecArray, offsets: ReadonlyArray<number>, k: number) => ReadonlyArray<Span> = (
+  result,
+  offsets,
+  k
+) =>
+  A.makeBy(k, (i) => i).reduce<ReadonlyArray<Span>>((spans, i) => {
+    const start = pipe(
+      A.last(spans),
+      O.fold(
+        () => result.index,
+        (span) => span.end
+      )
+    )
+    return [...spans, { start, end: start + (result[i + 1 + offsets[i]] as string).length }]
+  }, [])
@@ -1,11 +1,76 @@
 /**
  * @since 0.0.1
  */
+import * as ast from './Ast'
+import * as automaton from './Automaton'
+import * as backtracking from './Backtracking'
+import * as charClass from './CharClass'
+import * as dialect from './Dialect'
+import * as explain from './Explain'
 import * as expression from './Expression'
+import * as lexer from './Lexer'
+import * as match from './Match'
+import * as optimize from './Optimize'
+import * as parser from './Parser'
+import * as patterns from './Patterns'
+import * as sample from './Sample'
+import * as trace from './Trace'
 
 export {
+  /**
+   * @since 0.1.0
+   */
+  ast,
+  /**
+   * @since 0.1.0
+   */
+  automaton,
+  /**
+   * @since 0.1.0
+   */
+  backtracking,
+  /**
+   * @since 0.1.0
+   */
+  charClass,
+  /**
+   * @since 0.1.0
+   */
+  dialect,
+  /**
+   * @since 0.1.0
+   */
+  explain,
   /**
    * @since 0.0.1
    */
-  expression
+  expression,
+  /**
+   * @since 0.1.0
+   */
+  lexer,
+  /**
+   * @since 0.1.0
+   */
+  match,
+  /**
+   * @since 0.1.0
+   */
+  optimize,
+  /**
+   * @since 0.1.0
+   */
+  parser,
+  /**
+   * @since 0.1.0
+   */
+  patterns,
+  /**
+   * @since 0.1.0
+   */
+  sample,
+  /**
+   * @since 0.1.0
+   */
+  trace
 }
@@ -0,0 +1,36 @@
+import * as assert from 'assert'
+import * as fc from 'fast-check'
+import { pipe } from 'fp-ts/lib/function'
+
+import * as CC from '../src/CharClass'
+import * as E from '../src/Expression'
+import * as M from '../src/Match'
+import * as _ from '../src/Arbitrary'
+
+const version = pipe(E.compile, E.startOfInput, E.digit, E.oneOrMore, E.string('.'), E.digit, E.oneOrMore, E.endOfInput)
+
+describe('Arbitrary', () => {
+  describe('matching', () => {
+    it('should generate strings which match the expression', () => {
+      fc.assert(fc.property(_.matching(version), M.test(version)))
+    })
+
+    it('should throw when no string matches the expression', () => {
+      assert.throws(() => fc.sample(_.matching(pipe(E.compile, E.charClass(CC.empty))), 1), {
+        message: 'Unable to generate a string which matches the expression'
+      })
+    })
+  })
+
+  describe('nearMiss', () => {
+    it('should generate strings which do not match the expression', () => {
+      fc.assert(fc.property(_.nearMiss(version), (s) => !M.test(version)(s)))
+    })
+
+    it('should throw when every string matches the expression', () => {
+      assert.throws(() => fc.sample(_.nearMiss(pipe(E.compile, E.anything, E.singleLine)), 1), {
+        message: 'Unable to generate a string which nearly matches the expression'
+      })
+    })
+  })
+})
@@ -0,0 +1,220 @@
+import * as assert from 'assert'
+import * as O from 'fp-ts/lib/Option'
+import { pipe } from 'fp-ts/lib/function'
+
+import * as _ from '../src/Ast'
+
+describe('Ast', () => {
+  describe('render', () => {
+    it('should render a sequence', () => {
+      assert.strictEqual(_.render(_.sequence([_.literal('a'), _.characterType('digit')])), 'a\\d')
+      assert.strictEqual(_.render(_.sequence([_.literal('a')])), 'a')
+      assert.strictEqual(_.render(_.empty), '')
+    })
+
+    it('should group an alternation within a sequence', () => {
+      assert.strictEqual(
+        _.render(_.sequence([_.literal('a'), _.alternation([_.literal('b'), _.literal('c')])])),
+        'a(?:b|c)'
+      )
+      assert.strictEqual(_.render(_.sequence([_.alternation([_.literal('b'), _.literal('c')])])), 'b|c')
+    })
+
+    it('should render an alternation', () => {
+      assert.strictEqual(
+        _.render(_.alternation([_.literal('a'), _.sequence([_.literal('b'), _.literal('c')])])),
+        'a|bc'
+      )
+    })
+
+    it('should render a literal', () => {
+      assert.strictEqual(_.render(_.literal('a.b')), 'a\\.b')
+      assert.strictEqual(_.render(_.literal('\t\n\v\f\r')), '\\t\\n\\v\\f\\r')
+    })
+
+    it('should render a character class', () => {
+      assert.strictEqual(
+        _.render(_.characterClass(false, [_.classCharacters('ab'), _.classRange('0', '9')])),
+        '[ab0-9]'
+      )
+      assert.strictEqual(_.render(_.characterClass(true, [_.classCharacters(']')])), '[^\\]]')
+      assert.strictEqual(
+        _.render(
+          _.characterClass(false, [
+            _.classCharacterType('digit', true),
+            _.classProperty('Script', O.some('Greek'), false),
+            _.classProperty('Letter', O.none, true),
+            _.classNested(_.characterClass(true, [_.classCharacters('a')]))
+          ])
+        ),
+        '[\\D\\p{Script=Greek}\\P{Letter}[^a]]'
+      )
+      assert.strictEqual(
+        _.render(
+          _.characterClass(false, [
+            _.classSetOperation(
+              'subtraction',
+              _.characterClass(false, [_.classCharacterType('word', false)]),
+              _.characterClass(false, [_.classRange('0', '9')])
+            )
+          ])
+        ),
+        '[[\\w]--[0-9]]'
+      )
+    })
+
+    it('should escape the characters of a class', () => {
+      assert.strictEqual(
+        _.render(_.characterClass(false, [_.classCharacters('\\]-^[(){}|/.$\t')])),
+        '[\\\\\\]\\-\\^\\[\\(\\)\\{\\}\\|\\/.$\\t]'
+      )
+      assert.strictEqual(_.render(_.characterClass(false, [_.classCharacters('a&&b..c')])), '[a&b.c]')
+      assert.strictEqual(_.render(_.characterClass(false, [_.classRange('-', '^')])), '[\\--\\^]')
+      assert.strictEqual(
+        _.render(_.characterClass(false, [_.classCharacters('a&'), _.classCharacters('&b'), _.classRange('!', '&')])),
+        '[a&\\x26b!-&]'
+      )
+      assert.strictEqual(
+        _.renderUnicode(_.characterClass(true, [_.classRange('!', '&'), _.classCharacters('&')])),
+        '[^!-&\\x26]'
+      )
+    })
+
+    it('should render a character type', () => {
+      assert.strictEqual(_.render(_.characterType('any')), '.')
+      assert.strictEqual(_.render(_.characterType('digit')), '\\d')
+      assert.strictEqual(_.render(_.characterType('word')), '\\w')
+      assert.strictEqual(_.render(_.characterType('whitespace')), '\\s')
+    })
+
+    it('should render an anchor', () => {
+      assert.strictEqual(_.render(_.anchor('start')), '^')
+      assert.strictEqual(_.render(_.anchor('end')), '$')
+    })
+
+    it('should render a group', () => {
+      assert.strictEqual(_.render(_.group(_.literal('a'))), '(?:a)')
+      assert.strictEqual(_.render(_.capture(_.literal('a'))), '(a)')
+      assert.strictEqual(_.render(_.namedCapture('foo', _.literal('a'))), '(?<foo>a)')
+    })
+
+    it('should render a quantifier', () => {
+      const a = _.literal('a')
+      assert.strictEqual(_.render(_.quantifier(a, 0, Infinity, false)), 'a*')
+      assert.strictEqual(_.render(_.quantifier(a, 1, Infinity, false)), 'a+')
+      assert.strictEqual(_.render(_.quantifier(a, 2, Infinity, false)), 'a{2,}')
+      assert.strictEqual(_.render(_.quantifier(a, 0, 1, false)), 'a?')
+      assert.strictEqual(_.render(_.quantifier(a, 3, 3, false)), 'a{3}')
+      assert.strictEqual(_.render(_.quantifier(a, 1, 3, true)), 'a{1,3}?')
+    })
+
+    it('should group a quantified node which is not a single atom', () => {
+      assert.strictEqual(_.render(_.quantifier(_.literal('ab'), 0, 1, false)), '(?:ab)?')
+      assert.strictEqual(_.render(_.quantifier(_.sequence([_.literal('a'), _.literal('b')]), 0, 1, false)), '(?:ab)?')
+      assert.strictEqual(_.render(_.quantifier(_.sequence([_.literal('ab')]), 0, 1, false)), '(?:ab)?')
+      assert.strictEqual(
+        _.render(_.quantifier(_.alternation([_.literal('a'), _.literal('b')]), 0, 1, false)),
+        '(?:a|b)?'
+      )
+      assert.strictEqual(_.render(_.quantifier(_.empty, 0, 1, false)), '?')
+      assert.strictEqual(
+        _.render(_.quantifier(_.quantifier(_.characterType('word'), 1, Infinity, false), 0, 1, false)),
+        '(?:\\w+)?'
+      )
+      assert.strictEqual(_.render(_.quantifier(_.anchor('end'), 0, 1, false)), '(?:$)?')
+      assert.strictEqual(
+        _.render(_.quantifier(_.lookaround('ahead', false, _.literal('a')), 0, 1, false)),
+        '(?:(?=a))?'
+      )
+    })
+
+    it('should render a lookaround', () => {
+      const a = _.literal('a')
+      assert.strictEqual(_.render(_.lookaround('ahead', false, a)), '(?=a)')
+      assert.strictEqual(_.render(_.lookaround('ahead', true, a)), '(?!a)')
+      assert.strictEqual(_.render(_.lookaround('behind', false, a)), '(?<=a)')
+      assert.strictEqual(_.render(_.lookaround('behind', true, a)), '(?<!a)')
+    })
+
+    it('should render a backreference', () => {
+      assert.strictEqual(_.render(_.backreference(1)), '\\1')
+      assert.strictEqual(_.render(_.backreference('foo')), '\\k<foo>')
+    })
+
+    it('should separate a numbered backreference from a digit which follows it', () => {
+      assert.strictEqual(_.render(_.sequence([_.backreference(1), _.literal('0')])), '\\1(?:)0')
+      assert.strictEqual(
+        _.render(
+          _.sequence([_.sequence([_.literal('a'), _.backreference(1)]), _.sequence([_.literal('2'), _.literal('b')])])
+        ),
+        'a\\1(?:)2b'
+      )
+      assert.strictEqual(_.render(_.sequence([_.backreference(1), _.empty, _.literal('0')])), '\\1(?:)0')
+      assert.strictEqual(_.render(_.sequence([_.literal('\\1'), _.literal('0')])), '\\\\10')
+      assert.strictEqual(_.render(_.sequence([_.backreference(1), _.literal('a')])), '\\1a')
+      assert.strictEqual(_.render(_.sequence([_.literal('a'), _.backreference(1)])), 'a\\1')
+      assert.strictEqual(_.render(_.sequence([_.backreference('a'), _.literal('0')])), '\\k<a>0')
+    })
+
+    it('should render a word boundary', () => {
+      assert.strictEqual(
+        _.render(_.sequence([_.anchor('wordBoundary'), _.literal('a'), _.anchor('nonWordBoundary')])),
+        '\\ba\\B'
+      )
+    })
+  })
+
+  describe('renderUnicode', () => {
+    it('should only escape the syntax characters of a literal', () => {
+      assert.strictEqual(_.renderUnicode(_.literal('a:=b.')), 'a:=b\\.')
+      assert.strictEqual(_.render(_.literal('a:=b.')), 'a\\:\\=b\\.')
+    })
+
+    it('should render the nodes of a sub-expression', () => {
+      assert.strictEqual(
+        _.renderUnicode(_.alternation([_.quantifier(_.literal('a:'), 1, Infinity, false), _.capture(_.literal('-'))])),
+        '(?:a:)+|(-)'
+      )
+      assert.strictEqual(_.renderUnicode(_.quantifier(_.literal('\u{1F600}'), 2, 2, false)), '\u{1F600}{2}')
+      assert.strictEqual(_.render(_.quantifier(_.literal('\u{1F600}'), 2, 2, false)), '(?:\u{1F600}){2}')
+    })
+  })
+
+  describe('reduce', () => {
+    it('should visit each node before its children', () => {
+      const ast = _.sequence([
+        _.alternation([_.literal('a'), _.group(_.literal('b'))]),
+        _.quantifier(_.capture(_.literal('c')), 0, 1, false),
+        _.lookaround('ahead', false, _.characterType('digit'))
+      ])
+      assert.deepStrictEqual(
+        pipe(
+          ast,
+          _.reduce<ReadonlyArray<string>>([], (tags, node) => [...tags, node._tag])
+        ),
+        [
+          'Sequence',
+          'Alternation',
+          'Literal',
+          'Group',
+          'Literal',
+          'Quantifier',
+          'Capture',
+          'Literal',
+          'Lookaround',
+          'CharacterType'
+        ]
+      )
+    })
+  })
+
+  describe('captures', () => {
+    it('should return the capturing groups in the order in which they are numbered', () => {
+      const ast = _.sequence([
+        _.namedCapture('outer', _.capture(_.literal('a'))),
+        _.namedCapture('last', _.backreference('outer'))
+      ])
+      assert.deepStrictEqual(_.captures(ast), [O.some('outer'), O.none, O.some('last')])
+    })
+  })
+})
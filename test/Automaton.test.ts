@@ -0,0 +1,203 @@
+import * as assert from 'assert'
+import * as Ei from 'fp-ts/lib/Either'
+import * as O from 'fp-ts/lib/Option'
+import { pipe } from 'fp-ts/lib/function'
+
+import * as AST from '../src/Ast'
+import * as _ from '../src/Automaton'
+import * as E from '../src/Expression'
+import { itWithFlag, regExp } from './util'
+
+const fromRegex = (regex: RegExp) =>
+  pipe(
+    E.fromRegex(regex),
+    Ei.getOrElse((): E.ExpressionBuilder => E.compile)
+  )
+
+const holds = Ei.right({ _tag: 'Holds' })
+
+const invalid = pipe(E.compile, E.digit, E.between(5, 2))
+
+const invalidQuantifier = Ei.left({ _tag: 'InvalidQuantifier', min: 5, max: 2, index: 1 })
+
+const fails = (counterexample: string) => Ei.right({ _tag: 'Fails', counterexample })
+
+const assertEquivalent = (a: RegExp, b: RegExp) =>
+  assert.deepStrictEqual(_.isEquivalent(fromRegex(a), fromRegex(b)), holds)
+
+const assertDifferent = (a: RegExp, b: RegExp, counterexample: string) =>
+  assert.deepStrictEqual(_.isEquivalent(fromRegex(a), fromRegex(b)), fails(counterexample))
+
+describe('Automaton', () => {
+  describe('destructors', () => {
+    describe('isEquivalent', () => {
+      it('should hold for expressions which match the same strings', () => {
+        assertEquivalent(/ab|ac/, /a[bc]/)
+        assertEquivalent(/a*/, /(?:a|aa)*/)
+        assertEquivalent(/a+/, /aa*/)
+        assertEquivalent(/a+?/, /(a)+/)
+        assertEquivalent(/a{2,4}/, /aaa?a?/)
+        assertEquivalent(/x\d{3}/, /x[0-9][0-9][0-9]/)
+        assertEquivalent(/(?:)/, /a{0}/)
+      })
+
+      it('should fail with the shortest string which is matched by only one of them', () => {
+        assertDifferent(/ab|ac/, /a[b-d]/, 'ad')
+        assertDifferent(/a{2,4}/, /aaa?/, 'aaaa')
+        assertDifferent(/a*/, /a+/, '')
+        assertDifferent(/\p{Lu}/u, /[A-Z]/, 'À')
+      })
+
+      it('should match anchors only at the start and at the end of the input', () => {
+        assertEquivalent(/^a$/, /a/)
+        assertEquivalent(/^^a$$/, /a/)
+        assertEquivalent(/a^/, /[^\s\S]/)
+        assertEquivalent(/a$b/, /[^\s\S]/)
+        assertEquivalent(/$/, /(?:)/)
+        assertEquivalent(/(?:^|a)b/, /a?b/)
+        assertDifferent(/a(?:$|b)/, /ab/, 'a')
+      })
+
+      it('should take the flags into account', () => {
+        assertEquivalent(/[a-z]/i, /[A-Za-z]/)
+        assertEquivalent(/[a-z]/iu, /[A-Za-z\u017f\u212a]/)
+        assertEquivalent(/abc/i, /[aA][bB][cC]/)
+        assertDifferent(/[a-z]/i, /[a-z]/, 'A')
+        assertEquivalent(/./, /[^\n\r\u2028\u2029]/)
+        assertEquivalent(/./s, /[^]/)
+        assertDifferent(/./s, /./, '\n')
+        assertDifferent(/\p{Script=Greek}/iu, /\p{Script=Greek}/u, 'µ')
+      })
+
+      it('should compare expressions with the unicode flag by their code units', () => {
+        assertEquivalent(/\u{1F600}/u, /😀/)
+        assertEquivalent(/[\u{1F600}-\u{1F64F}]/u, /\ud83d[\ude00-\ude4f]/)
+        assertEquivalent(/[\u{103FF}-\u{10400}]/u, /𐏿|𐐀/)
+        assertEquivalent(/[\u{10000}-\u{10FFFF}]/u, /[\ud800-\udbff][\udc00-\udfff]/)
+        assertEquivalent(/😀/iu, /😀/)
+        assertEquivalent(/[\u{d000}-\u{dbff}]/u, /[\ud000-\udbff]/)
+        assertEquivalent(/[\u{dc00}-\u{e000}]/u, /[\udc00-\ue000]/)
+        assertDifferent(/./u, /./, '\ud800\udc00')
+        assertDifferent(/[^a]/u, /[^b]/u, 'a')
+      })
+
+      it('should match a lone surrogate with the unicode flag', () => {
+        assertDifferent(/^[^a]$/u, /^[^a\ud800-\udfff]$/u, '\ud800')
+        assertEquivalent(/[\ud800-\udfff]/u, /[\ud800-\udfff]/)
+        assertEquivalent(/\ud800/u, /\ud800/)
+        assertEquivalent(/\ud800\udc00/u, /\u{10000}/u)
+        assertDifferent(/\ud800.\udc00/u, /\ud800.\udc00/, '\ud800\ud800\udc00')
+        assertEquivalent(/[\ud800-\udbff][\udc00-\udfff]/u, /[^\s\S]/)
+        assertEquivalent(/[\ud800-\udbff]*/u, /[\ud800-\udbff]*/)
+        assertDifferent(/[\ud800-\udbff]./u, /[\ud800-\udbff]./, '\ud800\udc00')
+      })
+
+      itWithFlag('v')('should compare expressions with the unicodeSets flag', () => {
+        assertEquivalent(regExp('[[a-z]--[aeiou]]', 'v'), /[b-df-hj-np-tv-z]/)
+      })
+
+      it('should return the node which is not supported', () => {
+        assert.deepStrictEqual(
+          _.isEquivalent(fromRegex(/(a)\1/), fromRegex(/aa/)),
+          Ei.left({ _tag: 'Unsupported', node: AST.backreference(1) })
+        )
+        assert.deepStrictEqual(
+          _.isEquivalent(fromRegex(/a/), fromRegex(/\Ba/)),
+          Ei.left({ _tag: 'Unsupported', node: AST.anchor('nonWordBoundary') })
+        )
+        assert.deepStrictEqual(
+          _.isEquivalent(fromRegex(/^a/m), fromRegex(/a/)),
+          Ei.left({ _tag: 'Unsupported', node: AST.anchor('start') })
+        )
+        assert.strictEqual(Ei.isLeft(_.isEquivalent(fromRegex(/a(?=b)/), fromRegex(/a/))), true)
+      })
+
+      it('should return the error of an invalid expression', () => {
+        assert.deepStrictEqual(_.isEquivalent(invalid, fromRegex(/a/)), invalidQuantifier)
+        assert.deepStrictEqual(_.isEquivalent(fromRegex(/a/), invalid), invalidQuantifier)
+      })
+    })
+
+    describe('isSubsetOf', () => {
+      it('should hold if every string which is matched by the first is matched by the second', () => {
+        assert.deepStrictEqual(_.isSubsetOf(fromRegex(/ab|ac/), fromRegex(/a[b-d]/)), holds)
+        assert.deepStrictEqual(_.isSubsetOf(fromRegex(/[^\s\S]/), fromRegex(/a/)), holds)
+      })
+
+      it('should fail with the shortest string which is matched by only the first', () => {
+        assert.deepStrictEqual(_.isSubsetOf(fromRegex(/a[b-d]/), fromRegex(/ab|ac/)), fails('ad'))
+        assert.deepStrictEqual(_.isSubsetOf(fromRegex(/[à-ÿ]+/), fromRegex(/à*/)), fails('á'))
+      })
+
+      it('should return the node which is not supported', () => {
+        assert.deepStrictEqual(
+          _.isSubsetOf(fromRegex(/a/), fromRegex(/\ba/)),
+          Ei.left({ _tag: 'Unsupported', node: AST.anchor('wordBoundary') })
+        )
+      })
+
+      it('should return the error of an invalid expression', () => {
+        assert.deepStrictEqual(_.isSubsetOf(invalid, fromRegex(/a/)), invalidQuantifier)
+      })
+    })
+
+    describe('intersects', () => {
+      it('should return the shortest string which is matched by both', () => {
+        assert.deepStrictEqual(_.intersects(fromRegex(/a+b/), fromRegex(/a{3}b*/)), Ei.right(O.some('aaab')))
+        assert.deepStrictEqual(_.intersects(fromRegex(/\d*/), fromRegex(/x?/)), Ei.right(O.some('')))
+      })
+
+      it('should return none if no string is matched by both', () => {
+        assert.deepStrictEqual(_.intersects(fromRegex(/a+/), fromRegex(/b+/)), Ei.right(O.none))
+        assert.deepStrictEqual(_.intersects(fromRegex(/a^/), fromRegex(/a/)), Ei.right(O.none))
+      })
+
+      it('should return the node which is not supported', () => {
+        assert.deepStrictEqual(
+          _.intersects(fromRegex(/(a)\1/), fromRegex(/aa/)),
+          Ei.left({ _tag: 'Unsupported', node: AST.backreference(1) })
+        )
+      })
+
+      it('should return the error of an invalid expression', () => {
+        assert.deepStrictEqual(_.intersects(fromRegex(/a/), invalid), invalidQuantifier)
+      })
+    })
+  })
+
+  describe('instances', () => {
+    it('showUnsupported', () => {
+      assert.strictEqual(
+        _.showUnsupported.show({ _tag: 'Unsupported', node: AST.backreference(1) }),
+        `'\\1' cannot be matched by a finite automaton`
+      )
+    })
+
+    it('showAutomatonError', () => {
+      assert.strictEqual(
+        _.showAutomatonError.show({ _tag: 'Unsupported', node: AST.backreference(1) }),
+        `'\\1' cannot be matched by a finite automaton`
+      )
+      assert.strictEqual(
+        _.showAutomatonError.show({ _tag: 'InvalidQuantifier', min: 5, max: 2, index: 1 }),
+        E.showExpressionError.show({ _tag: 'InvalidQuantifier', min: 5, max: 2, index: 1 })
+      )
+    })
+
+    it('eqExpressionBuilder', () => {
+      assert.strictEqual(_.eqExpressionBuilder.equals(fromRegex(/ab|ac/), fromRegex(/a[bc]/)), true)
+      assert.strictEqual(_.eqExpressionBuilder.equals(fromRegex(/ab|ac/), fromRegex(/a[b-d]/)), false)
+      assert.strictEqual(_.eqExpressionBuilder.equals(fromRegex(/(a)\1/), fromRegex(/(a)\1/)), true)
+      assert.strictEqual(_.eqExpressionBuilder.equals(fromRegex(/(a)\1/), fromRegex(/(?:a)\1/)), false)
+      assert.strictEqual(_.eqExpressionBuilder.equals(invalid, invalid), true)
+      assert.strictEqual(_.eqExpressionBuilder.equals(invalid, pipe(E.compile, E.digit, E.between(3, 1))), false)
+      assert.strictEqual(_.eqExpressionBuilder.equals(invalid, fromRegex(/(a)\1/)), false)
+    })
+
+    it('eqExpression', () => {
+      const expression = (regex: RegExp) => fromRegex(regex)(E.monoidExpression.empty)
+      assert.strictEqual(_.eqExpression.equals(expression(/a+/), expression(/aa*/)), true)
+      assert.strictEqual(_.eqExpression.equals(expression(/a+/), expression(/a*/)), false)
+    })
+  })
+})
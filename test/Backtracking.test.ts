@@ -0,0 +1,140 @@
+import * as assert from 'assert'
+import * as O from 'fp-ts/lib/Option'
+import { pipe } from 'fp-ts/lib/function'
+
+import * as AST from '../src/Ast'
+import * as CC from '../src/CharClass'
+import * as E from '../src/Expression'
+import * as _ from '../src/Backtracking'
+import { itWithFlag } from './util'
+
+const show = (builder: E.ExpressionBuilder) => _.analyze(builder).map(_.showIssue.show)
+
+const a = pipe(E.compile, E.string('a'))
+
+const overlapping = (
+  x: E.ExpressionBuilder,
+  y: E.ExpressionBuilder,
+  flag: (builder: E.ExpressionBuilder) => E.ExpressionBuilder = E.unicode
+) =>
+  _.analyze(pipe(E.compile, E.many(pipe(E.compile, E.oneOf([x, y]))), flag)).some(
+    (issue) => issue._tag === 'OverlappingAlternation'
+  )
+
+const charClass = (cc: CC.CharClass) => pipe(E.compile, E.charClass(cc))
+
+describe('Backtracking', () => {
+  describe('analyze', () => {
+    it('should not report an expression which does not backtrack excessively', () => {
+      assert.deepStrictEqual(show(pipe(E.compile, E.startOfInput, E.word, E.string('@'), E.word)), [])
+      assert.deepStrictEqual(show(pipe(E.compile, E.many(pipe(E.compile, E.digit, E.oneOrMore, E.string(','))))), [])
+      assert.deepStrictEqual(show(pipe(E.compile, E.repeat(pipe(E.compile, E.word), { min: 0, max: 1 }))), [])
+      assert.deepStrictEqual(show(pipe(E.compile, E.anything, E.string('='), E.anything)), [])
+      assert.deepStrictEqual(show(pipe(E.compile, E.many(pipe(E.compile, E.string('a'), E.exactly(2))))), [])
+    })
+
+    it('should report nested quantifiers', () => {
+      assert.deepStrictEqual(show(pipe(E.compile, E.many1(pipe(E.compile, E.something, E.maybe(','))))), [
+        "Nested quantifier in '(?:(?:.+)(?:,)?)+': `many1` repeats `something` in '.+' (exponential)"
+      ])
+      assert.deepStrictEqual(show(pipe(E.compile, E.something, E.oneOrMore)), [])
+      assert.deepStrictEqual(
+        show(pipe(E.compile, E.many1(pipe(E.compile, E.capture(pipe(E.compile, E.word)), E.maybe('-'))))),
+        ["Nested quantifier in '(?:(\\w+)(?:-)?)+': `many1` repeats `word` in '\\w+' (exponential)"]
+      )
+      assert.deepStrictEqual(
+        show(pipe(E.compile, E.repeat(pipe(E.compile, E.digit, E.between(1, 3)), { min: 2, max: 4, lazy: true }))),
+        ["Nested quantifier in '(?:\\d{1,3}){2,4}?': `repeat` repeats `between` in '\\d{1,3}' (polynomial)"]
+      )
+    })
+
+    it('should report overlapping alternatives under a quantifier', () => {
+      const alternatives = pipe(E.compile, E.oneOf([pipe(E.compile, E.word), pipe(E.compile, E.digit)]))
+      assert.deepStrictEqual(show(pipe(E.compile, E.many(alternatives))), [
+        "Overlapping alternatives in '(?:\\w+|\\d)*': '\\w+' and '\\d' can match the same text, and are repeated by `many` (exponential)",
+        "Nested quantifier in '(?:\\w+|\\d)*': `many` repeats `word` in '\\w+' (exponential)"
+      ])
+      assert.deepStrictEqual(
+        show(pipe(E.compile, E.repeat(pipe(E.compile, E.oneOf([a, pipe(E.compile, E.range('a', 'z'))])), { min: 3 }))),
+        [
+          "Overlapping alternatives in '(?:(?:a)|[a-z]){3,}': '(?:a)' and '[a-z]' can match the same text, and are repeated by `repeat` (exponential)"
+        ]
+      )
+      assert.deepStrictEqual(
+        show(pipe(E.compile, E.many(pipe(E.compile, E.oneOf([a, pipe(E.compile, E.string('b'))]))))),
+        []
+      )
+    })
+
+    it('should take the caseInsensitive flag into account', () => {
+      const alternatives = pipe(E.compile, E.many(pipe(E.compile, E.oneOf([a, pipe(E.compile, E.string('A'))]))))
+      assert.deepStrictEqual(show(alternatives), [])
+      assert.deepStrictEqual(show(pipe(alternatives, E.caseInsensitive)), [
+        "Overlapping alternatives in '(?:(?:a)|(?:A))*': '(?:a)' and '(?:A)' can match the same text, and are repeated by `many` (exponential)"
+      ])
+    })
+
+    it('should report overlapping quantifiers in sequence', () => {
+      assert.deepStrictEqual(show(pipe(E.compile, E.digit, E.oneOrMoreLazy, E.whitespace, E.zeroOrMore, E.word)), [
+        "Overlapping quantifiers: `oneOrMoreLazy` in '\\d+?' and `word` in '\\w+' can match the same text (polynomial)"
+      ])
+      assert.deepStrictEqual(show(pipe(E.compile, E.digit, E.oneOrMore, E.string('-'), E.digit, E.oneOrMore)), [])
+      assert.deepStrictEqual(show(pipe(E.compile, E.digit, E.oneOrMore, E.range('a', 'z'), E.zeroOrMore)), [])
+    })
+
+    it('should approximate the characters with which a sub-expression can begin', () => {
+      assert.strictEqual(overlapping(pipe(E.compile, E.maybe('b'), E.string('a')), a), true)
+      assert.strictEqual(overlapping(pipe(E.compile, E.string('b'), E.string('a')), a), false)
+      assert.strictEqual(overlapping(pipe(E.compile, E.string(''), E.string('a')), a), true)
+      assert.strictEqual(overlapping(pipe(E.compile, E.something), a), true)
+      assert.strictEqual(
+        overlapping(pipe(E.compile, E.oneOf([pipe(E.compile, E.maybe('b')), E.compile]), E.string('a')), a),
+        true
+      )
+      assert.strictEqual(overlapping(pipe(E.compile, E.startOfInput, E.lookahead('b'), E.string('a')), a), true)
+      assert.strictEqual(
+        overlapping(pipe(E.compile, E.string('b'), E.repeat(a, { min: 0, max: 0 }), E.string('a')), a),
+        false
+      )
+      assert.strictEqual(overlapping(pipe(E.compile, E.capture(a), E.backreference(1)), a), true)
+      assert.strictEqual(
+        overlapping(
+          pipe(
+            E.compile,
+            E.lookbehind(pipe(E.compile, E.capture(pipe(E.compile, E.string('b'))))),
+            E.backreference(1),
+            E.string('b')
+          ),
+          a
+        ),
+        false
+      )
+      assert.strictEqual(overlapping(charClass(CC.property('Script', 'Greek')), pipe(E.compile, E.string('λ'))), true)
+      assert.strictEqual(overlapping(charClass(CC.negate(CC.chars('b'))), pipe(E.compile, E.string('\u{1F600}'))), true)
+    })
+
+    itWithFlag('v')('should approximate the characters of a set operation', () => {
+      const word = (f: (cc: CC.CharClass) => CC.CharClass) => charClass(pipe(CC.word, f))
+      assert.strictEqual(overlapping(word(CC.subtract(CC.range('a', 'z'))), a, E.unicodeSets), false)
+      assert.strictEqual(overlapping(word(CC.intersect(CC.chars('xa'))), a, E.unicodeSets), true)
+    })
+  })
+
+  describe('showIssue', () => {
+    it('should name the combinator of each quantifier, or else show its syntax', () => {
+      const quantifier = (node: AST.Ast, min: number, max: number, lazy: boolean) =>
+        AST.quantifier(node, min, max, lazy) as AST.Quantifier
+      const inner = quantifier(AST.characterType('digit'), 1, Infinity, false)
+      const names = [
+        quantifier(inner, 0, Infinity, true),
+        quantifier(inner, 2, 2, false),
+        { ...quantifier(inner, 2, 3, false), combinator: O.some('between') }
+      ].map((outer) => _.showIssue.show({ _tag: 'NestedQuantifier', severity: 'polynomial', outer, inner }))
+      assert.deepStrictEqual(names, [
+        "Nested quantifier in '(?:\\d+)*?': '*?' repeats '+' in '\\d+' (polynomial)",
+        "Nested quantifier in '(?:\\d+){2}': '{2}' repeats '+' in '\\d+' (polynomial)",
+        "Nested quantifier in '(?:\\d+){2,3}': `between` repeats '+' in '\\d+' (polynomial)"
+      ])
+    })
+  })
+})
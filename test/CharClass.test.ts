@@ -0,0 +1,71 @@
+import * as assert from 'assert'
+import { pipe } from 'fp-ts/lib/function'
+import * as M from 'fp-ts/lib/Monoid'
+
+import * as AST from '../src/Ast'
+import * as _ from '../src/CharClass'
+
+describe('CharClass', () => {
+  describe('constructors', () => {
+    it('should construct a class', () => {
+      assert.strictEqual(AST.render(_.empty), '[]')
+      assert.strictEqual(AST.render(_.chars('a-^')), '[a\\-\\^]')
+      assert.strictEqual(AST.render(_.range('a', 'z')), '[a-z]')
+      assert.strictEqual(AST.render(_.digit), '[\\d]')
+      assert.strictEqual(AST.render(_.word), '[\\w]')
+      assert.strictEqual(AST.render(_.whitespace), '[\\s]')
+      assert.strictEqual(AST.render(_.property('Letter')), '[\\p{Letter}]')
+      assert.strictEqual(AST.render(_.property('Script', 'Greek')), '[\\p{Script=Greek}]')
+    })
+  })
+
+  describe('combinators', () => {
+    it('should negate a class', () => {
+      assert.strictEqual(AST.render(_.negate(_.chars('ab'))), '[^ab]')
+      assert.strictEqual(AST.render(_.negate(_.negate(_.chars('ab')))), '[ab]')
+      assert.strictEqual(AST.render(_.negate(_.digit)), '[\\D]')
+      assert.strictEqual(AST.render(_.negate(_.negate(_.digit))), '[\\d]')
+      assert.strictEqual(AST.render(_.negate(_.property('Letter'))), '[\\P{Letter}]')
+      assert.strictEqual(AST.render(_.negate(pipe(_.digit, _.union(_.word)))), '[^\\d\\w]')
+    })
+
+    it('should return the union of two classes', () => {
+      assert.strictEqual(AST.render(pipe(_.range('a', 'z'), _.union(_.chars('_')))), '[a-z_]')
+      assert.strictEqual(AST.render(pipe(_.digit, _.union(_.negate(_.chars('a'))))), '[\\d[^a]]')
+      assert.strictEqual(
+        AST.render(pipe(_.chars('_'), _.union(pipe(_.word, _.intersect(_.property('ASCII')))))),
+        '[_[[\\w]&&[\\p{ASCII}]]]'
+      )
+      assert.deepStrictEqual(pipe(_.empty, _.union(_.digit)), _.digit)
+      assert.deepStrictEqual(pipe(_.digit, _.union(_.empty)), _.digit)
+    })
+
+    it('should return the intersection of two classes', () => {
+      assert.strictEqual(
+        AST.render(pipe(_.property('Script', 'Greek'), _.intersect(_.property('Letter')))),
+        '[[\\p{Script=Greek}]&&[\\p{Letter}]]'
+      )
+    })
+
+    it('should return the difference of two classes', () => {
+      assert.strictEqual(AST.render(pipe(_.range('a', 'z'), _.subtract(_.chars('aeiou')))), '[[a-z]--[aeiou]]')
+    })
+  })
+
+  describe('destructors', () => {
+    it('characters', () => {
+      assert.deepStrictEqual(_.characters(_.empty), [])
+      assert.deepStrictEqual(_.characters(pipe(_.chars('a😀'), _.union(_.digit))), ['a', '😀'])
+      assert.deepStrictEqual(
+        _.characters(pipe(_.range('a', 'z'), _.subtract(_.chars('aeiou')), _.union(_.negate(_.chars('_'))))),
+        ['a', 'z', 'a', 'e', 'i', 'o', 'u', '_']
+      )
+    })
+  })
+
+  describe('instances', () => {
+    it('monoidUnion', () => {
+      assert.strictEqual(AST.render(M.fold(_.monoidUnion)([_.digit, _.chars('.'), _.range('a', 'f')])), '[\\d.a-f]')
+    })
+  })
+})
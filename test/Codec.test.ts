@@ -0,0 +1,144 @@
+import * as assert from 'assert'
+import * as Ei from 'fp-ts/lib/Either'
+import { pipe } from 'fp-ts/lib/function'
+import * as D from 'io-ts/lib/Decoder'
+
+import * as E from '../src/Expression'
+import * as _ from '../src/Codec'
+import { itWithFlag, regExp } from './util'
+
+const build = (builder: E.ExpressionBuilder) => builder(E.monoidExpression.empty)
+
+const roundTrip = (expression: E.Expression) => _.codec.decode(JSON.parse(JSON.stringify(_.codec.encode(expression))))
+
+const parse = (regex: RegExp) =>
+  pipe(
+    E.fromRegex(regex),
+    Ei.getOrElse(() => E.compile)
+  )
+
+const errors: ReadonlyArray<E.ExpressionError> = [
+  { _tag: 'UnterminatedGroup' },
+  { _tag: 'UnmatchedEndCapture' },
+  { _tag: 'NothingToRepeat', quantifier: '*' },
+  { _tag: 'InvalidQuantifier', min: 3, max: 2 },
+  { _tag: 'InvalidQuantifier', min: -1, max: Infinity },
+  { _tag: 'InvalidRange', from: 'z', to: 'a' },
+  { _tag: 'DuplicateGroupName', name: 'a' },
+  { _tag: 'InvalidGroupName', name: 'a>' },
+  { _tag: 'InvalidBackreference', reference: 1 },
+  { _tag: 'InvalidBackreference', reference: 1.5 },
+  { _tag: 'InvalidBackreference', reference: 'a' },
+  { _tag: 'MissingFlag', flag: 'unicodeSets' },
+  { _tag: 'InvalidPattern', pattern: '(', message: 'Unterminated group' }
+]
+
+describe('Codec', () => {
+  describe('codec', () => {
+    it('should round trip every syntax tree', () => {
+      const expression = build(
+        pipe(
+          parse(/^(?<n>a|b)[^a-z\d\W\p{L}\P{Script=Greek}]*?\k<n>(?<=c)(?!d)\b\B.\s{2,3}(e)\1$/u),
+          E.allowMultiple,
+          E.caseInsensitive,
+          E.lineByLine,
+          E.singleLine,
+          E.sticky
+        )
+      )
+      assert.deepStrictEqual(roundTrip(expression), Ei.right(expression))
+    })
+
+    itWithFlag('v')('should round trip nested classes and set operations', () => {
+      const expression = build(parse(regExp('[[a-z]&&[aeiou]][\\w--[\\d_]][[ab]c]', 'v')))
+      assert.deepStrictEqual(roundTrip(expression), Ei.right(expression))
+    })
+
+    it('should round trip every token', () => {
+      const expression: E.Expression = {
+        tokens: [
+          { _tag: 'BeginCapture' },
+          { _tag: 'Term', ast: { _tag: 'Literal', value: 'a' } },
+          { _tag: 'Quantify', combinator: 'oneOrMoreLazy', min: 1, max: Infinity, lazy: true },
+          { _tag: 'Alternate' },
+          { _tag: 'Or' },
+          { _tag: 'Quantify', combinator: 'between', min: 0, max: 1, lazy: false },
+          { _tag: 'EndCapture' },
+          ...errors.map((error): E.Token => ({ _tag: 'Invalid', error }))
+        ],
+        flags: E.monoidExpression.empty.flags
+      }
+      assert.deepStrictEqual(roundTrip(expression), Ei.right(expression))
+    })
+
+    it('should encode unbounded quantifiers and absent names as null', () => {
+      assert.deepStrictEqual(_.codec.encode(build(parse(/(a)*/))), {
+        version: 1,
+        tokens: [
+          {
+            _tag: 'Term',
+            ast: {
+              _tag: 'Quantifier',
+              node: { _tag: 'Capture', name: null, node: { _tag: 'Literal', value: 'a' } },
+              min: 0,
+              max: null,
+              lazy: false,
+              combinator: null
+            }
+          }
+        ],
+        flags: E.monoidExpression.empty.flags
+      })
+    })
+
+    it('should restore the expression', () => {
+      const expression = build(pipe(E.compile, E.string('foo'), E.oneOrMore, E.caseInsensitive))
+      assert.deepStrictEqual(
+        pipe(roundTrip(expression), Ei.map(E.fromExpression), Ei.map(E.toRegexString)),
+        Ei.right('/(?:foo)+/i')
+      )
+    })
+
+    it('should reject an unknown version', () => {
+      const json = { ..._.codec.encode(build(E.compile)), version: 2 }
+      assert.deepStrictEqual(
+        pipe(_.codec.decode(json), Ei.mapLeft(D.draw)),
+        Ei.left('lazy type Expression\n└─ required property "version"\n   └─ cannot decode 2, should be 1')
+      )
+    })
+
+    it('should reject malformed input', () => {
+      const json = _.codec.encode(build(E.compile))
+      assert.strictEqual(Ei.isLeft(_.codec.decode(null)), true)
+      assert.strictEqual(
+        Ei.isLeft(_.codec.decode({ ...json, flags: { ...E.monoidExpression.empty.flags, sticky: 1 } })),
+        true
+      )
+      assert.strictEqual(Ei.isLeft(_.codec.decode({ ...json, tokens: [{ _tag: 'Unknown' }] })), true)
+      assert.strictEqual(
+        Ei.isLeft(_.codec.decode({ ...json, tokens: [{ _tag: 'Term', ast: { _tag: 'Backreference', group: true } }] })),
+        true
+      )
+    })
+
+    it('should reject names and numbers which would change the pattern', () => {
+      const json = _.codec.encode(build(E.compile))
+      const term = (ast: unknown) => _.codec.decode({ ...json, tokens: [{ _tag: 'Term', ast }] })
+      const x = { _tag: 'Literal', value: 'x' }
+      const property = (name: string, value: string | null) => ({
+        _tag: 'CharacterClass',
+        negated: false,
+        members: [{ _tag: 'ClassProperty', name, value, negated: false }]
+      })
+      assert.strictEqual(Ei.isLeft(term({ _tag: 'Capture', name: 'a>.*)|(?<z', node: x })), true)
+      assert.strictEqual(Ei.isLeft(term({ _tag: 'Backreference', group: 'a>' })), true)
+      assert.strictEqual(Ei.isLeft(term({ _tag: 'Backreference', group: 1.5 })), true)
+      assert.strictEqual(Ei.isLeft(term({ _tag: 'Backreference', group: -0 })), true)
+      assert.strictEqual(Ei.isLeft(term({ _tag: 'Backreference', group: 0 })), true)
+      assert.strictEqual(Ei.isLeft(term(property('L}|.', null))), true)
+      assert.strictEqual(Ei.isLeft(term(property('Script', 'Greek}|.'))), true)
+      assert.strictEqual(Ei.isRight(term({ _tag: 'Capture', name: 'a', node: x })), true)
+      assert.strictEqual(Ei.isRight(term(property('Script', 'Greek'))), true)
+    })
+  })
+})
@@ -0,0 +1,396 @@
+import * as assert from 'assert'
+import * as Ei from 'fp-ts/lib/Either'
+import { pipe } from 'fp-ts/lib/function'
+
+import * as CC from '../src/CharClass'
+import * as E from '../src/Expression'
+import * as _ from '../src/Dialect'
+import { itWithFlag, regExp } from './util'
+
+const dialects: ReadonlyArray<_.Dialect> = ['pcre', 'python', 're2', 'posix']
+
+const translations = (builder: E.ExpressionBuilder) =>
+  dialects.map((dialect) =>
+    pipe(
+      _.toDialect(dialect)(builder),
+      Ei.fold(_.showDialectError.show, (pattern) => pattern)
+    )
+  )
+
+const parse = (regex: RegExp) =>
+  pipe(
+    E.fromRegex(regex),
+    Ei.getOrElse(() => E.compile)
+  )
+
+const a = parse(/a/)
+const bc = parse(/bc/)
+
+describe('Dialect', () => {
+  describe('toDialect', () => {
+    it('should translate literals', () => {
+      assert.deepStrictEqual(translations(parse(/a\.b\(c\)\t\v/)), [
+        'a\\.b\\(c\\)\\t\\x0B',
+        'a\\.b\\(c\\)\\t\\x0B',
+        'a\\.b\\(c\\)\\t\\x0B',
+        'a\\.b\\(c\\)\t\v'
+      ])
+    })
+
+    it('should translate flags', () => {
+      assert.deepStrictEqual(translations(pipe(a, E.caseInsensitive, E.singleLine, E.allowMultiple, E.sticky)), [
+        '(?is)a',
+        '(?is)a',
+        '(?is)a',
+        'POSIX does not support the caseInsensitive flag'
+      ])
+      assert.deepStrictEqual(translations(pipe(a, E.lineByLine)), [
+        '(?m)a',
+        '(?m)a',
+        '(?m)a',
+        'POSIX does not support the lineByLine flag'
+      ])
+      assert.deepStrictEqual(translations(pipe(a, E.unicode)), ['(*UTF)a', 'a', 'a', 'a'])
+    })
+
+    itWithFlag('v')('should translate the unicodeSets flag', () => {
+      assert.deepStrictEqual(translations(pipe(a, E.unicodeSets)), ['(*UTF)a', 'a', 'a', 'a'])
+    })
+
+    it('should translate anchors', () => {
+      assert.deepStrictEqual(translations(parse(/^a$/)), ['^a\\z', '^a\\Z', '^a$', '^a$'])
+      assert.deepStrictEqual(translations(pipe(parse(/^a$/), E.lineByLine)), [
+        '(?m)^a$',
+        '(?m)^a$',
+        '(?m)^a$',
+        'POSIX does not support the lineByLine flag'
+      ])
+      assert.deepStrictEqual(
+        translations(
+          pipe(
+            E.fromRegex(/\ba\B/),
+            Ei.getOrElse(() => E.compile)
+          )
+        ),
+        [
+          '\\ba\\B',
+          '(?:(?<=[0-9A-Za-z_])(?![0-9A-Za-z_])|(?<![0-9A-Za-z_])(?=[0-9A-Za-z_]))a(?:(?<=[0-9A-Za-z_])(?=[0-9A-Za-z_])|(?<![0-9A-Za-z_])(?![0-9A-Za-z_]))',
+          '\\ba\\B',
+          'POSIX does not support word boundaries'
+        ]
+      )
+    })
+
+    it('should translate character types', () => {
+      assert.deepStrictEqual(translations(parse(/\d\w\s/)), [
+        '\\d\\w[\\t\\n\\x0B\\f\\r ]',
+        '[0-9][0-9A-Za-z_][\\t\\n\\x0B\\f\\r \\xa0\\u1680\\u2000-\\u200a\\u2028\\u2029\\u202f\\u205f\\u3000\\ufeff]',
+        '\\d\\w[\\t\\n\\x0B\\f\\r \\x{a0}\\x{1680}\\x{2000}-\\x{200a}\\x{2028}\\x{2029}\\x{202f}\\x{205f}\\x{3000}\\x{feff}]',
+        '[[:digit:]][[:alnum:]_][[:space:]]'
+      ])
+      assert.deepStrictEqual(
+        translations(parse(/\s/u))[0],
+        '(*UTF)[\\t\\n\\x0B\\f\\r \\x{a0}\\x{1680}\\x{2000}-\\x{200a}\\x{2028}\\x{2029}\\x{202f}\\x{205f}\\x{3000}\\x{feff}]'
+      )
+    })
+
+    it('should not match a line terminator with any character unless the singleLine flag is set', () => {
+      assert.deepStrictEqual(translations(parse(/./)), [
+        '[^\\n\\r]',
+        '[^\\n\\r\\u2028\\u2029]',
+        '[^\\n\\r\\x{2028}\\x{2029}]',
+        '.'
+      ])
+      assert.deepStrictEqual(translations(parse(/./u))[0], '(*UTF)[^\\n\\r\\x{2028}\\x{2029}]')
+      assert.deepStrictEqual(translations(parse(/./s)), [
+        '(?s).',
+        '(?s).',
+        '(?s).',
+        'POSIX does not support the singleLine flag'
+      ])
+    })
+
+    it('should translate groups and quantifiers', () => {
+      assert.deepStrictEqual(
+        translations(pipe(E.compile, E.string('ab'), E.oneOrMore, E.maybe(bc), E.digit, E.exactly(2))),
+        ['(?:ab)+(?:bc)?\\d{2}', '(?:ab)+(?:bc)?[0-9]{2}', '(?:ab)+(?:bc)?\\d{2}', '(ab)+(bc)?[[:digit:]]{2}']
+      )
+      assert.deepStrictEqual(translations(pipe(E.compile, E.oneOf([a, bc]), E.between(1, 3))), [
+        '(?:a|bc){1,3}',
+        '(?:a|bc){1,3}',
+        '(?:a|bc){1,3}',
+        '(a|bc){1,3}'
+      ])
+      assert.deepStrictEqual(
+        translations(pipe(E.compile, E.startOfInput, E.zeroOrMore, E.string('😀'), E.zeroOrMoreLazy)),
+        ['(?:^)*(?:😀)*?', '(?:^)*(?:😀)*?', '(?:^)*(?:😀)*?', 'POSIX does not support lazy quantifiers']
+      )
+      assert.deepStrictEqual(translations(pipe(E.compile, E.sequence([parse(/a|bc/), a]), E.capture(a), E.oneOrMore)), [
+        '(?:a|bc)a(a)+',
+        '(?:a|bc)a(a)+',
+        '(?:a|bc)a(a)+',
+        '(a|bc)a(a)+'
+      ])
+    })
+
+    it('should only write the groups which are needed in POSIX', () => {
+      assert.deepStrictEqual(
+        translations(
+          pipe(parse(/x/), E.oneOf([a, bc]), E.string('y'), E.many(bc), E.many(pipe(a, E.digit)), E.oneOf([a, bc]))
+        ),
+        [
+          'x(?:a|bc)(?:y)(?:bc)*(?:a\\d)*(?:a|bc)',
+          'x(?:a|bc)(?:y)(?:bc)*(?:a[0-9])*(?:a|bc)',
+          'x(?:a|bc)(?:y)(?:bc)*(?:a\\d)*(?:a|bc)',
+          'x(a|bc)y(bc)*(a[[:digit:]])*(a|bc)'
+        ]
+      )
+    })
+
+    it('should translate capturing groups and backreferences', () => {
+      assert.deepStrictEqual(translations(parse(/(a+)\1/)), [
+        '(a+)\\1',
+        '(a+)\\1',
+        'RE2 does not support backreferences',
+        'POSIX does not support backreferences'
+      ])
+      assert.deepStrictEqual(translations(pipe(E.compile, E.capture(a), E.backreference(1), E.digit)), [
+        '(a)\\1\\d',
+        '(a)\\1[0-9]',
+        'RE2 does not support backreferences',
+        'POSIX does not support backreferences'
+      ])
+      assert.deepStrictEqual(
+        translations(pipe(E.compile, E.capture(a), E.backreference(1), E.sequence([parse(/0/)]))),
+        ['(a)\\1(?:)0', '(a)\\1(?:)0', 'RE2 does not support backreferences', 'POSIX does not support backreferences']
+      )
+      assert.deepStrictEqual(
+        translations(
+          pipe(
+            E.compile,
+            E.capture(a),
+            E.sequence([pipe(E.compile, E.string('b'), E.backreference(1))]),
+            E.sequence([parse(/2/)])
+          )
+        ),
+        [
+          '(a)(?:b)\\1(?:)2',
+          '(a)(?:b)\\1(?:)2',
+          'RE2 does not support backreferences',
+          'POSIX does not support backreferences'
+        ]
+      )
+      assert.deepStrictEqual(translations(pipe(E.compile, E.namedCapture('x', a), E.backreference('x'))), [
+        '(?<x>a)\\k<x>',
+        '(?P<x>a)(?P=x)',
+        'RE2 does not support backreferences',
+        'POSIX does not support named capturing groups'
+      ])
+      assert.deepStrictEqual(translations(pipe(E.compile, E.namedCapture('x', a), E.oneOrMore)), [
+        '(?<x>a)+',
+        '(?P<x>a)+',
+        '(?P<x>a)+',
+        'POSIX does not support named capturing groups'
+      ])
+    })
+
+    it('should translate lookarounds', () => {
+      assert.deepStrictEqual(translations(parse(/(?<=[ab])c/)), [
+        '(?<=[ab])c',
+        '(?<=[ab])c',
+        'RE2 does not support lookbehinds',
+        'POSIX does not support lookbehinds'
+      ])
+      assert.deepStrictEqual(translations(pipe(E.compile, E.lookahead(a), E.negativeLookahead(bc))), [
+        '(?=a)(?!bc)',
+        '(?=a)(?!bc)',
+        'RE2 does not support lookaheads',
+        'POSIX does not support lookaheads'
+      ])
+      assert.deepStrictEqual(
+        translations(
+          pipe(
+            E.compile,
+            E.lookbehind(pipe(E.compile, E.digit, E.exactly(2), E.capture(parse(/[ab]/)))),
+            E.negativeLookbehind('a')
+          )
+        ),
+        [
+          '(?<=\\d{2}([ab]))(?<!a)',
+          '(?<=[0-9]{2}([ab]))(?<!a)',
+          'RE2 does not support lookbehinds',
+          'POSIX does not support lookbehinds'
+        ]
+      )
+      assert.deepStrictEqual(translations(pipe(E.compile, E.lookbehind(parse(/a|bc/)))), [
+        '(?<=a|bc)',
+        'Python does not support variable-length lookbehinds',
+        'RE2 does not support lookbehinds',
+        'POSIX does not support lookbehinds'
+      ])
+      assert.deepStrictEqual(
+        translations(
+          pipe(E.compile, E.lookbehind(pipe(E.compile, E.oneOf([a, parse(/b/)]), E.lookahead(a), E.startOfInput)))
+        ),
+        [
+          '(?<=(?:a|b)(?=a)^)',
+          '(?<=(?:a|b)(?=a)^)',
+          'RE2 does not support lookbehinds',
+          'POSIX does not support lookbehinds'
+        ]
+      )
+      const variable = [
+        E.oneOrMore,
+        E.oneOf([a, bc]),
+        E.oneOf([a, pipe(E.compile, E.digit, E.oneOrMore)]),
+        E.backreference(1)
+      ]
+      variable.forEach((combinator) =>
+        assert.strictEqual(
+          translations(pipe(E.compile, E.capture(a), E.lookbehind(pipe(E.compile, E.digit, combinator))))[0],
+          'PCRE does not support variable-length lookbehinds'
+        )
+      )
+    })
+
+    it('should describe an invalid expression', () => {
+      assert.deepStrictEqual(translations(pipe(E.compile, E.digit, E.between(5, 2))), [
+        "Invalid regular expression: Invalid quantifier '{5,2}' at token 1",
+        "Invalid regular expression: Invalid quantifier '{5,2}' at token 1",
+        "Invalid regular expression: Invalid quantifier '{5,2}' at token 1",
+        "Invalid regular expression: Invalid quantifier '{5,2}' at token 1"
+      ])
+    })
+
+    it('should translate character classes', () => {
+      assert.deepStrictEqual(translations(parse(/[a-z0-9]/)), ['[a-z0-9]', '[a-z0-9]', '[a-z0-9]', '[a-z0-9]'])
+      assert.deepStrictEqual(translations(parse(/[a\-\]^\n][^^]/)), [
+        '[a\\-\\]\\^\\n][^\\^]',
+        '[a\\-\\]\\^\\n][^\\^]',
+        '[a\\-\\]\\^\\n][^\\^]',
+        '[]a\n^-][^[.^.]]'
+      ])
+      assert.deepStrictEqual(translations(pipe(E.compile, E.anyOf('^'), E.anyOf('^-'), E.anyOf('[aa:&&'))), [
+        '[\\^][\\^\\-][\\[aa:\\&\\&]',
+        '[\\^][\\^\\-][\\[aa:\\&\\&]',
+        '[\\^][\\^\\-][\\[aa:\\&\\&]',
+        '[[.^.]][[.^.]-][a:&[]'
+      ])
+      assert.deepStrictEqual(
+        translations(pipe(E.compile, E.charClass(pipe(CC.range('-', ']'), CC.union(CC.digit), CC.union(CC.word))))),
+        ['[\\--\\]\\d\\w]', '[\\--\\]0-90-9A-Za-z_]', '[\\--\\]\\d\\w]', '[[.-.]-[.].][:digit:][:alnum:]_]']
+      )
+      assert.deepStrictEqual(translations(pipe(E.compile, E.charClass(CC.negate(CC.whitespace)))), [
+        '[^\\t\\n\\x0B\\f\\r ]',
+        '[^\\t\\n\\x0B\\f\\r \\xa0\\u1680\\u2000-\\u200a\\u2028\\u2029\\u202f\\u205f\\u3000\\ufeff]',
+        '[^\\t\\n\\x0B\\f\\r \\x{a0}\\x{1680}\\x{2000}-\\x{200a}\\x{2028}\\x{2029}\\x{202f}\\x{205f}\\x{3000}\\x{feff}]',
+        'POSIX does not support negated character types within a class'
+      ])
+      assert.deepStrictEqual(translations(parse(/[\Sa]/)), [
+        'PCRE does not support negated character types within a class',
+        'Python does not support negated character types within a class',
+        'RE2 does not support negated character types within a class',
+        'POSIX does not support negated character types within a class'
+      ])
+      assert.deepStrictEqual(translations(parse(/[\Da]/))[0], '[\\Da]')
+      assert.deepStrictEqual(translations(parse(/[^\D]/))[1], '[0-9]')
+      assert.deepStrictEqual(
+        translations(pipe(E.compile, E.charClass(CC.negate(CC.chars('a'))), E.charClass(CC.whitespace))),
+        [
+          '[^a][\\t\\n\\x0B\\f\\r ]',
+          '[^a][\\t\\n\\x0B\\f\\r \\xa0\\u1680\\u2000-\\u200a\\u2028\\u2029\\u202f\\u205f\\u3000\\ufeff]',
+          '[^a][\\t\\n\\x0B\\f\\r \\x{a0}\\x{1680}\\x{2000}-\\x{200a}\\x{2028}\\x{2029}\\x{202f}\\x{205f}\\x{3000}\\x{feff}]',
+          '[^a][[:space:]]'
+        ]
+      )
+      assert.deepStrictEqual(translations(pipe(E.compile, E.charClass(CC.empty))), [
+        'PCRE does not support empty character classes',
+        'Python does not support empty character classes',
+        'RE2 does not support empty character classes',
+        'POSIX does not support empty character classes'
+      ])
+    })
+
+    it('should translate a class which matches any character', () => {
+      assert.deepStrictEqual(translations(pipe(E.compile, E.charClass(CC.negate(CC.empty)))), [
+        '[\\s\\S]',
+        '[\\s\\S]',
+        '[\\s\\S]',
+        '(.|\n)'
+      ])
+      assert.deepStrictEqual(translations(E.fromGlob('a/**')), [
+        'a/[\\s\\S]*',
+        'a/[\\s\\S]*',
+        'a/[\\s\\S]*',
+        'a/(.|\n)*'
+      ])
+      assert.deepStrictEqual(translations(E.fromLike('a_%')), [
+        'a[\\s\\S][\\s\\S]*',
+        'a[\\s\\S][\\s\\S]*',
+        'a[\\s\\S][\\s\\S]*',
+        'a(.|\n)(.|\n)*'
+      ])
+    })
+
+    itWithFlag('v')('should translate nested classes and set operations', () => {
+      const nested = pipe(CC.chars('a'), CC.union(CC.negate(CC.digit)))
+      assert.deepStrictEqual(translations(pipe(E.compile, E.charClass(nested), E.unicodeSets)), [
+        '(*UTF)[a\\D]',
+        'Python does not support negated character types within a class',
+        '[a\\D]',
+        'POSIX does not support negated character types within a class'
+      ])
+      assert.deepStrictEqual(
+        translations(
+          pipe(E.compile, E.charClass(pipe(CC.chars('a'), CC.union(CC.negate(CC.chars('b'))))), E.unicodeSets)
+        ).slice(1),
+        [
+          'Python does not support nested negated character classes',
+          'RE2 does not support nested negated character classes',
+          'POSIX does not support nested negated character classes'
+        ]
+      )
+      assert.deepStrictEqual(
+        translations(pipe(E.compile, E.charClass(pipe(CC.word, CC.subtract(CC.digit))), E.unicodeSets))[0],
+        'PCRE does not support character class set operations'
+      )
+      assert.deepStrictEqual(translations(parse(regExp('[a[bc]]', 'v')))[2], '[abc]')
+    })
+
+    it('should translate Unicode properties', () => {
+      const property = (name: string, value?: string) =>
+        translations(pipe(E.compile, E.charClass(CC.property(name, value)), E.unicode))
+      assert.deepStrictEqual(property('Letter'), [
+        '(*UTF)[\\p{L}]',
+        'Python does not support Unicode properties',
+        '[\\p{L}]',
+        'POSIX does not support Unicode properties'
+      ])
+      assert.deepStrictEqual(
+        [
+          property('Lu'),
+          property('General_Category', 'Number'),
+          property('gc', 'Nd'),
+          property('Script', 'Greek'),
+          property('sc', 'Grek')
+        ].map(([pcre, , re2]) => [pcre, re2]),
+        [
+          ['(*UTF)[\\p{Lu}]', '[\\p{Lu}]'],
+          ['(*UTF)[\\p{N}]', '[\\p{N}]'],
+          ['(*UTF)[\\p{Nd}]', '[\\p{Nd}]'],
+          ['(*UTF)[\\p{Greek}]', '[\\p{Greek}]'],
+          ['(*UTF)[\\p{Grek}]', '[\\p{Grek}]']
+        ]
+      )
+      assert.deepStrictEqual(
+        translations(pipe(E.compile, E.charClass(CC.negate(CC.property('Letter'))), E.unicode))[0],
+        '(*UTF)[\\P{L}]'
+      )
+      assert.deepStrictEqual(property('ASCII')[0], 'PCRE does not support the Unicode property \\p{ASCII}')
+      assert.deepStrictEqual(
+        property('Script_Extensions', 'Greek')[2],
+        'RE2 does not support the Unicode property \\p{Script_Extensions=Greek}'
+      )
+    })
+  })
+})
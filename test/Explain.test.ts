@@ -0,0 +1,171 @@
+import * as assert from 'assert'
+import { pipe } from 'fp-ts/lib/function'
+import * as T from 'fp-ts/lib/Tree'
+
+import * as CC from '../src/CharClass'
+import * as E from '../src/Expression'
+import * as _ from '../src/Explain'
+
+const explanation = (builder: E.ExpressionBuilder) => _.explain(builder).value
+
+describe('Explain', () => {
+  describe('explain', () => {
+    it('should describe a sequence', () => {
+      assert.strictEqual(explanation(E.compile), 'nothing')
+      assert.strictEqual(
+        explanation(pipe(E.compile, E.sequence([pipe(E.compile, E.string('a')), E.compile]))),
+        "the text 'a', then nothing"
+      )
+      assert.strictEqual(
+        explanation(pipe(E.compile, E.startOfInput, E.string('foo'), E.maybe('bar'), E.endOfInput)),
+        "start of input, then the text 'foo', then optionally the text 'bar', then end of input"
+      )
+    })
+
+    it('should describe the flags', () => {
+      assert.strictEqual(
+        explanation(
+          pipe(
+            E.compile,
+            E.string('a'),
+            E.allowMultiple,
+            E.caseInsensitive,
+            E.lineByLine,
+            E.singleLine,
+            E.sticky,
+            E.unicode,
+            E.unicodeSets
+          )
+        ),
+        "the text 'a'; allowing multiple matches, case-insensitive, line by line, single line, sticky, unicode, unicode sets"
+      )
+    })
+
+    it('should describe the sub-expressions of an expression', () => {
+      const expression = pipe(
+        E.compile,
+        E.oneOf([pipe(E.compile, E.string('a')), pipe(E.compile, E.string('b'), E.digit)]),
+        E.capture(pipe(E.compile, E.string('c')))
+      )
+      assert.deepStrictEqual(
+        _.explain(expression),
+        T.make("(either the text 'a' or (the text 'b', then a digit)), then (the text 'c', captured)", [
+          T.make("either the text 'a' or (the text 'b', then a digit)", [
+            T.make("the text 'a'"),
+            T.make("the text 'b', then a digit", [T.make("the text 'b'"), T.make('a digit')])
+          ]),
+          T.make("the text 'c', captured", [T.make("the text 'c'")])
+        ])
+      )
+    })
+
+    it('should describe quantifiers', () => {
+      const a = pipe(E.compile, E.string('a'))
+      assert.strictEqual(
+        explanation(
+          pipe(
+            E.compile,
+            E.repeat(a, { min: 0 }),
+            E.repeat(a, { min: 1, lazy: true }),
+            E.repeat(a, { min: 2 }),
+            E.repeat(a, { min: 2, max: 2 }),
+            E.repeat(a, { min: 2, max: 3 })
+          )
+        ),
+        [
+          "zero or more of the text 'a'",
+          "one or more of the text 'a', as few times as possible",
+          "at least 2 of the text 'a'",
+          "exactly 2 of the text 'a'",
+          "between 2 and 3 of the text 'a'"
+        ].join(', then ')
+      )
+    })
+
+    it('should describe character types and anchors', () => {
+      const expression = pipe(E.compile, E.startOfInput, E.anything, E.word, E.whitespace, E.endOfInput)
+      assert.strictEqual(
+        explanation(expression),
+        'start of input, then zero or more of any character except a line break, then one or more of a word character, then a whitespace character, then end of input'
+      )
+      assert.strictEqual(
+        explanation(pipe(expression, E.lineByLine, E.singleLine)),
+        'start of line, then zero or more of any character, then one or more of a word character, then a whitespace character, then end of line; line by line, single line'
+      )
+      const boundaries = E.fromRegex(/\bfoo\B/)
+      assert.strictEqual(
+        boundaries._tag === 'Right' && explanation(boundaries.right),
+        "a word boundary, then the text 'foo', then not a word boundary"
+      )
+    })
+
+    it('should quote special characters', () => {
+      assert.strictEqual(explanation(pipe(E.compile, E.string(`'"\\\t`))), `the text '\\'"\\\\\\t'`)
+    })
+
+    it('should describe character classes', () => {
+      // A nested class requires the unicodeSets flag
+      const assertClass = (cc: CC.CharClass, expected: string) =>
+        assert.strictEqual(explanation(pipe(E.compile, E.charClass(cc), E.unicodeSets)), `${expected}; unicode sets`)
+      assertClass(CC.empty, 'no character')
+      assertClass(CC.negate(CC.empty), 'any character')
+      assertClass(CC.chars('a'), "'a'")
+      assertClass(CC.negate(CC.chars('a')), "any character except 'a'")
+      assertClass(
+        pipe(CC.chars('ab'), CC.union(CC.range('0', '9')), CC.union(CC.negate(CC.digit))),
+        "one of 'a', 'b', a character from '0' to '9' or a non-digit"
+      )
+      assertClass(
+        pipe(CC.negate(CC.chars('ab')), CC.union(CC.word)),
+        "one of (any character except 'a' or 'b') or a word character"
+      )
+      assertClass(
+        CC.negate(pipe(CC.whitespace, CC.union(CC.negate(CC.word)), CC.union(CC.negate(CC.whitespace)))),
+        'any character except a whitespace character, a non-word character or a non-whitespace character'
+      )
+      assertClass(
+        pipe(CC.property('Letter'), CC.union(CC.negate(CC.property('Script', 'Greek')))),
+        'one of a character with the Unicode property Letter or a character without the Unicode property Script=Greek'
+      )
+      assertClass(
+        pipe(CC.word, CC.intersect(CC.chars('ab'))),
+        "a character which is both a word character and (one of 'a' or 'b')"
+      )
+      assertClass(
+        pipe(CC.range('a', 'z'), CC.subtract(CC.chars('aeiou'))),
+        "a character from 'a' to 'z' but not (one of 'a', 'e', 'i', 'o' or 'u')"
+      )
+    })
+
+    it('should describe groups, lookarounds and backreferences', () => {
+      const a = pipe(E.compile, E.string('a'))
+      assert.strictEqual(
+        explanation(
+          pipe(
+            E.compile,
+            E.namedCapture('x', a),
+            E.lookahead(a),
+            E.negativeLookahead(a),
+            E.lookbehind(a),
+            E.negativeLookbehind(a),
+            E.backreference('x'),
+            E.capture(a),
+            E.backreference(2),
+            E.many(pipe(E.compile, E.capture(a)))
+          )
+        ),
+        [
+          "(the text 'a', captured as 'x')",
+          "followed by the text 'a'",
+          "not followed by the text 'a'",
+          "preceded by the text 'a'",
+          "not preceded by the text 'a'",
+          "the text matched by group 'x'",
+          "(the text 'a', captured)",
+          'the text matched by group 2',
+          "zero or more of (the text 'a', captured)"
+        ].join(', then ')
+      )
+    })
+  })
+})
@@ -1,9 +1,290 @@
 import * as assert from 'assert'
+import * as Ei from 'fp-ts/lib/Either'
+import * as O from 'fp-ts/lib/Option'
 import { pipe } from 'fp-ts/lib/function'
 
+import * as AST from '../src/Ast'
+import * as CC from '../src/CharClass'
 import * as _ from '../src/Expression'
+import { itWithFlag, regExp } from './util'
+
+const roundTrip = (regex: RegExp) =>
+  pipe(
+    _.fromRegex(regex),
+    Ei.map((builder) => {
+      const result = _.toRegex(builder)
+      return { flags: result.flags, ast: _.fromRegex(result) }
+    })
+  )
+
+const assertRoundTrip = (regex: RegExp) => {
+  const result = roundTrip(regex)
+  assert.deepStrictEqual(
+    pipe(
+      result,
+      Ei.map(({ flags }) => flags)
+    ),
+    Ei.right(regex.flags)
+  )
+  assert.deepStrictEqual(
+    pipe(
+      result,
+      Ei.chain(({ ast }) => ast),
+      Ei.map(_.toAst)
+    ),
+    pipe(_.fromRegex(regex), Ei.map(_.toAst))
+  )
+}
+
+const quantifier = (node: AST.Ast, min: number, max = Infinity) =>
+  AST.quantifier(node, min, max, false) as AST.Quantifier
 
 describe('Expression', () => {
+  describe('constructors', () => {
+    describe('fromRegex', () => {
+      it('should parse a regular expression into an equivalent expression', () => {
+        const regexes = [
+          /^(?<year>\d{4})-(\d{2})\k<year>\1$/,
+          /a+?|[^a-z\-\]]*(?=b)(?<!c)\bd\B/gimsy,
+          /\u{1F600}{2}\p{Script=Greek}\P{L}[\u{1F600}-\u{1F64F}]/u,
+          /a{2,}\x41\0\cJ\/\.{1,3}?/,
+          /a{/
+        ]
+        regexes.forEach(assertRoundTrip)
+      })
+
+      itWithFlag('v')('should parse a regular expression with the `v` flag into an equivalent expression', () => {
+        assertRoundTrip(regExp('[\\w&&[a-z]][[:]\\p{L}][\\p{L}--x]', 'v'))
+      })
+
+      it('should parse a pattern without flags', () => {
+        assert.deepStrictEqual(pipe(_.fromRegex('a.b'), Ei.map(_.toRegexString)), Ei.right('/a.b/'))
+      })
+
+      it('should compose with other combinators', () => {
+        assert.deepStrictEqual(
+          pipe(
+            _.fromRegex(/a|b/i),
+            Ei.map((builder) => pipe(builder, _.digit, _.toRegexString))
+          ),
+          Ei.right('/(?:a|b)\\d/i')
+        )
+      })
+
+      it('should return the location of a parse error', () => {
+        assert.deepStrictEqual(_.fromRegex('a(b'), Ei.left({ index: 1, message: 'Unterminated group' }))
+      })
+
+      itWithFlag('d')('should return an error for an unsupported flag', () => {
+        assert.deepStrictEqual(_.fromRegex(regExp('a', 'd')), Ei.left({ index: 1, message: "Unsupported flag 'd'" }))
+      })
+    })
+
+    describe('fromExpression', () => {
+      it('should add the tokens and the flags of the expression', () => {
+        const expression = pipe(_.compile, _.string('foo'), _.caseInsensitive)(_.monoidExpression.empty)
+        assert.strictEqual(pipe(_.fromExpression(expression), _.digit, _.toRegexString), '/(?:foo)\\d/i')
+      })
+    })
+
+    describe('fromGlob', () => {
+      const assertGlob = (
+        glob: string,
+        options: _.Glob,
+        valid: ReadonlyArray<string>,
+        invalid: ReadonlyArray<string>
+      ) => {
+        const regex = pipe(_.compile, _.startOfInput, _.sequence([_.fromGlob(glob, options)]), _.endOfInput, _.toRegex)
+        valid.forEach((input) => assert.strictEqual(regex.test(input), true, `${glob} ${input}`))
+        invalid.forEach((input) => assert.strictEqual(regex.test(input), false, `${glob} ${input}`))
+      }
+
+      it('should match any characters within a segment', () => {
+        assert.strictEqual(_.toRegexString(_.fromGlob('*.t?')), '/[^\\/]*\\.t[^\\/]/')
+        assertGlob('*.ts', {}, ['a.ts', '.ts', 'index.d.ts'], ['a.tsx', 'src/a.ts'])
+        assertGlob('a?c', {}, ['abc', 'a.c'], ['ac', 'a/c', 'abbc'])
+        assertGlob('a**b', {}, ['ab', 'axxb'], ['a/b'])
+      })
+
+      it('should match any number of segments', () => {
+        assertGlob(
+          'src/**/*.ts',
+          {},
+          ['src/a.ts', 'src/lib/a.ts', 'src/lib/x/a.ts'],
+          ['a.ts', 'src/a.js', 'test/a.ts', 'src//a.ts']
+        )
+        assertGlob('**', {}, ['', 'a', 'a/b/c'], [])
+        assertGlob('a/**', {}, ['a/', 'a/b', 'a/b/c'], ['a', 'b/c'])
+        assertGlob('**/a', {}, ['a', 'x/a', 'x/y/a'], ['xa', '/a'])
+        assertGlob('a/***', {}, ['a/b'], ['a/b/c'])
+      })
+
+      it('should match any number of segments with two stars which are a whole alternative segment', () => {
+        assertGlob('{src/**,lib}', {}, ['src/a', 'src/a/b', 'lib'], ['src', 'lib/a'])
+        assertGlob('{**/x,y}', {}, ['x', 'a/x', 'a/b/x', 'y'], ['ax', 'a/y'])
+        assertGlob('a/{b,**}/c', {}, ['a/b/c', 'a/c', 'a/x/c', 'a/x/y/c'], ['a/c/d', 'a//c'])
+        assertGlob('{a,**}/b', {}, ['a/b', 'b', 'x/b', 'x/y/b'], ['ab', '/b'])
+        assertGlob('{src/**,lib}/x', {}, ['src/x', 'src/a/x', 'lib/x'], ['x', 'lib/a/x'])
+      })
+
+      it('should match the characters of a bracket expression', () => {
+        assertGlob('[a-cx]', {}, ['a', 'b', 'x'], ['d', 'ax', ''])
+        assertGlob('[!a-c]', {}, ['d', '-'], ['a', '/'])
+        assertGlob('[^a]', {}, ['b'], ['a'])
+        assertGlob('[]a-]', {}, [']', 'a', '-'], ['b'])
+        assertGlob('[\\!-\\]]', {}, ['!', 'A', ']'], [' ', 'a'])
+        assertGlob('[a-', {}, ['[a-'], ['a'])
+      })
+
+      it('should match any one of the alternatives within braces', () => {
+        assert.strictEqual(_.toRegexString(_.fromGlob('*.{ts,tsx}')), '/[^\\/]*\\.(?:ts|tsx)/')
+        assertGlob('{a,b{c,d}}', {}, ['a', 'bc', 'bd'], ['b', 'ab'])
+        assertGlob('x{,y}', {}, ['x', 'xy'], ['y'])
+        assertGlob('{[,}],x}', {}, [',', '}', 'x'], ['[', '{'])
+        assertGlob('{\\,,\\}}', {}, [',', '}'], ['\\'])
+        assertGlob('{[a,b}', {}, ['[a', 'b'], ['a'])
+        assertGlob('{a,b', {}, ['{a,b'], ['a'])
+      })
+
+      it('should match escaped characters literally', () => {
+        assertGlob('\\*\\?\\[a]', {}, ['*?[a]'], ['a?a'])
+        assertGlob('a\\', {}, ['a\\'], ['a'])
+      })
+
+      it('should support other separators', () => {
+        assertGlob(
+          'src\\**\\*.ts',
+          { separators: '\\' },
+          ['src\\a.ts', 'src\\x\\a.ts', 'src\\x/y\\a.ts'],
+          ['src/x\\a.ts', 'src\\x/a']
+        )
+        assertGlob('src/**/[!a].ts', { separators: '/\\' }, ['src/b.ts', 'src\\x/b.ts'], ['src/a.ts', 'src//.ts'])
+        assertGlob('**/*', { separators: '' }, ['a/b', '/\n'], ['a'])
+      })
+
+      it('should compose with other combinators and flags', () => {
+        const expression = pipe(_.compile, _.sequence([_.fromGlob('*.TS')]), _.caseInsensitive, _.toRegex)
+        assert.strictEqual(expression.test('index.ts'), true)
+        assert.strictEqual(pipe(_.fromGlob('a?'), _.oneOrMore, _.toRegexString), '/(?:a[^\\/])+/')
+      })
+    })
+
+    describe('fromLike', () => {
+      const assertLike = (
+        pattern: string,
+        options: _.Like,
+        valid: ReadonlyArray<string>,
+        invalid: ReadonlyArray<string>
+      ) => {
+        const regex = pipe(
+          _.compile,
+          _.startOfInput,
+          _.sequence([_.fromLike(pattern, options)]),
+          _.endOfInput,
+          _.toRegex
+        )
+        valid.forEach((input) => assert.strictEqual(regex.test(input), true, `${pattern} ${input}`))
+        invalid.forEach((input) => assert.strictEqual(regex.test(input), false, `${pattern} ${input}`))
+      }
+
+      it('should match any characters and any one character', () => {
+        assert.strictEqual(_.toRegexString(_.fromLike('a.%_')), '/a\\.[^]*[^]/')
+        assertLike('foo%bar_', {}, ['foobarx', 'foo\nbar!', 'foo-bar-'], ['foobar', 'foo-bar', 'xfoobarx'])
+        assertLike('%', {}, ['', 'a\nb'], [])
+      })
+
+      it('should match escaped characters literally', () => {
+        assertLike('100!%!_!!', { escape: '!' }, ['100%_!'], ['1000_!', '100%a!'])
+        assertLike('a!', { escape: '!' }, ['a!'], ['a'])
+        assertLike('a\\%', {}, ['a\\', 'a\\b'], ['a%'])
+      })
+    })
+
+    describe('regex', () => {
+      it('should parse the literal parts of the template', () => {
+        assert.strictEqual(pipe(_.regex`^\d+(?:\.\d*)?|[a-z]\b$`, _.toRegexString), '/^\\d+(?:\\.\\d*)?|[a-z]\\b$/')
+        assert.strictEqual(pipe(_.regex``, _.toRegexString), '/(?:)/')
+      })
+
+      it('should match interpolated strings literally', () => {
+        assert.strictEqual(pipe(_.regex`a${'.*'}b`, _.toRegexString), '/a\\.\\*b/')
+        assert.strictEqual(pipe(_.regex`(${'a+'}|${'b'}c)?(?=${'$'})`, _.toRegexString), '/(a\\+|bc)?(?=\\$)/')
+        assert.strictEqual(pipe(_.regex`${'ab'}{2}`, _.toRegexString), '/(?:ab){2}/')
+      })
+
+      it('should embed interpolated expressions as groups', () => {
+        const digits = pipe(_.compile, _.digit, _.oneOrMore)
+        const letter = pipe(_.compile, _.anyOf('xy'), _.caseInsensitive)
+        assert.strictEqual(pipe(_.regex`${digits}{2}-${letter}`, _.toRegexString), '/(?:\\d+){2}-(?:[xy])/i')
+        const version = _.regex`v${pipe(_.compile, _.namedCapture('major', digits))}\.${digits}`
+        const groups: { readonly major: string } = pipe(
+          _.toRegex(version).exec('v12.3'),
+          (result) => result?.groups as NonNullable<typeof version._G>
+        )
+        assert.deepStrictEqual({ ...groups }, { major: '12' })
+      })
+
+      it('should continue through the combinators', () => {
+        assert.strictEqual(pipe(_.regex`a|b`, _.string('c'), _.caseInsensitive, _.toRegexString), '/(?:a|b)(?:c)/i')
+      })
+
+      it('should parse the template with the syntax which is allowed by the flags', () => {
+        assert.strictEqual(pipe(_.regex`\u{1F600}`, _.toRegexString), '/u\\{1F600\\}/')
+        assert.strictEqual(pipe(_.regex`\u{1F600}`, _.unicode, _.toRegexString), '/😀/u')
+        assert.strictEqual(
+          pipe(_.regex`\p{Lu}${pipe(_.compile, _.digit, _.unicode)}`, _.toRegexString),
+          '/[\\p{Lu}](?:\\d)/u'
+        )
+      })
+
+      itWithFlag('v')('should parse the template with the set operations of the `v` flag', () => {
+        assert.strictEqual(pipe(_.regex`[\w--\d]`, _.unicodeSets, _.toRegexString), '/[[\\w]--[\\d]]/v')
+      })
+
+      it('should check the named groups of the literal parts', () => {
+        const digits = pipe(_.compile, _.namedCapture('n', pipe(_.compile, _.digit)))
+        assert.deepStrictEqual(
+          pipe(_.regex`(?<n>a)${digits}`, _.validate),
+          Ei.left({ _tag: 'DuplicateGroupName', name: 'n', index: 0 })
+        )
+      })
+
+      it('should choose placeholders which do not occur in the template', () => {
+        const raw = ['\uE000', '']
+        const template = Object.assign([...raw], { raw }) as TemplateStringsArray
+        assert.strictEqual(pipe(_.regex(template, '\uE001'), _.toRegexString), '/\uE000\uE001/')
+      })
+
+      it('should choose placeholders which are not produced by an escape of the template', () => {
+        assert.strictEqual(pipe(_.regex`\uE000${'x'}`, _.toRegex).source, '\uE000x')
+        assert.strictEqual(pipe(_.regex`[\uE000]${'x'}`, _.toRegex).test('\uE000x'), true)
+        assert.strictEqual(pipe(_.regex`[\uE000-\uE002]${'x'}`, _.toRegex).test('\uE001x'), true)
+        assert.strictEqual(pipe(_.regex`[${'x'}]\uE000`, _.toRegexEither)._tag, 'Left')
+      })
+
+      it('should be invalid if the template is invalid', () => {
+        assert.deepStrictEqual(pipe(_.regex`(a${'b'}`, _.toRegexEither), {
+          _tag: 'Left',
+          left: {
+            _tag: 'InvalidPattern',
+            pattern: `(a\${...}`,
+            message: `Invalid regular expression: /(a\${...}/: Unterminated group`,
+            index: 0
+          }
+        })
+        assert.deepStrictEqual(pipe(_.regex`[a${'b'}]`, _.toRegexEither), {
+          _tag: 'Left',
+          left: {
+            _tag: 'InvalidPattern',
+            pattern: `[a\${...}]`,
+            message: `Invalid regular expression: /[a\${...}]/: Interpolation within a character class`,
+            index: 0
+          }
+        })
+      })
+    })
+  })
+
   describe('modifiers', () => {
     describe('allowMultiple', () => {
       it('should set the `g` flag', () => {
@@ -41,6 +322,16 @@ describe('Expression', () => {
       })
     })
 
+    describe('unicodeSets', () => {
+      itWithFlag('v')('should set the `v` flag', () => {
+        assert.strictEqual(pipe(_.compile, _.string('foo'), _.unicodeSets, _.toRegexString), '/(?:foo)/v')
+      })
+
+      itWithFlag('v')('should supersede the `u` flag', () => {
+        assert.strictEqual(pipe(_.compile, _.string('foo'), _.unicode, _.unicodeSets, _.toRegexString), '/(?:foo)/v')
+      })
+    })
+
     describe('multiple flags', () => {
       it('should support setting multiple flags', () => {
         assert.strictEqual(
@@ -76,6 +367,174 @@ describe('Expression', () => {
       })
     })
 
+    describe('maybe (sub-expression)', () => {
+      it('should optionally match a sub-expression', () => {
+        const sub = pipe(_.compile, _.string('foo'), _.digit)
+        assert.strictEqual(pipe(_.compile, _.maybe(sub), _.toRegexString), '/(?:(?:foo)\\d)?/')
+      })
+    })
+
+    describe('group', () => {
+      it('should match a sub-expression within a non-capturing group', () => {
+        const sub = pipe(_.compile, _.string('foo'), _.orExpression, _.string('bar'))
+        assert.strictEqual(pipe(_.compile, _.group(sub), _.oneOrMore, _.toRegexString), '/(?:(?:foo)|(?:bar))+/')
+      })
+    })
+
+    describe('capture', () => {
+      it('should match a sub-expression within a capturing group', () => {
+        const sub = pipe(_.compile, _.word)
+        assert.strictEqual(pipe(_.compile, _.string('@'), _.capture(sub), _.toRegexString), '/(?:@)(\\w+)/')
+      })
+    })
+
+    describe('namedCapture', () => {
+      it('should match a sub-expression within a named capturing group', () => {
+        const year = pipe(_.compile, _.digit, _.exactly(4))
+        const expression = pipe(_.compile, _.namedCapture('year', year), _.toRegex)
+        assert.strictEqual(expression.source, '(?<year>\\d{4})')
+        assert.deepStrictEqual({ ...expression.exec('in 2021')?.groups }, { year: '2021' })
+      })
+
+      it('should throw when a name is used by more than one capturing group', () => {
+        const a = pipe(_.compile, _.string('a'))
+        assert.throws(() => pipe(_.compile, _.namedCapture('a', a), _.namedCapture('a', a), _.toRegex), {
+          name: 'SyntaxError',
+          message: "Invalid regular expression: Duplicate capture group name 'a' at token 1"
+        })
+      })
+
+      it('should be invalid if the name is not an identifier', () => {
+        const q = pipe(_.compile, _.string('q'))
+        assert.deepStrictEqual(
+          pipe(_.compile, _.string('x'), _.namedCapture('a>x)|(?<b', q), _.validate),
+          Ei.left({ _tag: 'InvalidGroupName', name: 'a>x)|(?<b', index: 1 })
+        )
+        assert.deepStrictEqual(
+          pipe(_.compile, _.namedCapture('1a', q), _.validate),
+          Ei.left({ _tag: 'InvalidGroupName', name: '1a', index: 0 })
+        )
+        assert.strictEqual(pipe(_.compile, _.namedCapture('$é_1', q), _.toRegexString), '/(?<$é_1>(?:q))/')
+      })
+
+      it('should be invalid if a capturing group of the syntax tree is not named by an identifier', () => {
+        const expression: _.Expression = {
+          tokens: [{ _tag: 'Term', ast: AST.namedCapture('a>.*)|(?<z', AST.literal('x')) }],
+          flags: _.monoidExpression.empty.flags
+        }
+        assert.deepStrictEqual(
+          pipe(_.fromExpression(expression), _.validate),
+          Ei.left({ _tag: 'InvalidGroupName', name: 'a>.*)|(?<z', index: 0 })
+        )
+      })
+    })
+
+    describe('backreference', () => {
+      it('should match the text matched by a numbered capturing group', () => {
+        const quote = pipe(_.compile, _.anyOf(`'"`))
+        const expression = pipe(_.compile, _.capture(quote), _.word, _.backreference(1), _.toRegex)
+        assert.strictEqual(expression.source, `(['"])\\w+\\1`)
+        assert.strictEqual(expression.test(`'foo'`), true)
+        assert.strictEqual(expression.test(`'foo"`), false)
+      })
+
+      it('should match the text matched by a named capturing group', () => {
+        const quote = pipe(_.compile, _.anyOf(`'"`))
+        const expression = pipe(_.compile, _.namedCapture('quote', quote), _.word, _.backreference('quote'), _.toRegex)
+        assert.strictEqual(expression.source, `(?<quote>['"])\\w+\\k<quote>`)
+        assert.strictEqual(expression.test(`"foo"`), true)
+        assert.strictEqual(expression.test(`"foo'`), false)
+      })
+
+      it('should allow a reference from a sub-expression to a capturing group which encloses it', () => {
+        const quote = pipe(_.compile, _.anyOf(`'"`))
+        const quoted = pipe(_.compile, _.capture(quote), _.sequence([pipe(_.compile, _.word, _.backreference(1))]))
+        assert.strictEqual(pipe(quoted, _.toRegexString), `/(['"])\\w+\\1/`)
+      })
+
+      it('should allow a reference to a capturing group which follows it', () => {
+        assert.strictEqual(
+          pipe(_.compile, _.backreference(1), _.beginCapture, _.digit, _.endCapture, _.toRegexString),
+          '/\\1(\\d)/'
+        )
+      })
+
+      it('should not read a digit which follows a sub-expression as part of the group number', () => {
+        const expression = pipe(
+          _.compile,
+          _.capture(pipe(_.compile, _.string('x'))),
+          _.sequence([pipe(_.compile, _.string('a'), _.backreference(1))]),
+          _.sequence([_.fromLike('2')]),
+          _.toRegex
+        )
+        assert.strictEqual(expression.test('xax2'), true)
+        assert.strictEqual(expression.test('xa\n'), false)
+      })
+
+      it('should be invalid if the name is not an identifier', () => {
+        assert.deepStrictEqual(
+          pipe(_.compile, _.backreference('a>'), _.validate),
+          Ei.left({ _tag: 'InvalidGroupName', name: 'a>', index: 0 })
+        )
+      })
+
+      it('should throw when the referenced capturing group does not exist', () => {
+        const a = pipe(_.compile, _.string('a'))
+        assert.throws(() => pipe(_.compile, _.capture(a), _.backreference(2), _.toRegex), {
+          name: 'SyntaxError',
+          message: "Invalid regular expression: Invalid backreference '\\2' at token 1"
+        })
+        assert.throws(() => pipe(_.compile, _.capture(a), _.backreference(0), _.toRegex), {
+          name: 'SyntaxError',
+          message: "Invalid regular expression: Invalid backreference '\\0' at token 1"
+        })
+        assert.deepStrictEqual(
+          pipe(_.compile, _.capture(a), _.capture(a), _.backreference(1.5), _.toRegexEither),
+          Ei.left({ _tag: 'InvalidBackreference', reference: 1.5, index: 2 })
+        )
+        assert.throws(() => pipe(_.compile, _.namedCapture('a', a), _.backreference('b'), _.toRegex), {
+          name: 'SyntaxError',
+          message: "Invalid regular expression: Invalid backreference '\\k<b>' at token 1"
+        })
+      })
+    })
+
+    describe('oneOf', () => {
+      it('should match any one of the sub-expressions', () => {
+        const a = pipe(_.compile, _.string('a'))
+        const b = pipe(_.compile, _.digit, _.oneOrMore)
+        assert.strictEqual(pipe(_.compile, _.oneOf([a, b]), _.toRegexString), '/(?:(?:a)|\\d+)/')
+        assert.strictEqual(pipe(_.compile, _.oneOf([a]), _.toRegexString), '/(?:(?:a))/')
+      })
+    })
+
+    describe('sequence', () => {
+      it('should match each of the sub-expressions in order', () => {
+        const a = pipe(_.compile, _.string('a'), _.orExpression, _.string('b'))
+        const b = pipe(_.compile, _.digit)
+        assert.strictEqual(pipe(_.compile, _.sequence([a, b]), _.toRegexString), '/(?:(?:a)|(?:b))\\d/')
+        assert.strictEqual(
+          pipe(_.compile, _.sequence([a, b]), _.exactly(2), _.toRegexString),
+          '/(?:(?:(?:a)|(?:b))\\d){2}/'
+        )
+        assert.strictEqual(pipe(_.compile, _.sequence([]), _.toRegexString), '/(?:)/')
+      })
+
+      it('should apply the flags of the sub-expressions to the expression', () => {
+        const a = pipe(_.compile, _.string('a'), _.caseInsensitive)
+        const b = pipe(_.compile, _.digit, _.unicode)
+        assert.strictEqual(pipe(_.compile, _.sequence([a, b]), _.allowMultiple, _.toRegexString), '/(?:a)\\d/giu')
+      })
+
+      it('should throw when a sub-expression is invalid', () => {
+        const a = pipe(_.compile, _.beginCapture)
+        assert.throws(() => pipe(_.compile, _.sequence([a]), _.toRegex), {
+          name: 'SyntaxError',
+          message: 'Invalid regular expression: Unterminated group at token 0'
+        })
+      })
+    })
+
     describe('or', () => {
       it('should match the preceding value or the subsequent value', () => {
         assert.strictEqual(pipe(_.compile, _.string('foo'), _.or('bar'), _.toRegexString), '/(?:(?:foo))|(?:(?:bar))/')
@@ -130,18 +589,269 @@ describe('Expression', () => {
       })
     })
 
+    describe('oneOfStrings', () => {
+      const matches = (builder: _.ExpressionBuilder) => {
+        const regex = pipe(_.compile, _.startOfInput, _.sequence([builder]), _.endOfInput, _.toRegex)
+        return (input: string) => regex.test(input)
+      }
+
+      it('should arrange the strings by their common prefixes', () => {
+        assert.strictEqual(
+          pipe(_.compile, _.oneOfStrings(['foo', 'bar', 'baz', 'foobar', 'a', 'b', 'c']), _.toRegexString),
+          '/(?:[ac]|b(?:a[rz])?|foo(?:bar)?)/'
+        )
+        assert.strictEqual(pipe(_.compile, _.oneOfStrings(['x', 'x', 'xy', '']), _.toRegexString), '/(?:(?:xy?)?)/')
+      })
+
+      it('should escape the strings', () => {
+        const expression = pipe(_.compile, _.oneOfStrings(['a.b', 'c++', '(d)', '^', ']']))
+        assert.strictEqual(_.toRegexString(expression), '/(?:[\\]\\^]|\\(d\\)|a\\.b|c\\+\\+)/')
+        assert.deepStrictEqual(['a.b', 'c++', '(d)', '^', ']', 'axb', 'c'].map(matches(expression)), [
+          true,
+          true,
+          true,
+          true,
+          true,
+          false,
+          false
+        ])
+      })
+
+      it('should prefer the longest string', () => {
+        assert.deepStrictEqual(
+          pipe(_.compile, _.oneOfStrings(['in', 'int', 'i']), _.toRegex).exec('integer')?.[0],
+          'int'
+        )
+      })
+
+      it('should match letters in either case', () => {
+        const expression = pipe(_.compile, _.oneOfStrings(['Ab', 'ß1', 'ab', 'x', 'Y'], { caseInsensitive: true }))
+        assert.strictEqual(_.toRegexString(expression), '/(?:[xXyY]|[aA][bB]|ß1)/')
+        assert.deepStrictEqual(['AB', 'aB', 'ß1', 'X', 'y', 'ẞ1'].map(matches(expression)), [
+          true,
+          true,
+          true,
+          true,
+          true,
+          false
+        ])
+      })
+
+      it('should only match whole words', () => {
+        const regex = pipe(_.compile, _.oneOfStrings(['cat', 'dog'], { wholeWord: true }), _.allowMultiple, _.toRegex)
+        assert.deepStrictEqual('cat dogs hotdog dog'.match(regex), ['cat', 'dog'])
+      })
+
+      it('should match nothing without any strings', () => {
+        const expression = pipe(_.compile, _.oneOfStrings([]))
+        assert.strictEqual(_.toRegexString(expression), '/(?:[])/')
+        assert.strictEqual(matches(expression)(''), false)
+      })
+
+      it('should match any of a large number of strings', () => {
+        const codes = Array.from({ length: 5000 }, (_c, i) => `SKU-${(i * 7919) % 100000}`)
+        const expression = pipe(_.compile, _.oneOfStrings(codes))
+        assert.strictEqual(codes.every(matches(expression)), true)
+        assert.strictEqual(matches(expression)('SKU-1'), false)
+      })
+    })
+
     describe('not', () => {
       it('should not match the specified value', () => {
         assert.strictEqual(pipe(_.compile, _.not('foo'), _.toRegexString), '/(?!foo)/')
       })
     })
 
+    describe('charClass', () => {
+      itWithFlag('v')('should match any member of the class', () => {
+        const greek = pipe(CC.property('Script', 'Greek'), CC.intersect(CC.property('Letter')))
+        const expression = pipe(_.compile, _.charClass(greek), _.oneOrMore, _.unicodeSets, _.toRegex)
+        assert.strictEqual(expression.source, '[[\\p{Script=Greek}]&&[\\p{Letter}]]+')
+        assert.strictEqual(expression.test('αβγ'), true)
+        assert.strictEqual(expression.test('abc'), false)
+      })
+
+      itWithFlag('v')('should not join the members of the class into a set operation', () => {
+        const expression = pipe(_.compile, _.charClass(pipe(CC.chars('a&'), CC.union(CC.chars('&b')))), _.unicodeSets)
+        assert.strictEqual(pipe(expression, _.toRegexString), '/[a&\\x26b]/v')
+        assert.strictEqual(pipe(expression, _.toRegex).test('a'), true)
+      })
+
+      it('should return an error when a flag which the class requires is not set', () => {
+        assert.deepStrictEqual(
+          pipe(_.compile, _.charClass(CC.property('Letter')), _.toRegexEither),
+          Ei.left({ _tag: 'MissingFlag', flag: 'unicode', index: 0 })
+        )
+        assert.deepStrictEqual(
+          pipe(_.compile, _.charClass(CC.property('Letter')), _.unicode, _.toRegexString),
+          '/[\\p{Letter}]/u'
+        )
+        assert.deepStrictEqual(
+          pipe(_.compile, _.charClass(pipe(CC.word, CC.subtract(CC.digit))), _.unicode, _.toRegexEither),
+          Ei.left({ _tag: 'MissingFlag', flag: 'unicodeSets', index: 0 })
+        )
+        assert.deepStrictEqual(
+          pipe(_.compile, _.charClass(pipe(CC.digit, CC.union(CC.negate(CC.chars('a'))))), _.toRegexEither),
+          Ei.left({ _tag: 'MissingFlag', flag: 'unicodeSets', index: 0 })
+        )
+        assert.deepStrictEqual(
+          pipe(_.compile, _.charClass(pipe(CC.range('z', 'a'), CC.intersect(CC.word))), _.unicodeSets, _.toRegexEither),
+          Ei.left({ _tag: 'InvalidRange', from: 'z', to: 'a', index: 0 })
+        )
+      })
+
+      it('should check a sub-expression with the flags of the entire expression', () => {
+        const letter = pipe(_.compile, _.charClass(CC.property('Letter')))
+        assert.strictEqual(pipe(_.compile, _.capture(letter), _.unicode, _.toRegexString), '/([\\p{Letter}])/u')
+      })
+    })
+
+    describe('lookahead', () => {
+      it('should assert that the value follows', () => {
+        assert.strictEqual(pipe(_.compile, _.digit, _.lookahead('px'), _.toRegexString), '/\\d(?=px)/')
+        assert.strictEqual(
+          pipe(
+            _.compile,
+            _.digit,
+            _.lookahead(pipe(_.compile, _.string('px'), _.orExpression, _.string('em'))),
+            _.toRegexString
+          ),
+          '/\\d(?=(?:px)|(?:em))/'
+        )
+      })
+    })
+
+    describe('negativeLookahead', () => {
+      it('should assert that the value does not follow', () => {
+        assert.strictEqual(pipe(_.compile, _.digit, _.negativeLookahead('.'), _.toRegexString), '/\\d(?!\\.)/')
+        assert.strictEqual(
+          pipe(_.compile, _.digit, _.negativeLookahead(pipe(_.compile, _.digit)), _.toRegexString),
+          '/\\d(?!\\d)/'
+        )
+      })
+    })
+
+    describe('lookbehind', () => {
+      it('should assert that the value precedes', () => {
+        assert.strictEqual(pipe(_.compile, _.lookbehind('$'), _.digit, _.toRegexString), '/(?<=\\$)\\d/')
+        assert.strictEqual(
+          pipe(_.compile, _.lookbehind(pipe(_.compile, _.anyOf('$€'))), _.digit, _.toRegexString),
+          '/(?<=[$€])\\d/'
+        )
+      })
+    })
+
+    describe('negativeLookbehind', () => {
+      it('should assert that the value does not precede', () => {
+        assert.strictEqual(pipe(_.compile, _.negativeLookbehind('-'), _.digit, _.toRegexString), '/(?<!-)\\d/')
+        const price = pipe(_.compile, _.negativeLookbehind(pipe(_.compile, _.anyOf('$€'))), _.digit, _.oneOrMore)
+        assert.deepStrictEqual('$12 and 34'.match(pipe(price, _.allowMultiple, _.toRegex)), ['2', '34'])
+      })
+
+      it('should return an error when the sub-expression is invalid', () => {
+        assert.deepStrictEqual(
+          pipe(_.compile, _.negativeLookbehind(pipe(_.compile, _.endCapture)), _.toRegexEither),
+          Ei.left({ _tag: 'UnmatchedEndCapture', index: 0 })
+        )
+      })
+    })
+
     describe('range', () => {
       it('should match a range of values', () => {
         assert.strictEqual(pipe(_.compile, _.range('a', 'z'), _.toRegexString), '/[a-z]/')
       })
     })
 
+    describe('integerRange', () => {
+      const exactly = (combinator: _.Combinator) => {
+        const regex = pipe(_.compile, _.startOfInput, combinator, _.endOfInput, _.toRegex)
+        return (input: string) => regex.test(input)
+      }
+
+      const assertRange = (min: number, max: number, format: (n: number) => string, options?: _.IntegerRange) => {
+        const matches = exactly(_.integerRange(min, max, options))
+        for (let n = min - 120; n <= max + 120; n += 1) {
+          assert.strictEqual(matches(format(n)), n >= min && n <= max, format(n))
+        }
+      }
+
+      it('should match exactly the integers within the range', () => {
+        assertRange(0, 255, String)
+        assertRange(1, 12, String)
+        assertRange(7, 7, String)
+        assertRange(19, 20, String)
+        assertRange(95, 1005, String)
+        assertRange(-20, 7, String)
+        assertRange(-300, -5, String)
+      })
+
+      it('should pad the integers with leading zeros', () => {
+        const pad = (n: number) => `${n < 0 ? '-' : ''}${String(Math.abs(n)).padStart(3, '0')}`
+        assertRange(0, 59, (n) => String(n).padStart(2, '0'), { leadingZeros: true })
+        assertRange(-5, 120, pad, { leadingZeros: true })
+        assert.strictEqual(exactly(_.integerRange(0, 59, { leadingZeros: true }))('5'), false)
+      })
+
+      it('should prefer longer integers', () => {
+        assert.deepStrictEqual(pipe(_.compile, _.integerRange(0, 255), _.toRegex).exec('250')?.[0], '250')
+      })
+
+      it('should reject bounds which are not integers in order', () => {
+        assert.deepStrictEqual(
+          pipe(_.compile, _.integerRange(10, 2), _.toRegexEither),
+          Ei.left({ _tag: 'InvalidRange', from: '10', to: '2', index: 0 })
+        )
+        assert.deepStrictEqual(
+          pipe(_.compile, _.integerRange(0, 1.5), _.toRegexEither),
+          Ei.left({ _tag: 'InvalidRange', from: '0', to: '1.5', index: 0 })
+        )
+      })
+    })
+
+    describe('decimalRange', () => {
+      const exactly = (combinator: _.Combinator) => {
+        const regex = pipe(_.compile, _.startOfInput, combinator, _.endOfInput, _.toRegex)
+        return (input: string) => regex.test(input)
+      }
+
+      it('should match exactly the decimal numbers within the range', () => {
+        const ranges: ReadonlyArray<readonly [number, number, number]> = [
+          [0.5, 12.25, 2],
+          [1, 3, 1],
+          [-1.5, 0.7, 1],
+          [-12.05, -0.5, 2],
+          [0.25, 0.75, 2],
+          [0.5, 2.99, 2],
+          [1.5, 2.5, 1]
+        ]
+        ranges.forEach(([min, max, fractionDigits]) => {
+          const matches = exactly(_.decimalRange(min, max, fractionDigits))
+          const unit = 10 ** fractionDigits
+          for (let n = Math.round(min * unit) - 200; n <= Math.round(max * unit) + 200; n += 1) {
+            const x = n / unit
+            assert.strictEqual(matches(x.toFixed(fractionDigits)), x >= min && x <= max, x.toFixed(fractionDigits))
+          }
+          assert.strictEqual(matches(String(Math.round(min))), false)
+        })
+      })
+
+      it('should match integers without fraction digits', () => {
+        assert.strictEqual(pipe(_.compile, _.decimalRange(1, 12, 0), _.toRegexString), '/(?:1[0-2]|[1-9])/')
+      })
+
+      it('should reject bounds which are not decimal numbers in order', () => {
+        const invalid = (min: number, max: number, fractionDigits: number) =>
+          assert.deepStrictEqual(
+            pipe(_.compile, _.decimalRange(min, max, fractionDigits), _.toRegexEither),
+            Ei.left({ _tag: 'InvalidRange', from: String(min), to: String(max), index: 0 })
+          )
+        invalid(2.5, 1, 1)
+        invalid(0, 1.25, 1)
+        invalid(0, 1, -1)
+        invalid(0, 1, 1.5)
+      })
+    })
+
     describe('lineBreak', () => {
       it('should match a line terminator', () => {
         assert.strictEqual(pipe(_.compile, _.lineBreak, _.toRegexString), '/(?:\\r\\n|\\r|\\n)/')
@@ -188,6 +898,65 @@ describe('Expression', () => {
       it('should match one or more of the preceding value', () => {
         assert.strictEqual(pipe(_.compile, _.string('foo'), _.oneOrMore, _.toRegexString), '/(?:foo)+/')
       })
+
+      it('should group a preceding value which cannot be quantified by itself', () => {
+        assert.strictEqual(pipe(_.compile, _.word, _.exactly(2), _.toRegexString), '/(?:\\w+){2}/')
+        assert.strictEqual(pipe(_.compile, _.startOfInput, _.zeroOrMore, _.toRegexString), '/(?:^)*/')
+        assert.strictEqual(
+          pipe(_.compile, _.lookbehind('a'), _.exactly(2), _.unicode, _.toRegexString),
+          '/(?:(?<=a)){2}/u'
+        )
+      })
+
+      it('should merge a quantifier which repeats an unbounded quantifier', () => {
+        assert.strictEqual(pipe(_.compile, _.word, _.oneOrMore, _.toRegexString), '/\\w+/')
+        assert.strictEqual(pipe(_.compile, _.something, _.zeroOrMore, _.toRegexString), '/.*/')
+        assert.strictEqual(pipe(_.compile, _.word, _.atLeast(3), _.toRegexString), '/\\w{3,}/')
+        assert.strictEqual(pipe(_.compile, _.digit, _.atLeast(2), _.zeroOrMore, _.toRegexString), '/(?:\\d{2,})*/')
+        assert.strictEqual(pipe(_.compile, _.word, _.oneOrMoreLazy, _.toRegexString), '/(?:\\w+)+?/')
+        assert.strictEqual(pipe(_.compile, _.many(pipe(_.compile, _.word)), _.toRegexString), '/\\w*/')
+        assert.strictEqual(pipe(_.compile, _.many1(pipe(_.compile, _.anything)), _.toRegexString), '/.*/')
+      })
+    })
+
+    describe('repeat', () => {
+      it('should repeat the entire sub-expression', () => {
+        const ab = pipe(_.compile, _.string('a'), _.digit)
+        assert.strictEqual(pipe(_.compile, _.repeat(ab, { min: 3, max: 3 }), _.toRegexString), '/(?:(?:a)\\d){3}/')
+        assert.strictEqual(pipe(_.compile, _.repeat(ab, { min: 2 }), _.toRegexString), '/(?:(?:a)\\d){2,}/')
+        assert.strictEqual(
+          pipe(_.compile, _.repeat(ab, { min: 0, max: 2, lazy: true }), _.toRegexString),
+          '/(?:(?:a)\\d){0,2}?/'
+        )
+        assert.strictEqual(
+          pipe(_.compile, _.repeat(pipe(_.compile, _.word), { min: 2, max: 3 }), _.toRegexString),
+          '/(?:\\w+){2,3}/'
+        )
+        assert.strictEqual(pipe(_.compile, _.repeat(pipe(_.compile, _.digit), { min: 1 }), _.toRegexString), '/\\d+/')
+      })
+
+      it('should return an error when the repetition is invalid', () => {
+        assert.deepStrictEqual(
+          pipe(_.compile, _.repeat(pipe(_.compile, _.digit), { min: 5, max: 2 }), _.toRegexEither),
+          Ei.left({ _tag: 'InvalidQuantifier', min: 5, max: 2, index: 0 })
+        )
+        assert.deepStrictEqual(
+          pipe(_.compile, _.repeat(_.compile, { min: 1 }), _.toRegexEither),
+          Ei.left({ _tag: 'NothingToRepeat', quantifier: '+', index: 0 })
+        )
+      })
+    })
+
+    describe('many', () => {
+      it('should repeat the sub-expression zero or more times', () => {
+        assert.strictEqual(pipe(_.compile, _.many(pipe(_.compile, _.string('ab'))), _.toRegexString), '/(?:ab)*/')
+      })
+    })
+
+    describe('many1', () => {
+      it('should repeat the sub-expression one or more times', () => {
+        assert.strictEqual(pipe(_.compile, _.many1(pipe(_.compile, _.string('ab'))), _.toRegexString), '/(?:ab)+/')
+      })
     })
 
     describe('oneOrMoreLazy', () => {
@@ -227,6 +996,228 @@ describe('Expression', () => {
           '/((?:foo))/'
         )
       })
+
+      it('should close a capturing group containing alternatives', () => {
+        assert.strictEqual(
+          pipe(_.compile, _.beginCapture, _.string('foo'), _.or('bar'), _.endCapture, _.toRegexString),
+          '/((?:(?:foo))|(?:(?:bar)))/'
+        )
+      })
+
+      it('should throw when a capturing group is not closed', () => {
+        assert.throws(() => pipe(_.compile, _.beginCapture, _.string('foo'), _.toRegex), {
+          name: 'SyntaxError',
+          message: 'Invalid regular expression: Unterminated group at token 0'
+        })
+      })
+
+      it('should throw when no capturing group is open', () => {
+        assert.throws(() => pipe(_.compile, _.string('foo'), _.or('bar'), _.endCapture, _.toRegex), {
+          name: 'SyntaxError',
+          message: "Invalid regular expression: Unmatched ')' at token 3"
+        })
+      })
+    })
+  })
+
+  describe('destructors', () => {
+    describe('toRegexEither', () => {
+      it('should return the regular expression', () => {
+        assert.deepStrictEqual(pipe(_.compile, _.digit, _.allowMultiple, _.toRegexEither), Ei.right(/\d/g))
+      })
+
+      it('should return an error when a group is unbalanced', () => {
+        assert.deepStrictEqual(
+          pipe(_.compile, _.beginCapture, _.digit, _.toRegexEither),
+          Ei.left({ _tag: 'UnterminatedGroup', index: 0 })
+        )
+        assert.deepStrictEqual(
+          pipe(_.compile, _.digit, _.endCapture, _.toRegexEither),
+          Ei.left({ _tag: 'UnmatchedEndCapture', index: 1 })
+        )
+      })
+
+      it('should return an error when a quantifier has nothing to repeat', () => {
+        assert.deepStrictEqual(
+          pipe(_.compile, _.betweenLazy(1, 2), _.digit, _.toRegexEither),
+          Ei.left({ _tag: 'NothingToRepeat', quantifier: '{1,2}?', index: 0 })
+        )
+        assert.deepStrictEqual(
+          pipe(_.compile, _.digit, _.orExpression, _.zeroOrMore, _.toRegexEither),
+          Ei.left({ _tag: 'NothingToRepeat', quantifier: '*', index: 2 })
+        )
+      })
+
+      it('should return an error when the bounds of a quantifier are invalid', () => {
+        const digit = pipe(_.compile, _.digit)
+        assert.deepStrictEqual(
+          pipe(digit, _.between(5, 2), _.toRegexEither),
+          Ei.left({ _tag: 'InvalidQuantifier', min: 5, max: 2, index: 1 })
+        )
+        assert.deepStrictEqual(
+          pipe(digit, _.exactly(-1), _.toRegexEither),
+          Ei.left({ _tag: 'InvalidQuantifier', min: -1, max: -1, index: 1 })
+        )
+        assert.deepStrictEqual(
+          pipe(digit, _.atLeast(1.5), _.toRegexEither),
+          Ei.left({ _tag: 'InvalidQuantifier', min: 1.5, max: Infinity, index: 1 })
+        )
+        assert.deepStrictEqual(
+          pipe(digit, _.between(1, 2.5), _.toRegexEither),
+          Ei.left({ _tag: 'InvalidQuantifier', min: 1, max: 2.5, index: 1 })
+        )
+        assert.deepStrictEqual(pipe(digit, _.between(2, 2), _.toRegexString), '/\\d{2}/')
+      })
+
+      it('should return an error when the bounds of a range are invalid', () => {
+        assert.deepStrictEqual(
+          pipe(_.compile, _.range('z', 'a'), _.toRegexEither),
+          Ei.left({ _tag: 'InvalidRange', from: 'z', to: 'a', index: 0 })
+        )
+        assert.deepStrictEqual(
+          pipe(_.compile, _.range('ab', 'z'), _.toRegexEither),
+          Ei.left({ _tag: 'InvalidRange', from: 'ab', to: 'z', index: 0 })
+        )
+        assert.deepStrictEqual(
+          pipe(_.compile, _.range('a', ''), _.toRegexEither),
+          Ei.left({ _tag: 'InvalidRange', from: 'a', to: '', index: 0 })
+        )
+        assert.deepStrictEqual(
+          pipe(_.compile, _.range('\u{1F600}', '\u{1F64F}'), _.unicode, _.toAst),
+          AST.characterClass(false, [AST.classRange('\u{1F600}', '\u{1F64F}')])
+        )
+      })
+
+      it('should return an error when a sub-expression is invalid', () => {
+        assert.deepStrictEqual(
+          pipe(_.compile, _.capture(pipe(_.compile, _.range('z', 'a'))), _.toRegexEither),
+          Ei.left({ _tag: 'InvalidRange', from: 'z', to: 'a', index: 0 })
+        )
+        assert.deepStrictEqual(
+          pipe(_.compile, _.sequence([pipe(_.compile, _.digit), pipe(_.compile, _.endCapture)]), _.toRegexEither),
+          Ei.left({ _tag: 'UnmatchedEndCapture', index: 0 })
+        )
+      })
+
+      it('should locate the error at the token which produced it', () => {
+        const a = pipe(_.compile, _.string('a'))
+        assert.deepStrictEqual(
+          pipe(_.compile, _.beginCapture, _.beginCapture, _.digit, _.endCapture, _.toRegexEither),
+          Ei.left({ _tag: 'UnterminatedGroup', index: 0 })
+        )
+        assert.deepStrictEqual(
+          pipe(
+            _.compile,
+            _.namedCapture('a', a),
+            _.digit,
+            _.capture(pipe(_.compile, _.namedCapture('a', a))),
+            _.toRegexEither
+          ),
+          Ei.left({ _tag: 'DuplicateGroupName', name: 'a', index: 2 })
+        )
+        assert.deepStrictEqual(
+          pipe(_.compile, _.digit, _.range('a', 'z'), _.range('z', 'a'), _.range('a', ''), _.toRegexEither),
+          Ei.left({ _tag: 'InvalidRange', from: 'z', to: 'a', index: 2 })
+        )
+      })
+
+      it('should return an error when the pattern is rejected by the RegExp constructor', () => {
+        // The message of the engine differs between versions of Node.js
+        const message = pipe(
+          Ei.tryCatch(() => regExp('[\\p{Unknown}]', 'u'), Ei.toError),
+          Ei.fold(
+            (error) => error.message,
+            () => ''
+          )
+        )
+        assert.deepStrictEqual(
+          pipe(_.compile, _.charClass(CC.property('Unknown')), _.unicode, _.toRegexEither),
+          Ei.left({
+            _tag: 'InvalidPattern',
+            pattern: '[\\p{Unknown}]',
+            message
+          })
+        )
+      })
+    })
+
+    describe('validate', () => {
+      it('should return the expression if it is valid', () => {
+        const digit = pipe(_.compile, _.digit)
+        assert.deepStrictEqual(_.validate(digit), Ei.right(digit))
+        assert.deepStrictEqual(
+          pipe(digit, _.endCapture, _.validate),
+          Ei.left({ _tag: 'UnmatchedEndCapture', index: 1 })
+        )
+      })
+    })
+
+    describe('toAst', () => {
+      it('should return the syntax tree of the expression', () => {
+        assert.deepStrictEqual(
+          pipe(_.compile, _.startOfInput, _.beginCapture, _.word, _.endCapture, _.oneOrMore, _.toAst),
+          AST.sequence([
+            AST.anchor('start'),
+            {
+              _tag: 'Quantifier',
+              node: AST.capture({ ...quantifier(AST.characterType('word'), 1), combinator: O.some('word') }),
+              min: 1,
+              max: Infinity,
+              lazy: false,
+              combinator: O.some('oneOrMore')
+            }
+          ])
+        )
+      })
+
+      it('should record the combinator which constructs each quantifier', () => {
+        assert.deepStrictEqual(
+          pipe(_.compile, _.string('a'), _.maybe(pipe(_.compile, _.digit, _.exactly(2))), _.toAst),
+          AST.sequence([
+            AST.group(AST.literal('a')),
+            {
+              ...quantifier(
+                AST.group({ ...quantifier(AST.characterType('digit'), 2, 2), combinator: O.some('exactly') }),
+                0,
+                1
+              ),
+              combinator: O.some('maybe')
+            }
+          ])
+        )
+        assert.deepStrictEqual(
+          pipe(
+            _.fromRegex(/a+/),
+            Ei.map((builder) => pipe(builder, _.toAst))
+          ),
+          Ei.right(quantifier(AST.literal('a'), 1))
+        )
+      })
+
+      it('should return an empty syntax tree for an empty expression', () => {
+        assert.deepStrictEqual(pipe(_.compile, _.toAst), AST.empty)
+      })
+
+      it('should throw when a quantifier has nothing to repeat', () => {
+        assert.throws(() => pipe(_.compile, _.oneOrMore, _.toAst), {
+          name: 'SyntaxError',
+          message: "Invalid regular expression: Nothing to repeat '+' at token 0"
+        })
+      })
+
+      it('should resolve alternatives', () => {
+        assert.deepStrictEqual(
+          pipe(_.compile, _.digit, _.orExpression, _.tab, _.whitespace, _.toAst),
+          AST.alternation([
+            AST.characterType('digit'),
+            AST.sequence([AST.literal('\t'), AST.characterType('whitespace')])
+          ])
+        )
+        assert.strictEqual(
+          pipe(_.compile, _.string('foo'), _.or('bar'), _.or('baz'), _.toRegexString),
+          '/(?:(?:foo))|(?:(?:(?:bar))|(?:(?:baz)))/'
+        )
+      })
     })
   })
 
@@ -252,4 +1243,57 @@ describe('Expression', () => {
       assert.strictEqual(pipe(expression, _.toRegex).test('http://goog le.com'), false)
     })
   })
+
+  describe('instances', () => {
+    describe('showExpressionError', () => {
+      it('should describe the error', () => {
+        const { show } = _.showExpressionError
+        assert.strictEqual(show({ _tag: 'UnterminatedGroup' }), 'Invalid regular expression: Unterminated group')
+        assert.strictEqual(show({ _tag: 'UnmatchedEndCapture' }), "Invalid regular expression: Unmatched ')'")
+        assert.strictEqual(
+          show({ _tag: 'NothingToRepeat', quantifier: '+' }),
+          "Invalid regular expression: Nothing to repeat '+'"
+        )
+        assert.strictEqual(
+          show({ _tag: 'InvalidQuantifier', min: 5, max: 2 }),
+          "Invalid regular expression: Invalid quantifier '{5,2}'"
+        )
+        assert.strictEqual(
+          show({ _tag: 'InvalidRange', from: 'z', to: 'a' }),
+          "Invalid regular expression: Invalid range 'z-a'"
+        )
+        assert.strictEqual(
+          show({ _tag: 'DuplicateGroupName', name: 'a' }),
+          "Invalid regular expression: Duplicate capture group name 'a'"
+        )
+        assert.strictEqual(
+          show({ _tag: 'InvalidGroupName', name: 'a>' }),
+          "Invalid regular expression: Invalid capture group name 'a>'"
+        )
+        assert.strictEqual(
+          show({ _tag: 'InvalidBackreference', reference: 'a' }),
+          "Invalid regular expression: Invalid backreference '\\k<a>'"
+        )
+        assert.strictEqual(
+          show({ _tag: 'MissingFlag', flag: 'unicode' }),
+          "Invalid regular expression: Missing flag 'u'"
+        )
+        assert.strictEqual(
+          show({ _tag: 'MissingFlag', flag: 'unicodeSets' }),
+          "Invalid regular expression: Missing flag 'v'"
+        )
+        assert.strictEqual(
+          show({ _tag: 'InvalidPattern', pattern: '+', message: 'Nothing to repeat' }),
+          'Nothing to repeat'
+        )
+      })
+
+      it('should describe the token at which the error is located', () => {
+        assert.strictEqual(
+          _.showExpressionError.show({ _tag: 'UnmatchedEndCapture', index: 2 }),
+          "Invalid regular expression: Unmatched ')' at token 2"
+        )
+      })
+    })
+  })
 })
@@ -0,0 +1,88 @@
+import * as assert from 'assert'
+import * as Ei from 'fp-ts/lib/Either'
+import { pipe } from 'fp-ts/lib/function'
+
+import * as E from '../src/Expression'
+import * as _ from '../src/Lexer'
+
+const identifier = pipe(E.compile, E.word)
+const whitespace = pipe(E.compile, E.whitespace, E.oneOrMore)
+
+describe('Lexer', () => {
+  describe('lexer', () => {
+    it('should scan an input into tokens', () => {
+      const lex = _.lexer([
+        _.rule('number', pipe(E.compile, E.digit, E.oneOrMore)),
+        _.rule('identifier', identifier),
+        _.rule('equals', pipe(E.compile, E.string('=')))
+      ])
+      assert.deepStrictEqual(
+        lex('x=42'),
+        Ei.right([
+          { name: 'identifier', value: 'x', offset: 0, line: 1, column: 1 },
+          { name: 'equals', value: '=', offset: 1, line: 1, column: 2 },
+          { name: 'number', value: '42', offset: 2, line: 1, column: 3 }
+        ])
+      )
+      assert.deepStrictEqual(lex(''), Ei.right([]))
+    })
+
+    it('should discard the matches of skip rules', () => {
+      const lex = _.lexer([_.rule('identifier', identifier), _.skip('whitespace', whitespace)])
+      assert.deepStrictEqual(
+        lex(' a  b '),
+        Ei.right([
+          { name: 'identifier', value: 'a', offset: 1, line: 1, column: 2 },
+          { name: 'identifier', value: 'b', offset: 4, line: 1, column: 5 }
+        ])
+      )
+    })
+
+    it('should track lines and columns', () => {
+      const lex = _.lexer([_.rule('identifier', identifier), _.skip('whitespace', whitespace)])
+      assert.deepStrictEqual(
+        lex('a\n  bc\n\nd e'),
+        Ei.right([
+          { name: 'identifier', value: 'a', offset: 0, line: 1, column: 1 },
+          { name: 'identifier', value: 'bc', offset: 4, line: 2, column: 3 },
+          { name: 'identifier', value: 'd', offset: 8, line: 4, column: 1 },
+          { name: 'identifier', value: 'e', offset: 10, line: 4, column: 3 }
+        ])
+      )
+    })
+
+    it('should take the longest match, or the earliest rule', () => {
+      const lex = _.lexer([
+        _.rule('keyword', pipe(E.compile, E.string('if'))),
+        _.rule('identifier', identifier),
+        _.rule('other', identifier)
+      ])
+      assert.deepStrictEqual(lex('if'), Ei.right([{ name: 'keyword', value: 'if', offset: 0, line: 1, column: 1 }]))
+      assert.deepStrictEqual(
+        lex('iffy'),
+        Ei.right([{ name: 'identifier', value: 'iffy', offset: 0, line: 1, column: 1 }])
+      )
+    })
+
+    it('should respect the flags of each rule', () => {
+      const lex = _.lexer([_.rule('keyword', pipe(E.compile, E.string('select'), E.caseInsensitive, E.allowMultiple))])
+      assert.deepStrictEqual(
+        lex('SELECTselect'),
+        Ei.right([
+          { name: 'keyword', value: 'SELECT', offset: 0, line: 1, column: 1 },
+          { name: 'keyword', value: 'select', offset: 6, line: 1, column: 7 }
+        ])
+      )
+    })
+
+    it('should report the position of unrecognized input', () => {
+      const lex = _.lexer([
+        _.rule('identifier', identifier),
+        _.rule('empty', pipe(E.compile, E.digit, E.zeroOrMore)),
+        _.skip('whitespace', whitespace)
+      ])
+      assert.deepStrictEqual(lex('a\nb ?'), Ei.left({ offset: 4, line: 2, column: 3 }))
+      assert.deepStrictEqual(lex('?'), Ei.left({ offset: 0, line: 1, column: 1 }))
+    })
+  })
+})
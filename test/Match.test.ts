@@ -0,0 +1,300 @@
+import * as assert from 'assert'
+import * as O from 'fp-ts/lib/Option'
+import { pipe } from 'fp-ts/lib/function'
+
+import * as E from '../src/Expression'
+import * as _ from '../src/Match'
+import { itWithFlag } from './util'
+
+const digits = (n: number) => pipe(E.compile, E.digit, E.exactly(n))
+
+const date = pipe(
+  E.compile,
+  E.namedCapture('year', digits(4)),
+  E.string('-'),
+  E.namedCapture('month', digits(2)),
+  E.maybe(pipe(E.compile, E.string('-'), E.namedCapture('day', digits(2))))
+)
+
+const word = pipe(E.compile, E.word)
+
+describe('Match', () => {
+  describe('test', () => {
+    it('should test whether the expression matches the input', () => {
+      assert.strictEqual(pipe('2021-02', _.test(date)), true)
+      assert.strictEqual(pipe('2021', _.test(date)), false)
+    })
+
+    it('should not depend on the result of a previous test', () => {
+      const isWord = _.test(pipe(word, E.allowMultiple))
+      assert.strictEqual(isWord('foo'), true)
+      assert.strictEqual(isWord('foo'), true)
+    })
+  })
+
+  describe('exec', () => {
+    it('should return the first match', () => {
+      assert.deepStrictEqual(
+        pipe('on 2021-02-18 and 2021-03-01', _.exec(date)),
+        O.some({
+          value: '2021-02-18',
+          index: 3,
+          captures: ['2021', '02', '18'],
+          groups: { year: '2021', month: '02', day: '18' }
+        })
+      )
+    })
+
+    it('should return none when there is no match', () => {
+      assert.deepStrictEqual(pipe('2021', _.exec(date)), O.none)
+    })
+
+    it('should return the text matched by unnamed capturing groups', () => {
+      const expression = pipe(
+        E.compile,
+        E.beginCapture,
+        E.word,
+        E.endCapture,
+        E.maybe(pipe(E.compile, E.capture(digits(1))))
+      )
+      assert.deepStrictEqual(
+        pipe('foo', _.exec(expression)),
+        O.some({ value: 'foo', index: 0, captures: ['foo', undefined], groups: {} })
+      )
+    })
+
+    it('should not depend on the result of a previous match', () => {
+      const matchDate = _.exec(pipe(date, E.allowMultiple, E.sticky))
+      assert.deepStrictEqual(pipe('2021-02', matchDate, O.isSome), true)
+      assert.deepStrictEqual(pipe('2021-02', matchDate, O.isSome), true)
+    })
+
+    it('should only match at the start of the input when the sticky flag is set', () => {
+      assert.deepStrictEqual(pipe(' foo', _.exec(pipe(word, E.sticky))), O.none)
+    })
+
+    it('should type the groups of the match', () => {
+      const groups: O.Option<{ readonly year: string; readonly month: string; readonly day?: string }> = pipe(
+        '2021-02',
+        _.exec(date),
+        O.map((match) => match.groups)
+      )
+      assert.deepStrictEqual(groups, O.some({ year: '2021', month: '02', day: undefined }))
+
+      const a = pipe(E.compile, E.namedCapture('a', pipe(E.compile, E.string('a'))))
+      const b = pipe(E.compile, E.namedCapture('b', pipe(E.compile, E.string('b'))))
+      const c = pipe(E.compile, E.namedCapture('c', pipe(E.compile, E.string('c'))))
+      const expression = pipe(
+        E.compile,
+        E.sequence([a, E.compile]),
+        E.oneOf([b, c]),
+        E.capture(pipe(E.compile, E.namedCapture('d', digits(1)))),
+        E.group(pipe(E.compile, E.namedCapture('e', digits(1)))),
+        E.word,
+        E.caseInsensitive
+      )
+      const result: O.Option<{
+        readonly a: string
+        readonly b?: string
+        readonly c?: string
+        readonly d: string
+        readonly e: string
+      }> = pipe(
+        'AB12x',
+        _.exec(expression),
+        O.map((match) => match.groups)
+      )
+      assert.deepStrictEqual(result, O.some({ a: 'A', b: 'B', c: undefined, d: '1', e: '2' }))
+      const match = pipe('AB12x', _.exec(expression))
+      if (O.isSome(match)) {
+        // @ts-expect-error the group `f` is not declared by the expression
+        assert.strictEqual(match.value.groups.f, undefined)
+      }
+    })
+
+    it('should type the groups declared within a repetition', () => {
+      const pair = pipe(E.compile, E.namedCapture('key', pipe(E.compile, E.word)), E.string('='))
+      const pairs = pipe(
+        E.compile,
+        E.many1(pipe(E.compile, E.namedCapture('last', pipe(E.compile, E.digit)))),
+        E.repeat(pair, { min: 0, max: 1 }),
+        E.many(pipe(E.compile, E.namedCapture('rest', pipe(E.compile, E.string('!')))))
+      )
+      const groups: O.Option<{ readonly last: string; readonly key?: string; readonly rest?: string }> = pipe(
+        '12a=',
+        _.exec(pairs),
+        O.map((match) => match.groups)
+      )
+      assert.deepStrictEqual(groups, O.some({ last: '2', key: 'a', rest: undefined }))
+    })
+
+    it('should type the groups which may not participate in a match as optional', () => {
+      const digit = pipe(E.compile, E.namedCapture('digit', pipe(E.compile, E.digit)))
+      const letter = pipe(E.compile, E.namedCapture('letter', pipe(E.compile, E.anyOf('ab'))))
+      const quantified = [
+        pipe(digit, E.zeroOrMore),
+        pipe(digit, E.zeroOrMoreLazy),
+        pipe(digit, E.atLeast(0)),
+        pipe(digit, E.between(0, 1)),
+        pipe(digit, E.betweenLazy(0, 1)),
+        pipe(digit, E.exactly(0))
+      ].map((expression) => pipe('x', _.exec(expression)))
+      quantified.forEach((match) => {
+        const groups: O.Option<{ readonly digit?: string }> = pipe(
+          match,
+          O.map((m) => m.groups)
+        )
+        assert.deepStrictEqual(groups, O.some({ digit: undefined }))
+      })
+      const alternation = pipe(digit, E.orExpression, E.sequence([letter]))
+      const groups: O.Option<{ readonly digit?: string; readonly letter?: string }> = pipe(
+        '1',
+        _.exec(alternation),
+        O.map((match) => match.groups)
+      )
+      assert.deepStrictEqual(groups, O.some({ digit: '1', letter: undefined }))
+      const after = pipe('a', _.exec(pipe(E.compile, E.string('a'), E.or('b'), E.sequence([letter]))))
+      if (O.isSome(after)) {
+        // @ts-expect-error the group `letter` may not participate in the match
+        const required: { readonly letter: string } = after.value.groups
+        assert.deepStrictEqual(required, { letter: undefined })
+      }
+      const grouped = pipe(E.compile, E.group(alternation), E.namedCapture('x', pipe(E.compile, E.string('x'))))
+      const enclosing: O.Option<{ readonly digit?: string; readonly letter?: string; readonly x: string }> = pipe(
+        'ax',
+        _.exec(grouped),
+        O.map((match) => match.groups)
+      )
+      assert.deepStrictEqual(enclosing, O.some({ digit: undefined, letter: 'a', x: 'x' }))
+      const match = pipe('a', _.exec(pipe(digit, E.or('a'))))
+      if (O.isSome(match)) {
+        // @ts-expect-error the group `digit` may not participate in the match
+        const required: { readonly digit: string } = match.value.groups
+        assert.deepStrictEqual(required, { digit: undefined })
+      }
+    })
+
+    it('should type the groups declared within a lookaround', () => {
+      const unit = pipe(
+        E.compile,
+        E.digit,
+        E.lookahead(pipe(E.compile, E.namedCapture('unit', pipe(E.compile, E.range('a', 'z'), E.oneOrMore)))),
+        E.negativeLookbehind(pipe(E.compile, E.namedCapture('sign', pipe(E.compile, E.string('-')))))
+      )
+      const groups: O.Option<{ readonly unit: string; readonly sign?: string }> = pipe(
+        '1px',
+        _.exec(unit),
+        O.map((match) => match.groups)
+      )
+      assert.deepStrictEqual(groups, O.some({ unit: 'px', sign: undefined }))
+    })
+  })
+
+  describe('execAt', () => {
+    it('should only match at the index', () => {
+      const execAt = _.execAt(date)
+      assert.deepStrictEqual(
+        execAt('on 2021-02-14', 3),
+        O.some({
+          value: '2021-02-14',
+          index: 3,
+          captures: ['2021', '02', '14'],
+          groups: { year: '2021', month: '02', day: '14' }
+        })
+      )
+      assert.deepStrictEqual(execAt('on 2021-02-14', 0), O.none)
+      assert.deepStrictEqual(execAt('on 2021-02-14', 4), O.none)
+    })
+
+    it('should consider the input before the index', () => {
+      const execAt = _.execAt(pipe(E.compile, E.lookbehind(pipe(E.compile, E.string('$'))), E.digit, E.oneOrMore))
+      assert.deepStrictEqual(
+        pipe(
+          execAt('$42', 1),
+          O.map((match) => match.value)
+        ),
+        O.some('42')
+      )
+      assert.deepStrictEqual(execAt('42', 0), O.none)
+    })
+  })
+
+  describe('matchAll', () => {
+    it('should return every match', () => {
+      assert.deepStrictEqual(pipe('foo bar', _.matchAll(word)), [
+        { value: 'foo', index: 0, captures: [], groups: {} },
+        { value: 'bar', index: 4, captures: [], groups: {} }
+      ])
+      assert.deepStrictEqual(pipe('foo bar', _.matchAll(pipe(word, E.allowMultiple))).length, 2)
+      assert.deepStrictEqual(pipe('!', _.matchAll(word)), [])
+    })
+
+    it('should advance past empty matches', () => {
+      const empty = pipe(E.compile, E.string('a'), E.zeroOrMore)
+      assert.deepStrictEqual(
+        pipe('ba', _.matchAll(empty)).map((match) => [match.value, match.index]),
+        [
+          ['', 0],
+          ['a', 1],
+          ['', 2]
+        ]
+      )
+      assert.deepStrictEqual(
+        pipe('\u{1F600}', _.matchAll(pipe(empty, E.unicode))).map((match) => match.index),
+        [0, 2]
+      )
+    })
+
+    itWithFlag('v')('should advance past empty matches by code point when the unicodeSets flag is set', () => {
+      const empty = pipe(E.compile, E.string('a'), E.zeroOrMore, E.unicodeSets)
+      assert.deepStrictEqual(
+        pipe('\u{1F600}', _.matchAll(empty)).map((match) => match.index),
+        [0, 2]
+      )
+    })
+
+    it('should only return consecutive matches from the start of the input when the sticky flag is set', () => {
+      const letter = pipe(E.compile, E.range('a', 'z'), E.sticky)
+      assert.deepStrictEqual(
+        pipe('ab c', _.matchAll(letter)).map((match) => match.value),
+        ['a', 'b']
+      )
+    })
+  })
+
+  describe('replace', () => {
+    it('should replace the first match with a string', () => {
+      assert.strictEqual(pipe('foo bar', _.replace(word, '[$&]')), '[foo] bar')
+    })
+
+    it('should replace every match with a string when the allowMultiple flag is set', () => {
+      const replaceWords = _.replace(pipe(word, E.allowMultiple), '[$&]')
+      assert.strictEqual(pipe('foo bar', replaceWords), '[foo] [bar]')
+      assert.strictEqual(pipe('foo bar', replaceWords), '[foo] [bar]')
+    })
+
+    it('should replace the first match with a function of the match', () => {
+      const replaceDate = _.replace(date, ({ groups }) => `${groups.month}/${groups.year}`)
+      assert.strictEqual(pipe('from 2021-02 to 2021-03', replaceDate), 'from 02/2021 to 2021-03')
+      assert.strictEqual(pipe('never', replaceDate), 'never')
+    })
+
+    it('should replace every match with a function of the match when the allowMultiple flag is set', () => {
+      const replaceDates = _.replace(pipe(date, E.allowMultiple), ({ groups }) => `${groups.month}/${groups.year}`)
+      assert.strictEqual(pipe('from 2021-02 to 2021-03!', replaceDates), 'from 02/2021 to 03/2021!')
+    })
+  })
+
+  describe('split', () => {
+    it('should split the input at every match', () => {
+      const comma = pipe(E.compile, E.string(','), E.sticky)
+      assert.deepStrictEqual(pipe('a,b,c', _.split(comma)), ['a', 'b', 'c'])
+      assert.deepStrictEqual(pipe('a,b,c', _.split(comma)), ['a', 'b', 'c'])
+    })
+
+    it('should include the text matched by capturing groups', () => {
+      const separator = pipe(E.compile, E.capture(pipe(E.compile, E.anyOf(',;'))))
+      assert.deepStrictEqual(pipe('a,b;c', _.split(separator)), ['a', ',', 'b', ';', 'c'])
+    })
+  })
+})
@@ -0,0 +1,112 @@
+import * as assert from 'assert'
+import * as Ei from 'fp-ts/lib/Either'
+import { pipe } from 'fp-ts/lib/function'
+
+import * as CC from '../src/CharClass'
+import * as E from '../src/Expression'
+import * as M from '../src/Match'
+import * as _ from '../src/Optimize'
+import { itWithFlag, regExp } from './util'
+
+const parse = (regex: RegExp) =>
+  pipe(
+    E.fromRegex(regex),
+    Ei.getOrElse(() => E.compile)
+  )
+
+const optimized = (builder: E.ExpressionBuilder) => pipe(builder, _.optimize, E.toRegexString)
+
+const assertEquivalent = (builder: E.ExpressionBuilder, inputs: ReadonlyArray<string>) => {
+  const before = M.matchAll(builder)
+  const after = M.matchAll(_.optimize(builder))
+  inputs.forEach((input) => assert.deepStrictEqual(after(input), before(input), input))
+}
+
+describe('Optimize', () => {
+  describe('optimize', () => {
+    it('should remove unnecessary groups', () => {
+      assert.strictEqual(optimized(pipe(E.compile, E.string('foo'), E.maybe('bar'))), '/foo(?:bar)?/')
+      assert.strictEqual(optimized(parse(/(?:(?:a))(?:b|cd)e/)), '/a(?:b|cd)e/')
+      assert.strictEqual(optimized(parse(/(?:ab|cd)|ef/)), '/ab|cd|ef/')
+      assert.strictEqual(optimized(parse(/(?:ab)*(?:)*(?:a|b)+/)), '/(?:ab)*(?:)*[ab]+/')
+    })
+
+    it('should merge adjacent literals and nested sequences', () => {
+      assert.strictEqual(
+        optimized(pipe(E.compile, E.string('a'), E.string('b'), E.digit, E.string('c'), E.string('d'))),
+        '/ab\\dcd/'
+      )
+      assert.strictEqual(optimized(parse(/(a)\1(?:0)/)), '/(a)\\1(?:)0/')
+    })
+
+    it('should merge alternatives which match a single character', () => {
+      assert.strictEqual(optimized(parse(/a|b|\d|[x-z]|\s|[^q]|ab|c|./)), '/[ab\\dx-z\\s]|[^q]|ab|c|./')
+      assert.strictEqual(optimized(parse(/(?:a|b)|c/)), '/[abc]/')
+      assert.strictEqual(optimized(parse(/&|&|-|]/)), '/[&\\-\\]]/')
+    })
+
+    itWithFlag('v')('should not merge a set operation with other alternatives', () => {
+      assert.strictEqual(optimized(parse(regExp('[[a-z]--[aeiou]]|b|c', 'v'))), '/[[a-z]--[aeiou]]|b|c/v')
+    })
+
+    it('should factor common prefixes', () => {
+      assert.strictEqual(optimized(parse(/foo|foobar|fob|bar|baz/)), '/fo(?:o(?:|bar)|b)|ba[rz]/')
+      assert.strictEqual(optimized(parse(/ab|ac|b|ad/)), '/a[bc]|b|ad/')
+      assert.strictEqual(optimized(parse(/x(?:a\d|ab)/)), '/xa[\\db]/')
+      assert.strictEqual(optimized(parse(/\u{1F600}|\u{1F601}/u)), '/\u{1F600}|\u{1F601}/u')
+    })
+
+    it('should preserve captures, lookarounds and flags', () => {
+      const expression = pipe(
+        E.compile,
+        E.namedCapture('x', pipe(E.compile, E.string('a'), E.string('b'))),
+        E.lookahead(pipe(E.compile, E.string('c'))),
+        E.caseInsensitive,
+        E.allowMultiple
+      )
+      assert.strictEqual(optimized(expression), '/(?<x>ab)(?=c)/gi')
+    })
+
+    it('should simplify each term in place, so that a combinator applied afterwards acts on the same term', () => {
+      assert.strictEqual(
+        pipe(E.compile, E.string('x'), E.string('ab'), _.optimize, E.oneOrMore, E.toRegexString),
+        '/x(?:ab)+/'
+      )
+      assert.strictEqual(pipe(E.compile, E.string(''), _.optimize, E.oneOrMore, E.toRegexString), '/(?:)+/')
+      assert.strictEqual(
+        pipe(E.compile, E.string('a'), E.orExpression, E.string('b'), _.optimize, E.string('c'), E.toRegexString),
+        '/a|b(?:c)/'
+      )
+      assert.strictEqual(
+        pipe(E.compile, E.string('a'), E.or('b'), _.optimize, E.string('c'), E.toRegexString),
+        '/(?:a)|(?:b(?:c))/'
+      )
+      assert.strictEqual(
+        pipe(E.compile, E.charClass(CC.property('Letter')), E.maybe('a'), _.optimize, E.unicode, E.toRegexString),
+        '/[\\p{Letter}]a?/u'
+      )
+    })
+
+    it('should not read a digit which follows a flattened sequence as part of a group number', () => {
+      const expression = pipe(
+        E.compile,
+        E.capture(pipe(E.compile, E.string('x'))),
+        E.sequence([pipe(E.compile, E.string('a'), E.backreference(1))]),
+        E.string('2')
+      )
+      assert.strictEqual(optimized(expression), '/(x)a\\1(?:)2/')
+      assertEquivalent(expression, ['xax2', 'xa\n', 'xax12'])
+    })
+
+    it('should leave an invalid expression unchanged', () => {
+      const expression = pipe(E.compile, E.digit, E.between(5, 2))
+      assert.deepStrictEqual(pipe(expression, _.optimize, E.toRegexEither), E.toRegexEither(expression))
+    })
+
+    it('should preserve every match', () => {
+      assertEquivalent(parse(/(?:foo|foobar|fob)(\d)?|(b)|[cd]|ca/g), ['foobar fob7 foo bcd ca', 'fofoob'])
+      assertEquivalent(parse(/(?:ab|ac|a)+?(x|y|xy)$/m), ['abacaxy\nacx', 'aaay'])
+      assertEquivalent(parse(/(?<=ab|ac)(?:d|e)\1?/), ['abd ace'])
+    })
+  })
+})
@@ -0,0 +1,295 @@
+import * as assert from 'assert'
+import * as Ei from 'fp-ts/lib/Either'
+import * as O from 'fp-ts/lib/Option'
+
+import * as AST from '../src/Ast'
+import * as _ from '../src/Parser'
+
+const legacy = _.parse('legacy')
+const unicode = _.parse('unicode')
+const unicodeSets = _.parse('unicodeSets')
+
+const cls = (members: ReadonlyArray<AST.ClassMember>, negated = false) => AST.characterClass(negated, members)
+
+describe('Parser', () => {
+  describe('parse', () => {
+    it('should parse alternatives and sequences', () => {
+      assert.deepStrictEqual(legacy(''), Ei.right(AST.empty))
+      assert.deepStrictEqual(legacy('abc'), Ei.right(AST.literal('abc')))
+      assert.deepStrictEqual(legacy('a|'), Ei.right(AST.alternation([AST.literal('a'), AST.empty])))
+      assert.deepStrictEqual(
+        legacy('ab.c'),
+        Ei.right(AST.sequence([AST.literal('ab'), AST.characterType('any'), AST.literal('c')]))
+      )
+      assert.deepStrictEqual(unicode('\u{1F600}'), Ei.right(AST.literal('\u{1F600}')))
+    })
+
+    it('should parse anchors', () => {
+      assert.deepStrictEqual(
+        legacy('^\\b\\B$'),
+        Ei.right(
+          AST.sequence([
+            AST.anchor('start'),
+            AST.anchor('wordBoundary'),
+            AST.anchor('nonWordBoundary'),
+            AST.anchor('end')
+          ])
+        )
+      )
+      assert.deepStrictEqual(legacy('^*'), Ei.left({ index: 1, message: 'Nothing to repeat' }))
+    })
+
+    it('should parse quantifiers', () => {
+      const a = AST.literal('a')
+      assert.deepStrictEqual(
+        legacy('a*a+?a?a{2}a{2,}?a{2,3}'),
+        Ei.right(
+          AST.sequence([
+            AST.quantifier(a, 0, Infinity, false),
+            AST.quantifier(a, 1, Infinity, true),
+            AST.quantifier(a, 0, 1, false),
+            AST.quantifier(a, 2, 2, false),
+            AST.quantifier(a, 2, Infinity, true),
+            AST.quantifier(a, 2, 3, false)
+          ])
+        )
+      )
+      assert.deepStrictEqual(legacy('a{3,2}'), Ei.left({ index: 1, message: 'numbers out of order in {} quantifier' }))
+      assert.deepStrictEqual(legacy('*'), Ei.left({ index: 0, message: 'Nothing to repeat' }))
+      assert.deepStrictEqual(legacy('a|+'), Ei.left({ index: 2, message: 'Nothing to repeat' }))
+      assert.deepStrictEqual(legacy('{1}'), Ei.left({ index: 0, message: 'Nothing to repeat' }))
+    })
+
+    it('should parse lone braces with the legacy syntax only', () => {
+      assert.deepStrictEqual(legacy('{a}]'), Ei.right(AST.literal('{a}]')))
+      assert.deepStrictEqual(unicode('{a'), Ei.left({ index: 0, message: 'Lone quantifier brackets' }))
+      assert.deepStrictEqual(unicode('}'), Ei.left({ index: 0, message: 'Lone quantifier brackets' }))
+    })
+
+    it('should parse groups', () => {
+      assert.deepStrictEqual(
+        legacy('(?:a)(b)(?<c>d)'),
+        Ei.right(
+          AST.sequence([
+            AST.group(AST.literal('a')),
+            AST.capture(AST.literal('b')),
+            AST.namedCapture('c', AST.literal('d'))
+          ])
+        )
+      )
+      assert.deepStrictEqual(
+        legacy('(a|b)+'),
+        Ei.right(AST.quantifier(AST.capture(AST.alternation([AST.literal('a'), AST.literal('b')])), 1, Infinity, false))
+      )
+      assert.deepStrictEqual(legacy('a(b'), Ei.left({ index: 1, message: 'Unterminated group' }))
+      assert.deepStrictEqual(legacy('a)'), Ei.left({ index: 1, message: "Unmatched ')'" }))
+      assert.deepStrictEqual(legacy('(?a)'), Ei.left({ index: 1, message: 'Invalid group' }))
+      assert.deepStrictEqual(legacy('(?<1>a)'), Ei.left({ index: 3, message: 'Invalid capture group name' }))
+      assert.deepStrictEqual(legacy('(?<a'), Ei.left({ index: 3, message: 'Invalid capture group name' }))
+    })
+
+    it('should parse lookarounds', () => {
+      const a = AST.literal('a')
+      assert.deepStrictEqual(
+        legacy('(?=a)(?!a)(?<=a)(?<!a)'),
+        Ei.right(
+          AST.sequence([
+            AST.lookaround('ahead', false, a),
+            AST.lookaround('ahead', true, a),
+            AST.lookaround('behind', false, a),
+            AST.lookaround('behind', true, a)
+          ])
+        )
+      )
+      assert.deepStrictEqual(legacy('(?=a)?'), Ei.right(AST.quantifier(AST.lookaround('ahead', false, a), 0, 1, false)))
+      assert.deepStrictEqual(unicode('(?=a)?'), Ei.left({ index: 5, message: 'Nothing to repeat' }))
+      assert.deepStrictEqual(legacy('(?<=a)?'), Ei.left({ index: 6, message: 'Nothing to repeat' }))
+      assert.deepStrictEqual(legacy('(?=a'), Ei.left({ index: 0, message: 'Unterminated group' }))
+    })
+
+    it('should parse character type escapes', () => {
+      assert.deepStrictEqual(
+        legacy('\\d\\W\\s'),
+        Ei.right(
+          AST.sequence([
+            AST.characterType('digit'),
+            cls([AST.classCharacterType('word', true)]),
+            AST.characterType('whitespace')
+          ])
+        )
+      )
+    })
+
+    it('should parse property escapes with either unicode syntax only', () => {
+      assert.deepStrictEqual(
+        unicode('\\p{Letter}\\P{Script=Greek}'),
+        Ei.right(
+          AST.sequence([
+            cls([AST.classProperty('Letter', O.none, false)]),
+            cls([AST.classProperty('Script', O.some('Greek'), true)])
+          ])
+        )
+      )
+      assert.deepStrictEqual(legacy('\\p{L}'), Ei.right(AST.literal('p{L}')))
+      assert.deepStrictEqual(unicode('\\p{}'), Ei.left({ index: 0, message: 'Invalid property name' }))
+    })
+
+    it('should parse backreferences', () => {
+      assert.deepStrictEqual(
+        legacy('(a)\\1'),
+        Ei.right(AST.sequence([AST.capture(AST.literal('a')), AST.backreference(1)]))
+      )
+      assert.deepStrictEqual(
+        legacy('(?<a>b)\\k<a>'),
+        Ei.right(AST.sequence([AST.namedCapture('a', AST.literal('b')), AST.backreference('a')]))
+      )
+      assert.deepStrictEqual(legacy('\\k<a>'), Ei.right(AST.literal('k<a>')))
+      assert.deepStrictEqual(unicode('\\k<a>'), Ei.right(AST.backreference('a')))
+      assert.deepStrictEqual(unicode('\\k'), Ei.left({ index: 0, message: 'Invalid named reference' }))
+      assert.deepStrictEqual(legacy('(?<a>b)\\k<1>'), Ei.left({ index: 7, message: 'Invalid named reference' }))
+    })
+
+    it('should parse character escapes', () => {
+      assert.deepStrictEqual(legacy('\\t\\n\\v\\f\\r'), Ei.right(AST.literal('\t\n\v\f\r')))
+      assert.deepStrictEqual(legacy('\\cJ\\x41\\u0042\\0'), Ei.right(AST.literal('\nAB\0')))
+      assert.deepStrictEqual(unicode('\\u{1F600}\\ud83d\\ude00'), Ei.right(AST.literal('\u{1F600}\u{1F600}')))
+      assert.deepStrictEqual(legacy('\\ud83d\\ude00'), Ei.right(AST.literal('😀')))
+      assert.deepStrictEqual(unicode('\\ud83d\\u0041'), Ei.right(AST.literal('\ud83dA')))
+      assert.deepStrictEqual(unicode('\\.\\/'), Ei.right(AST.literal('./')))
+      assert.deepStrictEqual(legacy('\\a'), Ei.right(AST.literal('a')))
+      assert.deepStrictEqual(unicode('\\a'), Ei.left({ index: 0, message: 'Invalid escape' }))
+      assert.deepStrictEqual(legacy('a\\'), Ei.left({ index: 1, message: '\\ at end of pattern' }))
+    })
+
+    it('should parse incomplete escapes as literals with the legacy syntax only', () => {
+      assert.deepStrictEqual(legacy('\\c1\\xg\\ug'), Ei.right(AST.literal('\\c1xgug')))
+      assert.deepStrictEqual(unicode('\\c1'), Ei.left({ index: 0, message: 'Invalid unicode escape' }))
+      assert.deepStrictEqual(unicode('\\xg'), Ei.left({ index: 0, message: 'Invalid escape' }))
+      assert.deepStrictEqual(unicode('\\ug'), Ei.left({ index: 0, message: 'Invalid Unicode escape' }))
+      assert.deepStrictEqual(unicode('\\u{110000}'), Ei.left({ index: 0, message: 'Invalid Unicode escape' }))
+    })
+
+    it('should parse octal escapes with the legacy syntax only', () => {
+      assert.deepStrictEqual(legacy('\\101\\8\\1'), Ei.right(AST.literal('A8\u0001')))
+      assert.deepStrictEqual(legacy('\\01'), Ei.right(AST.literal('\u0001')))
+      assert.deepStrictEqual(unicode('\\1'), Ei.left({ index: 0, message: 'Invalid escape' }))
+    })
+
+    it('should parse classes', () => {
+      assert.deepStrictEqual(
+        legacy('[^a-z_\\d\\b\\-]'),
+        Ei.right(
+          cls(
+            [
+              AST.classRange('a', 'z'),
+              AST.classCharacters('_'),
+              AST.classCharacterType('digit', false),
+              AST.classCharacters('\b-')
+            ],
+            true
+          )
+        )
+      )
+      assert.deepStrictEqual(legacy('[]'), Ei.right(cls([])))
+      assert.deepStrictEqual(legacy('[a-]'), Ei.right(cls([AST.classCharacters('a-')])))
+      assert.deepStrictEqual(legacy('[\\c_]'), Ei.right(cls([AST.classCharacters('\u001f')])))
+      assert.deepStrictEqual(
+        unicode('[\\p{L}\\u{1F600}]'),
+        Ei.right(cls([AST.classProperty('L', O.none, false), AST.classCharacters('\u{1F600}')]))
+      )
+      assert.deepStrictEqual(legacy('[z-a]'), Ei.left({ index: 1, message: 'Range out of order in character class' }))
+      assert.deepStrictEqual(legacy('[a'), Ei.left({ index: 0, message: 'Unterminated character class' }))
+      assert.deepStrictEqual(legacy('[\\'), Ei.left({ index: 1, message: '\\ at end of pattern' }))
+      assert.deepStrictEqual(legacy('[a-\\'), Ei.left({ index: 3, message: '\\ at end of pattern' }))
+      assert.deepStrictEqual(unicode('[\\1]'), Ei.left({ index: 1, message: 'Invalid class escape' }))
+    })
+
+    it('should parse a range which includes a character type escape with the legacy syntax only', () => {
+      assert.deepStrictEqual(
+        legacy('[\\d-z]'),
+        Ei.right(cls([AST.classCharacterType('digit', false), AST.classCharacters('-z')]))
+      )
+      assert.deepStrictEqual(unicode('[\\d-z]'), Ei.left({ index: 1, message: 'Invalid character class' }))
+    })
+
+    it('should parse class set expressions with the unicodeSets syntax', () => {
+      assert.deepStrictEqual(
+        unicodeSets('[a-c[^d]\\w]'),
+        Ei.right(
+          cls([
+            AST.classRange('a', 'c'),
+            AST.classNested(cls([AST.classCharacters('d')], true)),
+            AST.classCharacterType('word', false)
+          ])
+        )
+      )
+      assert.deepStrictEqual(
+        unicodeSets('[\\w&&[a-z]&&b]'),
+        Ei.right(
+          cls([
+            AST.classSetOperation(
+              'intersection',
+              cls([
+                AST.classSetOperation(
+                  'intersection',
+                  cls([AST.classCharacterType('word', false)]),
+                  cls([AST.classRange('a', 'z')])
+                )
+              ]),
+              cls([AST.classCharacters('b')])
+            )
+          ])
+        )
+      )
+      assert.deepStrictEqual(
+        unicodeSets('[[a-z]--[aeiou]]'),
+        Ei.right(
+          cls([
+            AST.classSetOperation('subtraction', cls([AST.classRange('a', 'z')]), cls([AST.classCharacters('aeiou')]))
+          ])
+        )
+      )
+      assert.deepStrictEqual(unicodeSets('[]'), Ei.right(cls([])))
+      assert.deepStrictEqual(unicodeSets('[\\-]'), Ei.right(cls([AST.classCharacters('-')])))
+    })
+
+    it('should report an invalid class set expression', () => {
+      assert.deepStrictEqual(
+        unicodeSets('[a&&b--c]'),
+        Ei.left({ index: 5, message: 'Invalid set operation in character class' })
+      )
+      assert.deepStrictEqual(
+        unicodeSets('[ab&&c]'),
+        Ei.left({ index: 3, message: 'Invalid set operation in character class' })
+      )
+      assert.deepStrictEqual(
+        unicodeSets('[a&&(]'),
+        Ei.left({ index: 4, message: 'Invalid set operation in character class' })
+      )
+      assert.deepStrictEqual(
+        unicodeSets('[a(]'),
+        Ei.left({ index: 2, message: 'Invalid set operation in character class' })
+      )
+      assert.deepStrictEqual(
+        unicodeSets('[a-(]'),
+        Ei.left({ index: 3, message: 'Invalid set operation in character class' })
+      )
+      assert.deepStrictEqual(
+        unicodeSets('[!!]'),
+        Ei.left({ index: 1, message: 'Invalid set operation in character class' })
+      )
+      assert.deepStrictEqual(unicodeSets('[\\q{a}]'), Ei.left({ index: 1, message: 'Invalid class set operand' }))
+      assert.deepStrictEqual(
+        unicodeSets('[z-a]'),
+        Ei.left({ index: 1, message: 'Range out of order in character class' })
+      )
+      assert.deepStrictEqual(
+        unicodeSets('[b z-a]'),
+        Ei.left({ index: 3, message: 'Range out of order in character class' })
+      )
+      assert.deepStrictEqual(unicodeSets('[\\w-a]'), Ei.left({ index: 1, message: 'Invalid character class' }))
+      assert.deepStrictEqual(unicodeSets('[[a]'), Ei.left({ index: 0, message: 'Unterminated character class' }))
+      assert.deepStrictEqual(unicodeSets('[a[b'), Ei.left({ index: 2, message: 'Unterminated character class' }))
+    })
+  })
+})
@@ -0,0 +1,83 @@
+import * as assert from 'assert'
+import * as Ei from 'fp-ts/lib/Either'
+import * as O from 'fp-ts/lib/Option'
+import { pipe } from 'fp-ts/lib/function'
+import * as P from 'parser-ts/lib/Parser'
+import * as PR from 'parser-ts/lib/ParseResult'
+import * as S from 'parser-ts/lib/string'
+import { stream } from 'parser-ts/lib/Stream'
+
+import * as E from '../src/Expression'
+import * as _ from '../src/ParserTs'
+
+const number = pipe(E.compile, E.digit, E.oneOrMore)
+
+const word = pipe(E.compile, E.word)
+
+describe('ParserTs', () => {
+  describe('matching', () => {
+    it('should parse the text matched at the cursor', () => {
+      const input = stream('ab12cd'.split(''), 2)
+      assert.deepStrictEqual(_.matching(number)(input), PR.success('12', stream(input.buffer, 4), input))
+    })
+
+    it('should fail without consuming input', () => {
+      const input = stream('ab12'.split(''))
+      assert.deepStrictEqual(_.matching(number)(input), PR.error(input, ['/\\d+/']))
+    })
+
+    it('should compose with other parsers', () => {
+      const list = pipe(
+        P.sepBy1(S.string(', '), _.matching(word)),
+        P.chainFirst(() => P.eof())
+      )
+      assert.deepStrictEqual(
+        pipe(
+          S.run('a, b1, c')(list),
+          Ei.map(({ value }) => value)
+        ),
+        Ei.right(['a', 'b1', 'c'])
+      )
+      assert.strictEqual(Ei.isLeft(S.run('a, b-')(list)), true)
+    })
+
+    it('should consider the input before the cursor', () => {
+      const unit = pipe(E.compile, E.lookbehind(number), E.range('a', 'z'), E.oneOrMore)
+      const dimension = pipe(
+        _.matching(number),
+        P.chain((n) =>
+          pipe(
+            P.optional(_.matching(unit)),
+            P.map((u) => [n, u] as const)
+          )
+        )
+      )
+      assert.deepStrictEqual(
+        pipe(
+          S.run('12px')(dimension),
+          Ei.map(({ value }) => value)
+        ),
+        Ei.right(['12', O.some('px')])
+      )
+      assert.strictEqual(Ei.isLeft(S.run('px')(_.matching(unit))), true)
+    })
+  })
+
+  describe('exec', () => {
+    it('should parse the capturing groups of the match', () => {
+      const pair = pipe(E.compile, E.namedCapture('key', word), E.string('='), E.capture(number))
+      const groups: Ei.Either<unknown, { readonly key: string }> = pipe(
+        S.run('a=1')(_.exec(pair)),
+        Ei.map(({ value }) => value.groups)
+      )
+      assert.deepStrictEqual(groups, Ei.right({ key: 'a' }))
+      assert.deepStrictEqual(
+        pipe(
+          S.run('a=1')(_.exec(pair)),
+          Ei.map(({ value }) => value.captures)
+        ),
+        Ei.right(['a', '1'])
+      )
+    })
+  })
+})
@@ -0,0 +1,308 @@
+import * as assert from 'assert'
+import * as O from 'fp-ts/lib/Option'
+import { pipe } from 'fp-ts/lib/function'
+
+import * as E from '../src/Expression'
+import * as M from '../src/Match'
+import * as _ from '../src/Patterns'
+
+const assertPattern = (pattern: E.ExpressionBuilder, valid: ReadonlyArray<string>, invalid: ReadonlyArray<string>) => {
+  const matches = M.test(pipe(E.compile, E.startOfInput, E.sequence([pattern]), E.endOfInput))
+  valid.forEach((input) => assert.strictEqual(matches(input), true, input))
+  invalid.forEach((input) => assert.strictEqual(matches(input), false, input))
+}
+
+describe('Patterns', () => {
+  describe('ipv4', () => {
+    it('should match a dotted-decimal address', () => {
+      assertPattern(
+        _.ipv4,
+        ['0.0.0.0', '127.0.0.1', '192.168.0.1', '10.20.30.40', '199.249.250.255', '255.255.255.255'],
+        ['256.0.0.1', '1.2.3', '1.2.3.4.5', '01.2.3.4', '1.2.3.300', '1..2.3', '1.2.3.4.', 'a.b.c.d', '']
+      )
+    })
+  })
+
+  describe('ipv6', () => {
+    it('should match an address in any of its forms', () => {
+      assertPattern(
+        _.ipv6,
+        [
+          '2001:0db8:85a3:0000:0000:8a2e:0370:7334',
+          '2001:db8:85a3:0:0:8A2E:370:7334',
+          '::',
+          '::1',
+          '1::',
+          '2001:db8::',
+          'fe80::1:2',
+          '1:2:3:4:5:6:7::',
+          '1::2:3:4:5:6:7',
+          '1:2::3:4:5:6',
+          '1:2:3::4:5',
+          '1:2:3:4::5',
+          '::ffff:192.168.0.1',
+          '64:ff9b::1.2.3.4',
+          '1:2:3:4:5:6:1.2.3.4'
+        ],
+        [
+          '1:2:3:4:5:6:7',
+          '1:2:3:4:5:6:7:8:9',
+          '1::2::3',
+          ':::',
+          '1:',
+          ':1',
+          '12345::',
+          'g::',
+          '::ffff:256.0.0.1',
+          '1:2:3:4:5:6:7:1.2.3.4',
+          ''
+        ]
+      )
+    })
+  })
+
+  describe('uuid', () => {
+    it('should match a canonical UUID', () => {
+      assertPattern(
+        _.uuid,
+        [
+          '123e4567-e89b-12d3-a456-426614174000',
+          '00000000-0000-0000-0000-000000000000',
+          'FFFFFFFF-FFFF-FFFF-FFFF-FFFFFFFFFFFF'
+        ],
+        [
+          '123e4567e89b12d3a456426614174000',
+          '123e4567-e89b-12d3-a456-42661417400',
+          '123e4567-e89b-12d3-a456-4266141740000',
+          '123e4567-e89b-12d3-a456_426614174000',
+          'g23e4567-e89b-12d3-a456-426614174000',
+          '{123e4567-e89b-12d3-a456-426614174000}'
+        ]
+      )
+    })
+  })
+
+  describe('isoDate', () => {
+    it('should match a calendar date', () => {
+      assertPattern(
+        _.isoDate,
+        ['2021-03-14', '0000-01-01', '9999-12-31', '2020-02-29', '1999-10-10'],
+        ['2021-3-14', '2021-00-10', '2021-13-01', '2021-01-00', '2021-01-32', '21-01-01', '20210314', '2021/03/14']
+      )
+    })
+  })
+
+  describe('isoTime', () => {
+    it('should match a time of day', () => {
+      assertPattern(
+        _.isoTime,
+        [
+          '00:00',
+          '23:59',
+          '13:45:30',
+          '23:59:60',
+          '13:45:30.250',
+          '13:45:30,5',
+          '13:45Z',
+          '13:45:30Z',
+          '13:45:30.123456+01:00',
+          '13:45-23:59'
+        ],
+        [
+          '24:00',
+          '12:60',
+          '12:30:61',
+          '1:30',
+          '12:3',
+          '12:30:',
+          '12:30:00.',
+          '12:30+1:00',
+          '12:30+24:00',
+          '12:30z',
+          '1230'
+        ]
+      )
+    })
+  })
+
+  describe('isoDateTime', () => {
+    it('should match a date and a time of day', () => {
+      assertPattern(
+        _.isoDateTime,
+        ['2021-03-14T13:45', '2021-03-14T13:45:30Z', '2021-03-14T13:45:30.250-05:00'],
+        ['2021-03-14 13:45', '2021-03-14T', '2021-03-14', 'T13:45', '2021-03-14t13:45']
+      )
+    })
+  })
+
+  describe('semver', () => {
+    it('should match a semantic version', () => {
+      assertPattern(
+        _.semver,
+        [
+          '0.0.0',
+          '1.2.3',
+          '10.20.30',
+          '1.0.0-alpha',
+          '1.0.0-alpha.1',
+          '1.0.0-0.3.7',
+          '1.0.0-x.7.z.92',
+          '1.0.0-x-y-z.--',
+          '1.0.0-0alpha',
+          '1.0.0+20130313144700',
+          '1.0.0-beta+exp.sha.5114f85',
+          '1.0.0+21AF26D3----117B344092BD'
+        ],
+        [
+          '1',
+          '1.2',
+          '1.2.3.4',
+          '01.2.3',
+          '1.02.3',
+          '1.2.03',
+          '1.2.3-',
+          '1.2.3-01',
+          '1.2.3-alpha..1',
+          '1.2.3+',
+          '1.2.3+build.',
+          '1.2.3-alpha_beta',
+          'v1.2.3'
+        ]
+      )
+    })
+  })
+
+  describe('email', () => {
+    it('should match an address', () => {
+      assertPattern(
+        _.email,
+        [
+          'jane@example.com',
+          'jane.doe+news@example.co.uk',
+          "o'brien@example.ie",
+          'x@a.io',
+          '1234@sub-domain.example.org',
+          "!#$%&'*+/=?^_`{|}~-@example.com"
+        ],
+        [
+          'jane@example',
+          'jane.@example.com',
+          '.jane@example.com',
+          'jane..doe@example.com',
+          '@example.com',
+          'jane@',
+          'jane@-example.com',
+          'jane@example-.com',
+          'jane@example.123',
+          'jane doe@example.com',
+          'jane@@example.com',
+          '"jane"@example.com',
+          `jane@${'a'.repeat(64)}.com`
+        ]
+      )
+    })
+  })
+
+  describe('url', () => {
+    it('should match an absolute URL', () => {
+      assertPattern(
+        _.url,
+        [
+          'http://example.com',
+          'https://example.com/',
+          'HTTPS://www.example.com:8080/a/b.html?x=1&y=2#top',
+          'ftp://files.example.org/pub',
+          'http://localhost:3000',
+          'http://127.0.0.1/index',
+          'http://[::1]:8080/',
+          'http://[2001:db8::1]',
+          'https://example.com?query',
+          'https://example.com#fragment',
+          'http://1.2.3.4.example.com'
+        ],
+        [
+          'example.com',
+          'mailto:jane@example.com',
+          'http//example.com',
+          'http://',
+          'http://example.com:65536',
+          'http://example.com/a b',
+          'http://-example.com',
+          'http://999.1.1.1',
+          'http://[::1',
+          'http://::1',
+          'file:///etc/hosts'
+        ]
+      )
+    })
+  })
+
+  describe('hexColor', () => {
+    it('should match a colour of 3, 4, 6 or 8 digits', () => {
+      assertPattern(
+        _.hexColor,
+        ['#fff', '#FFFA', '#1e90ff', '#1E90FF80'],
+        ['fff', '#ff', '#fffff', '#1e90ff8', '#1e90ff800', '#ggg', '#']
+      )
+    })
+  })
+
+  describe('cardNumber', () => {
+    it('should match grouped and ungrouped digits', () => {
+      assertPattern(
+        _.cardNumber,
+        [
+          '4111111111111111',
+          '4111 1111 1111 1111',
+          '4111-1111-1111-1111',
+          '3782 822463 10005',
+          '378282246310005',
+          '4222222222222',
+          '4111 1111 1111 1',
+          '6011 1111 1111 1111 117',
+          '6011111111111111117'
+        ],
+        [
+          '411111111111',
+          '41111111111111111111',
+          '4111 1111-1111 1111',
+          '4111  1111 1111 1111',
+          '411 1111 1111 11111',
+          '4111 1111 1111 1111 1111',
+          '4111 1111 1111 1111 ',
+          '4111 1111 1111 111a'
+        ]
+      )
+    })
+  })
+
+  describe('composition', () => {
+    it('should compose into larger expressions', () => {
+      const range = pipe(
+        E.compile,
+        E.startOfInput,
+        E.namedCapture('from', _.semver),
+        E.string(' - '),
+        E.namedCapture('to', _.semver),
+        E.endOfInput
+      )
+      assert.deepStrictEqual(
+        pipe(
+          M.exec(range)('1.0.0-rc.1 - 2.0.0'),
+          O.map(({ groups, captures }) => ({ groups: { ...groups }, captures }))
+        ),
+        O.some({ groups: { from: '1.0.0-rc.1', to: '2.0.0' }, captures: ['1.0.0-rc.1', '2.0.0'] })
+      )
+    })
+
+    it('should find occurrences within a text', () => {
+      const address = pipe(E.compile, E.oneOf([_.email, _.url]), E.allowMultiple)
+      assert.deepStrictEqual(
+        M.matchAll(address)('Write to jane@example.com or visit https://example.com/contact today').map(
+          ({ value }) => value
+        ),
+        ['jane@example.com', 'https://example.com/contact']
+      )
+    })
+  })
+})
@@ -0,0 +1,122 @@
+import * as assert from 'assert'
+import { pipe } from 'fp-ts/lib/function'
+import * as O from 'fp-ts/lib/Option'
+import * as A from 'fp-ts/lib/ReadonlyArray'
+
+import * as CC from '../src/CharClass'
+import * as E from '../src/Expression'
+import * as _ from '../src/Sample'
+import { itWithFlag } from './util'
+
+const seeds = A.range(1, 20)
+
+const samples = (f: (random: _.Random) => O.Option<string>) => seeds.map((seed) => f(_.seeded(seed)))
+
+const fullMatch = (builder: E.ExpressionBuilder) => (s: string) =>
+  pipe(E.compile, E.startOfInput, E.group(builder), E.endOfInput, E.toRegex).test(s)
+
+const assertMatching = (builder: E.ExpressionBuilder) =>
+  samples(_.matching(builder)).forEach((sample) => assert.strictEqual(pipe(sample, O.exists(fullMatch(builder))), true))
+
+describe('Sample', () => {
+  describe('seeded', () => {
+    it('should return integers within the bounds which are determined by the seed', () => {
+      const xs = A.range(1, 100).map(() => _.seeded(7)(3, 5))
+      assert.deepStrictEqual(xs, A.replicate(100, xs[0]))
+      const random = _.seeded(-7.5)
+      const ys = A.range(1, 100).map(() => random(3, 5))
+      assert.deepStrictEqual(
+        A.uniq({ equals: (x: number, y: number) => x === y })(ys)
+          .slice()
+          .sort(),
+        [3, 4, 5]
+      )
+      assert.strictEqual(_.seeded(0)(1, 1), 1)
+    })
+  })
+
+  describe('matching', () => {
+    it('should generate a string which matches the expression', () => {
+      assertMatching(pipe(E.compile, E.startOfInput, E.string('#'), E.range('a', 'f'), E.exactly(6), E.endOfInput))
+      assertMatching(pipe(E.compile, E.word, E.whitespace, E.digit, E.oneOrMore, E.anything, E.lineBreak))
+      assertMatching(pipe(E.compile, E.oneOf([pipe(E.compile, E.string('foo')), pipe(E.compile, E.string('bar'))])))
+      assertMatching(pipe(E.compile, E.anyOf('xyz'), E.anythingBut('xyz'), E.maybe('!'), E.tab))
+    })
+
+    it('should be determined by the source of random integers', () => {
+      const expression = pipe(E.compile, E.word)
+      assert.deepStrictEqual(samples(_.matching(expression)), samples(_.matching(expression)))
+    })
+
+    it('should honour the caseInsensitive flag', () => {
+      const expression = pipe(E.compile, E.string('abcdefgh'), E.range('a', 'c'), E.caseInsensitive)
+      assertMatching(expression)
+      assert.strictEqual(samples(_.matching(expression)).some(O.exists((s) => s !== s.toLowerCase())), true)
+    })
+
+    it('should honour the unicode flag', () => {
+      const emoji = pipe(E.compile, E.range('\u{1F600}', '\u{1F64F}'), E.exactly(2), E.unicode)
+      assertMatching(emoji)
+      assertMatching(pipe(E.compile, E.charClass(CC.property('Script', 'Greek')), E.unicode))
+      assertMatching(pipe(E.compile, E.charClass(CC.negate(CC.word)), E.anything, E.singleLine, E.unicode))
+    })
+
+    itWithFlag('v')('should honour the unicodeSets flag', () => {
+      assertMatching(
+        pipe(E.compile, E.charClass(pipe(CC.range('a', 'z'), CC.subtract(CC.chars('aeiou')))), E.unicodeSets)
+      )
+    })
+
+    it('should honour capturing groups and backreferences', () => {
+      const quote = pipe(E.compile, E.anyOf(`'"`))
+      assertMatching(pipe(E.compile, E.capture(quote), E.word, E.backreference(1)))
+      assertMatching(pipe(E.compile, E.namedCapture('q', quote), E.word, E.backreference('q')))
+    })
+
+    it('should honour anchors and lookarounds', () => {
+      const a = pipe(E.compile, E.string('a'))
+      assertMatching(pipe(E.compile, E.startOfInput, E.lookahead(a), E.anyOf('ab'), E.endOfInput))
+      assertMatching(
+        pipe(
+          E.compile,
+          E.negativeLookbehind(pipe(E.compile, E.capture(a))),
+          E.digit,
+          E.backreference(1),
+          E.oneOf([a, pipe(E.compile, E.capture(a))])
+        )
+      )
+    })
+
+    it('should return none when no string matches the expression', () => {
+      const nothing = pipe(E.compile, E.charClass(CC.empty))
+      assert.deepStrictEqual(_.matching(nothing)(_.seeded(1)), O.none)
+      assert.deepStrictEqual(_.matching(pipe(E.compile, E.oneOf([nothing, nothing])))(_.seeded(1)), O.none)
+      assert.deepStrictEqual(_.matching(pipe(nothing, E.oneOrMore))(_.seeded(1)), O.none)
+      assert.deepStrictEqual(_.matching(pipe(E.compile, E.string('a'), E.startOfInput))(_.seeded(1)), O.none)
+      assert.deepStrictEqual(_.matching(pipe(E.compile, E.maybe(nothing)))(_.seeded(1)), O.some(''))
+      assert.deepStrictEqual(
+        _.matching(pipe(E.compile, E.oneOf([nothing, pipe(E.compile, E.string('a'))])))(_.seeded(1)),
+        O.some('a')
+      )
+    })
+  })
+
+  describe('nearMiss', () => {
+    it('should generate a string which does not match the expression', () => {
+      const expression = pipe(E.compile, E.digit, E.exactly(3), E.string('-'), E.digit, E.exactly(4))
+      samples(_.nearMiss(expression)).forEach((sample) =>
+        assert.strictEqual(
+          pipe(
+            sample,
+            O.exists((s) => !fullMatch(expression)(s))
+          ),
+          true
+        )
+      )
+    })
+
+    it('should return none when every string matches the expression', () => {
+      assert.deepStrictEqual(_.nearMiss(pipe(E.compile, E.anything, E.singleLine, E.unicode))(_.seeded(1)), O.none)
+    })
+  })
+})
@@ -0,0 +1,171 @@
+import * as assert from 'assert'
+import * as O from 'fp-ts/lib/Option'
+import { pipe } from 'fp-ts/lib/function'
+
+import * as E from '../src/Expression'
+import * as _ from '../src/Trace'
+
+const digits = (n: number) => pipe(E.compile, E.digit, E.exactly(n))
+
+const date = pipe(E.compile, E.sequence([digits(4)]), E.string('-'), E.sequence([digits(2)]))
+
+const spans = (trace: _.Trace) => trace.steps.map(({ span }) => span)
+
+describe('Trace', () => {
+  describe('trace', () => {
+    it('should return the part of the input consumed by each step of a match', () => {
+      assert.deepStrictEqual(_.trace(date)('on 2021-03!'), {
+        input: 'on 2021-03!',
+        steps: [
+          { pattern: '\\d{4}', span: O.some({ start: 3, end: 7 }) },
+          { pattern: '-', span: O.some({ start: 7, end: 8 }) },
+          { pattern: '\\d{2}', span: O.some({ start: 8, end: 10 }) }
+        ],
+        partial: { start: 3, end: 10 },
+        failure: O.none
+      })
+    })
+
+    it('should return the longest partial match and where it failed', () => {
+      const trace = _.trace(date)
+      assert.deepStrictEqual(trace('1-2 2021-3'), {
+        input: '1-2 2021-3',
+        steps: [
+          { pattern: '\\d{4}', span: O.some({ start: 4, end: 8 }) },
+          { pattern: '-', span: O.some({ start: 8, end: 9 }) },
+          { pattern: '\\d{2}', span: O.none }
+        ],
+        partial: { start: 4, end: 9 },
+        failure: O.some({ step: 2, index: 9 })
+      })
+      assert.deepStrictEqual(trace('2021 2021'), {
+        input: '2021 2021',
+        steps: [
+          { pattern: '\\d{4}', span: O.some({ start: 0, end: 4 }) },
+          { pattern: '-', span: O.none },
+          { pattern: '\\d{2}', span: O.none }
+        ],
+        partial: { start: 0, end: 4 },
+        failure: O.some({ step: 1, index: 4 })
+      })
+      assert.deepStrictEqual(trace('none'), {
+        input: 'none',
+        steps: [
+          { pattern: '\\d{4}', span: O.none },
+          { pattern: '-', span: O.none },
+          { pattern: '\\d{2}', span: O.none }
+        ],
+        partial: { start: 0, end: 0 },
+        failure: O.some({ step: 0, index: 0 })
+      })
+    })
+
+    it('should match the steps which consume no input', () => {
+      const expression = pipe(
+        E.compile,
+        E.startOfInput,
+        E.lookahead(pipe(E.compile, E.string('a'))),
+        E.anything,
+        E.endOfInput
+      )
+      assert.deepStrictEqual(spans(_.trace(expression)('ab')), [
+        O.some({ start: 0, end: 0 }),
+        O.some({ start: 0, end: 0 }),
+        O.some({ start: 0, end: 2 }),
+        O.some({ start: 2, end: 2 })
+      ])
+      assert.deepStrictEqual(_.trace(expression)('ba').failure, O.some({ step: 1, index: 0 }))
+    })
+
+    it('should preserve the capturing groups which are referred to by backreferences', () => {
+      const expression = pipe(
+        E.compile,
+        E.sequence([pipe(E.compile, E.backreference(1), E.backreference('value'))]),
+        E.capture(pipe(E.compile, E.word)),
+        E.string('='),
+        E.namedCapture('value', pipe(E.compile, E.digit, E.oneOrMore)),
+        E.oneOf([pipe(E.compile, E.backreference(1)), pipe(E.compile, E.string('?'))]),
+        E.backreference('value')
+      )
+      const trace = _.trace(expression)
+      assert.deepStrictEqual(spans(trace('a=1 b=12b12')), [
+        O.some({ start: 4, end: 4 }),
+        O.some({ start: 4, end: 5 }),
+        O.some({ start: 5, end: 6 }),
+        O.some({ start: 6, end: 8 }),
+        O.some({ start: 8, end: 9 }),
+        O.some({ start: 9, end: 11 })
+      ])
+      assert.deepStrictEqual(trace('b=12b1').failure, O.some({ step: 5, index: 5 }))
+      assert.deepStrictEqual(trace('b=1').failure, O.some({ step: 4, index: 3 }))
+    })
+
+    it('should trace an expression which is not a sequence as a single step', () => {
+      assert.deepStrictEqual(_.trace(pipe(E.compile, E.string('a'), E.or('b')))('cb'), {
+        input: 'cb',
+        steps: [{ pattern: '(?:(?:a))|(?:(?:b))', span: O.some({ start: 1, end: 2 }) }],
+        partial: { start: 1, end: 2 },
+        failure: O.none
+      })
+      assert.deepStrictEqual(_.trace(E.compile)('a'), {
+        input: 'a',
+        steps: [],
+        partial: { start: 0, end: 0 },
+        failure: O.none
+      })
+    })
+
+    it('should take the flags into account', () => {
+      const expression = pipe(E.compile, E.string('a'), E.string('😀'), E.caseInsensitive, E.unicode, E.allowMultiple)
+      const trace = _.trace(expression)
+      // The result for one input does not depend on the result for another
+      assert.deepStrictEqual(spans(trace('A😀 a😀')), [O.some({ start: 0, end: 1 }), O.some({ start: 1, end: 3 })])
+      assert.deepStrictEqual(spans(trace('A😀 a😀')), [O.some({ start: 0, end: 1 }), O.some({ start: 1, end: 3 })])
+      assert.deepStrictEqual(spans(_.trace(pipe(expression, E.sticky))(' a😀')), [O.none, O.none])
+    })
+  })
+
+  describe('highlight', () => {
+    it('should highlight the partial match and the character at which it failed', () => {
+      const trace = _.trace(date)
+      assert.strictEqual(_.highlight(trace('on 2021-03!')), 'on \u001b[32m2021-03\u001b[39m!')
+      assert.strictEqual(_.highlight(trace('on 2021-😀!')), 'on \u001b[32m2021-\u001b[39m\u001b[41m😀\u001b[49m!')
+      assert.strictEqual(_.highlight(trace('2021-')), '\u001b[32m2021-\u001b[39m\u001b[41m \u001b[49m')
+      assert.strictEqual(_.highlight(trace('x')), '\u001b[41mx\u001b[49m')
+    })
+  })
+
+  describe('showTrace', () => {
+    it('should describe a match', () => {
+      assert.strictEqual(
+        _.showTrace.show(_.trace(date)('on 2021-03!')),
+        [
+          'Matched at index 3',
+          "  'on 2021-03!'",
+          '      ~~~~~~~',
+          "  ✓ \\d{4}  '2021'",
+          "  ✓ -      '-'",
+          "  ✓ \\d{2}  '03'"
+        ].join('\n')
+      )
+    })
+
+    it('should describe where matching failed', () => {
+      assert.strictEqual(
+        _.showTrace.show(_.trace(date)("'\n'2021")),
+        [
+          'No match, failed at index 7',
+          "  '\\'\\n\\'2021'",
+          '         ~~~~^',
+          "  ✓ \\d{4}  '2021'",
+          '  ✗ -',
+          '    \\d{2}'
+        ].join('\n')
+      )
+      assert.strictEqual(
+        _.showTrace.show(_.trace(date)('')),
+        ['No match, failed at index 0', "  ''", '   ^', '  ✗ \\d{4}', '    -', '    \\d{2}'].join('\n')
+      )
+    })
+  })
+})
@@ -4,6 +4,9 @@ import * as path from 'path'
 
 const getModuleNames = (): ReadonlyArray<string> => glob.sync('./src/**/*.ts').map((file) => path.parse(file).name)
 
+// The modules which depend on an optional peer dependency, and are only imported by path
+const optionalModules: ReadonlyArray<string> = ['Arbitrary', 'Codec', 'ParserTs']
+
 describe('index', () => {
   it('check exported modules', () => {
     /* eslint-disable-next-line @typescript-eslint/no-var-requires, global-require */
@@ -12,7 +15,7 @@ describe('index', () => {
     const moduleNames = getModuleNames()
 
     moduleNames.forEach((name) => {
-      if (name !== 'index') {
+      if (name !== 'index' && !optionalModules.includes(name)) {
         const exportName = name.substring(0, 1).toLowerCase() + name.substring(1)
 
         assert.deepStrictEqual(
@@ -23,4 +26,19 @@ describe('index', () => {
       }
     })
   })
+
+  it('check modules which depend on an optional peer dependency are not exported', () => {
+    /* eslint-disable-next-line @typescript-eslint/no-var-requires, global-require */
+    const exp = require('../src')
+
+    optionalModules.forEach((name) => {
+      const exportName = name.substring(0, 1).toLowerCase() + name.substring(1)
+
+      assert.deepStrictEqual(
+        exp[exportName] === undefined,
+        true,
+        `The "${name}" module should only be imported from expressive-ts/lib/${name}`
+      )
+    })
+  })
 })
@@ -0,0 +1,14 @@
+// The `d` and `v` flags, and some patterns which are rejected on purpose, are not known to the linter
+export const regExp = (source: string, flags: string): RegExp => new RegExp(source, flags)
+
+const supportsFlag = (flag: string): boolean => {
+  try {
+    regExp('', flag)
+    return true
+  } catch {
+    return false
+  }
+}
+
+// A test which needs a flag that older engines do not support, such as `v` before Node.js 20
+export const itWithFlag = (flag: string): jest.It => (supportsFlag(flag) ? it : it.skip)